@@ -23,12 +23,13 @@
  *     modal behavior globally.
  */
 
-import React, { useEffect } from 'react';
+import React, { useEffect, useCallback } from 'react';
 import { useSelector, useDispatch } from 'react-redux';
 import { RootState, AppDispatch } from './store';
 import GameScreen from './components/templates/GameScreen';
 import NavBar from './components/organisms/NavBar';
 import CountdownTimer from './components/molecules/CountdownTimer';
+import MilestoneToast from './components/molecules/MilestoneToast';
 
 // Import all modal components
 import PurchaseInfoModal from './components/organisms/modals/PurchaseInfoModal';
@@ -39,12 +40,20 @@ import AccusationModal from './components/organisms/modals/AccusationModal';
 import IntroSlideshowModal from './components/organisms/modals/IntroSlideshowModal';
 import RarityRevealModal from './components/organisms/modals/RarityRevealModal';
 import PhaseCompleteModal from './components/organisms/modals/PhaseCompleteModal';
+import PhaseFailedModal from './components/organisms/modals/PhaseFailedModal';
 import InsightUnlockedModal from './components/organisms/modals/InsightUnlockedModal';
 import CaseSolvedModal from './components/organisms/modals/CaseSolvedModal';
-import { ModalType, showModal } from './store/uiSlice';
+import SaveLoadModal from './components/organisms/modals/SaveLoadModal';
+import StoryEventModal from './components/organisms/modals/StoryEventModal';
+import BountyModal from './components/organisms/modals/BountyModal';
+import { ModalType, showModal, dismissUnlockNotice } from './store/uiSlice';
 import { 
   hydrateImageCache,
 } from './store/storySlice';
+import { defaultStoryPack } from './data/storyRegistry';
+import { validateStoryPack, logStoryValidationReport } from './services/storyValidator';
+import { offerContinue } from './store/saveSlice';
+import { useAutosave } from './hooks/useAutosave';
 
 /**
  * --- Modal Registry Pattern ---
@@ -61,8 +70,12 @@ const MODAL_COMPONENTS: { [key in ModalType]?: React.FC<any> } = {
   introSlideshow: IntroSlideshowModal,
   rarityReveal: RarityRevealModal,
   phaseComplete: PhaseCompleteModal,
+  phaseFailed: PhaseFailedModal,
   insightUnlocked: InsightUnlockedModal,
   caseSolved: CaseSolvedModal,
+  saveLoad: SaveLoadModal,
+  storyEvent: StoryEventModal,
+  bounty: BountyModal,
 };
 
 /**
@@ -72,8 +85,21 @@ const MODAL_COMPONENTS: { [key in ModalType]?: React.FC<any> } = {
 const App: React.FC = () => {
   const dispatch = useDispatch<AppDispatch>();
   // Select necessary state from the Redux store
-  const { activeModal, activeModalProps, introPlayed } = useSelector((state: RootState) => state.ui);
+  const { activeModal, activeModalProps, introPlayed, unlockNotices } = useSelector((state: RootState) => state.ui);
+  const handleDismissUnlockNotice = useCallback(() => dispatch(dismissUnlockNotice()), [dispatch]);
   
+  // On initial app load, report any authoring problems in the starting case. Later cases are
+  // validated by the `selectStory` thunk when they are opened.
+  useEffect(() => {
+    logStoryValidationReport(validateStoryPack(defaultStoryPack));
+  }, []);
+
+  // Keep the autosave slot current, and on startup offer to continue from a previous save.
+  useAutosave();
+  useEffect(() => {
+    dispatch(offerContinue());
+  }, [dispatch]);
+
   // On initial app load, hydrate the image URL cache from IndexedDB and check if the intro should play.
   useEffect(() => {
     dispatch(hydrateImageCache());
@@ -109,6 +135,11 @@ const App: React.FC = () => {
         <GameScreen />
       </main>
       <NavBar />
+
+      {/* Announce newly unlocked locations and characters, one at a time */}
+      {unlockNotices.length > 0 && (
+        <MilestoneToast key={unlockNotices.length} message={unlockNotices[0]} onDismiss={handleDismissUnlockNotice} />
+      )}
       
       {/* Render the active modal if there is one */}
       {renderModal()}
@@ -14,10 +14,10 @@ interface SuspectAvatarProps {
 }
 
 const SuspectAvatar: React.FC<SuspectAvatarProps> = React.memo(({ suspect }) => {
-  const { imageUrl, isLoading } = useCardImage(suspect, 'monochrome');
+  const { imageUrl, isLoading, failure } = useCardImage(suspect, 'monochrome');
   return (
     <div className="w-6 h-6 rounded-full overflow-hidden border-2 border-brand-surface bg-brand-bg" title={suspect.name}>
-      <ImageWithLoader imageUrl={imageUrl} isLoading={isLoading} alt={suspect.name} objectFit="cover" />
+      <ImageWithLoader imageUrl={imageUrl} isLoading={isLoading} failure={failure} alt={suspect.name} objectFit="cover" />
     </div>
   );
 });
@@ -21,10 +21,10 @@ const BodyCamView: React.FC<BodyCamViewProps> = ({ characterId, witnessName, pro
     return () => clearInterval(timer);
   }, []);
 
-  const { imageUrl, isLoading } = useCardImage({
+  const { imageUrl, isLoading, failure, retry } = useCardImage({
     id: `interview-${characterId}-${currentImageIndex}`,
     imagePrompt: prompts[currentImageIndex],
-  }, 'monochrome');
+  }, 'monochrome', 'visible');
 
   return (
     <div className="w-full h-48 rounded-lg overflow-hidden relative bg-black flex-shrink-0 border border-brand-border/50">
@@ -32,7 +32,10 @@ const BodyCamView: React.FC<BodyCamViewProps> = ({ characterId, witnessName, pro
         imageUrl={imageUrl}
         isLoading={isLoading}
         alt={`Body cam view of ${witnessName}`}
+        label={witnessName}
         objectFit="cover"
+        failure={failure}
+        onRetry={retry}
       />
       <div className="absolute inset-0 bg-gradient-to-t from-black/50 to-transparent pointer-events-none" />
       
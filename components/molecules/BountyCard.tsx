@@ -1,31 +1,53 @@
 /**
  * @file components/molecules/BountyCard.tsx
  * @description A card component representing a single bounty or mini-game that the player can undertake to earn tokens.
+ * It shows whether the bounty can be played: solved bounties are marked as such, and bounties on cooldown
+ * show when they return.
  */
 import React from 'react';
-import { Coins } from 'lucide-react';
+import { Coins, CheckCircle } from 'lucide-react';
 import Button from '../atoms/Button';
+import { BountyStatus } from '../../services/bountyEngine';
+import { BOUNTY_COPY } from '../../config';
 
 interface BountyCardProps {
   title: string;
   description: string;
   reward: number;
+  status: BountyStatus;
+  /** When a bounty on cooldown can be played again. */
+  availableAt: number | null;
+  /** False for bounties without a mini-game yet. */
+  isPlayable: boolean;
   onClick: () => void;
 }
 
-const BountyCard: React.FC<BountyCardProps> = ({ title, description, reward, onClick }) => {
+const BountyCard: React.FC<BountyCardProps> = ({ title, description, reward, status, availableAt, isPlayable, onClick }) => {
+  const isOpen = isPlayable && status === 'available';
+
+  const label = !isPlayable
+    ? BOUNTY_COPY.UNAVAILABLE
+    : status === 'completed'
+      ? BOUNTY_COPY.COMPLETED
+      : status === 'cooldown' && availableAt
+        ? `${BOUNTY_COPY.COOLDOWN} ${new Date(availableAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`
+        : BOUNTY_COPY.START;
+
   return (
-    <div className="bg-brand-surface p-4 rounded-lg border-l-4 border-brand-border hover:border-brand-primary transition-colors duration-200 flex items-center justify-between gap-4">
+    <div className={`bg-brand-surface p-4 rounded-lg border-l-4 transition-colors duration-200 flex items-center justify-between gap-4 ${status === 'completed' ? 'border-green-500/70 opacity-70' : 'border-brand-border hover:border-brand-primary'}`}>
       <div className="flex-1">
-        <h3 className="font-oswald text-lg text-white uppercase">{title}</h3>
+        <h3 className="font-oswald text-lg text-white uppercase flex items-center gap-2">
+          {title}
+          {status === 'completed' && <CheckCircle size={16} className="text-green-400" />}
+        </h3>
         <p className="text-sm text-brand-text-muted mb-3">{description}</p>
         <div className="flex items-center gap-2 text-yellow-400 font-bold">
           <Coins size={16} />
           <span>{reward} Tokens</span>
         </div>
       </div>
-      <Button onClick={onClick} className="flex-shrink-0 text-sm">
-        Start
+      <Button onClick={onClick} disabled={!isOpen} className="flex-shrink-0 text-sm disabled:opacity-50 disabled:cursor-not-allowed">
+        {label}
       </Button>
     </div>
   );
@@ -5,10 +5,9 @@
 import React, { useState } from 'react';
 import { useSelector } from 'react-redux';
 import { RootState } from '../../store';
-import { selectPlayerTokens } from '../../store/storySlice';
+import { selectPlayerTokens, selectDifficultyRules } from '../../store/storySlice';
 import { NotebookPen, Send, ChevronRight, Coins } from 'lucide-react';
 import Button from '../atoms/Button';
-import { GAME_MECHANICS } from '../../config';
 
 interface ChatInputProps {
   suggestedQuestions: string[];
@@ -21,7 +20,7 @@ interface ChatInputProps {
 const ChatInput: React.FC<ChatInputProps> = ({ suggestedQuestions, isAiResponding, onSendMessage, mode, initialQuestions }) => {
   const [inputValue, setInputValue] = useState('');
   const playerTokens = useSelector((state: RootState) => selectPlayerTokens(state));
-  const questionCost = GAME_MECHANICS.QUESTION_COST;
+  const { questionCost } = useSelector(selectDifficultyRules);
   const canAfford = playerTokens >= questionCost;
 
   const handleSubmit = (e: React.FormEvent) => {
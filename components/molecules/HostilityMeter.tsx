@@ -0,0 +1,44 @@
+/**
+ * @file HostilityMeter.tsx
+ * @description A meter showing how hostile a suspect is, with the composure state it puts them in.
+ */
+import React from 'react';
+import { GAME_MECHANICS } from '../../config';
+import { COMPOSURE_LABELS, getComposureState } from '../../services/composureService';
+
+interface HostilityMeterProps {
+  hostility: number;
+}
+
+const STATE_COLORS = {
+  composed: 'bg-brand-text-muted',
+  defensive: 'bg-yellow-400',
+  refusing: 'bg-brand-primary',
+};
+
+const HostilityMeter: React.FC<HostilityMeterProps> = ({ hostility }) => {
+  const max = GAME_MECHANICS.HOSTILITY_LAWYER_THRESHOLD;
+  const state = getComposureState(hostility);
+  const percent = Math.min(100, (hostility / max) * 100);
+  // Tick marks at the thresholds where the suspect's behaviour changes.
+  const thresholds = [GAME_MECHANICS.HOSTILITY_DEFENSIVE_THRESHOLD, GAME_MECHANICS.HOSTILITY_REFUSAL_THRESHOLD];
+
+  return (
+    <div className="w-full flex items-center gap-3">
+        <div className="w-full bg-black/50 rounded-full h-1.5 border border-brand-border relative overflow-hidden">
+            <div
+                className={`h-full rounded-full transition-all duration-700 ease-out ${STATE_COLORS[state]}`}
+                style={{ width: `${percent}%` }}
+            />
+            {thresholds.map(threshold => (
+                <div key={threshold} className="absolute top-0 bottom-0 w-px bg-brand-border" style={{ left: `${(threshold / max) * 100}%` }} />
+            ))}
+        </div>
+        <span className={`font-mono text-xs font-bold uppercase whitespace-nowrap ${state === 'composed' ? 'text-brand-text-muted' : state === 'defensive' ? 'text-yellow-400' : 'text-brand-primary'}`}>
+            {COMPOSURE_LABELS[state]}
+        </span>
+    </div>
+  );
+};
+
+export default HostilityMeter;
@@ -2,10 +2,14 @@
  * @file ImageWithLoader.tsx
  * @description A reusable component that displays an image with a loading spinner.
  * It gracefully handles loading and error states. This component has been enhanced
- * with an `objectFit` prop for greater flexibility.
+ * with an `objectFit` prop for greater flexibility. When an image is unavailable, it shows a styled
+ * placeholder that names the card, explains a failed generation and, if `onRetry` is given, offers a retry.
  */
 import React from 'react';
 import Spinner from '../atoms/Spinner';
+import { ImageOff, RefreshCw } from 'lucide-react';
+import { ImageFailure } from '../../types';
+import { describeImageFailure } from '../../services/imageFailures';
 
 interface ImageWithLoaderProps {
   imageUrl: string | null;
@@ -13,10 +17,16 @@ interface ImageWithLoaderProps {
   alt: string;
   /** Determines how the image should be resized to fit its container. */
   objectFit?: 'cover' | 'contain';
+  /** The name shown on the placeholder when there is no image. Defaults to `alt`. */
+  label?: string;
+  /** The recorded failure, if generating the image failed. */
+  failure?: ImageFailure | null;
+  /** Asks for the image again. Shown as a retry button when the image has failed. */
+  onRetry?: () => void;
 }
 
-const ImageWithLoader: React.FC<ImageWithLoaderProps> = ({ imageUrl, isLoading, alt, objectFit = 'cover' }) => {
-  
+const ImageWithLoader: React.FC<ImageWithLoaderProps> = ({ imageUrl, isLoading, alt, objectFit = 'cover', label, failure, onRetry }) => {
+
   if (isLoading) {
     return (
       <div className="w-full h-full bg-brand-surface flex items-center justify-center">
@@ -26,9 +36,36 @@ const ImageWithLoader: React.FC<ImageWithLoaderProps> = ({ imageUrl, isLoading,
   }
 
   if (!imageUrl) {
+    // Placeholders often sit inside clickable cards and buttons, so the retry control is a `span` (a nested
+    // `button` is invalid HTML) and retrying must not also activate the card.
+    const handleRetry = (e: React.SyntheticEvent) => {
+      e.stopPropagation();
+      e.preventDefault();
+      onRetry?.();
+    };
+    const description = failure
+      ? `${describeImageFailure(failure.reason)}${failure.nextRetryAt !== null ? ' Retrying automatically.' : ''}`
+      : 'Image not available.';
+
     return (
-      <div className="w-full h-full bg-brand-surface flex items-center justify-center text-brand-text-muted p-4 text-center">
-        <p>Image not available.</p>
+      <div
+        className="w-full h-full bg-gradient-to-br from-brand-surface to-black/60 border border-brand-border flex flex-col items-center justify-center gap-2 text-brand-text-muted p-2 text-center overflow-hidden"
+        title={description}
+      >
+        <ImageOff size={24} className="flex-shrink-0" />
+        <p className="font-oswald uppercase tracking-wider text-white text-sm leading-tight line-clamp-2">{label ?? alt}</p>
+        {failure && <p className="text-xs leading-tight line-clamp-2">{description}</p>}
+        {failure && onRetry && (
+          <span
+            role="button"
+            tabIndex={0}
+            onClick={handleRetry}
+            onKeyDown={(e) => (e.key === 'Enter' || e.key === ' ') && handleRetry(e)}
+            className="flex items-center gap-1 text-xs uppercase text-brand-primary hover:text-white transition-colors cursor-pointer"
+          >
+            <RefreshCw size={12} /> Retry
+          </span>
+        )}
       </div>
     );
   }
@@ -38,4 +75,4 @@ const ImageWithLoader: React.FC<ImageWithLoaderProps> = ({ imageUrl, isLoading,
   return <img src={imageUrl} alt={alt} className={`w-full h-full animate-fade-in ${objectFitClass}`} />;
 };
 
-export default ImageWithLoader;
\ No newline at end of file
+export default ImageWithLoader;
@@ -3,19 +3,29 @@
  * @description A dedicated panel for all player actions during an interrogation. It intelligently renders either
  * initial questions at the start of a phase or suggested follow-up questions, providing a cleaner, more focused UI.
  * This component replaces the former `ChatInput` component.
+ * Once the phase is underway, the player can also present a piece of collected evidence to confront the suspect
+ * and, in stories that allow it, type their own question.
  */
-import React from 'react';
+import React, { useState } from 'react';
 import { useSelector } from 'react-redux';
 import { RootState } from '../../store';
-import { selectPlayerTokens } from '../../store/storySlice';
-import { ChevronRight, Coins } from 'lucide-react';
-import { GAME_MECHANICS } from '../../config';
+import { selectPlayerTokens, selectDifficultyRules } from '../../store/storySlice';
+import { ChevronRight, Coins, FileSearch, X, NotebookPen, Send } from 'lucide-react';
+import { StoryObject } from '../../types';
+import { MAX_TYPED_QUESTION_LENGTH } from '../../services/questionGuard';
 
 interface InterrogationActionsProps {
   suggestedQuestions: string[];
   initialQuestions?: string[] | null;
   isAiResponding: boolean;
   onSendMessage: (text: string) => void;
+  /** The evidence the player can present. The option is hidden when this is omitted. */
+  collectedEvidence?: StoryObject[];
+  /** The evidence already presented during the active line of inquiry. */
+  presentedEvidenceIds?: string[];
+  onPresentEvidence?: (object: StoryObject) => void;
+  /** Submits a question the player typed. Typing is hidden when this is omitted. */
+  onSubmitTypedQuestion?: (text: string) => void;
 }
 
 const InterrogationActions: React.FC<InterrogationActionsProps> = ({
@@ -23,13 +33,38 @@ const InterrogationActions: React.FC<InterrogationActionsProps> = ({
   initialQuestions,
   isAiResponding,
   onSendMessage,
+  collectedEvidence,
+  presentedEvidenceIds = [],
+  onPresentEvidence,
+  onSubmitTypedQuestion,
 }) => {
+  const [isPresenting, setIsPresenting] = useState(false);
+  const [isTyping, setIsTyping] = useState(false);
+  const [typedQuestion, setTypedQuestion] = useState('');
   const playerTokens = useSelector((state: RootState) => selectPlayerTokens(state));
-  const questionCost = GAME_MECHANICS.QUESTION_COST;
+  const rules = useSelector(selectDifficultyRules);
+  const questionCost = rules.questionCost;
   const canAfford = playerTokens >= questionCost;
 
   // A helper to determine if an action should be disabled.
   const isDisabled = isAiResponding || !canAfford;
+  const presentCost = rules.presentEvidenceCost;
+  const canPresent = !!onPresentEvidence && !!collectedEvidence;
+
+  const handlePresent = (object: StoryObject) => {
+    setIsPresenting(false);
+    onPresentEvidence?.(object);
+  };
+
+  const typedCost = rules.typedQuestionCost;
+  const canAffordTyped = playerTokens >= typedCost;
+
+  const handleTypedSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isAiResponding || !canAffordTyped || !typedQuestion.trim()) return;
+    onSubmitTypedQuestion?.(typedQuestion);
+    setTypedQuestion('');
+  };
 
   // Render initial questions if they exist for the start of a phase.
   if (initialQuestions) {
@@ -56,6 +91,50 @@ const InterrogationActions: React.FC<InterrogationActionsProps> = ({
     );
   }
   
+  // Render the player's collected evidence to choose from.
+  if (canPresent && isPresenting) {
+    return (
+      <div className="p-4 bg-brand-surface border-t-2 border-brand-primary/40">
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="font-oswald text-brand-primary uppercase tracking-wider text-sm">Present Evidence</h3>
+          <button onClick={() => setIsPresenting(false)} className="text-brand-text-muted hover:text-white" aria-label="Cancel presenting evidence">
+            <X size={18} />
+          </button>
+        </div>
+        {collectedEvidence!.length > 0 ? (
+          <div className="space-y-2 max-h-64 overflow-y-auto">
+            {collectedEvidence!.map(object => {
+              const wasPresented = presentedEvidenceIds.includes(object.id);
+              return (
+                <button
+                  key={object.id}
+                  onClick={() => handlePresent(object)}
+                  disabled={isAiResponding || playerTokens < presentCost}
+                  className="w-full p-3 bg-brand-bg rounded-md text-left text-brand-text
+                             flex justify-between items-center text-sm
+                             transition-colors duration-200 ease-in-out
+                             hover:bg-brand-primary/20
+                             disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <span className="font-mono">
+                    {object.name}
+                    {wasPresented && <span className="ml-2 text-brand-text-muted text-xs uppercase">(Presented)</span>}
+                  </span>
+                  <div className="flex items-center gap-2 text-yellow-400 font-mono text-xs flex-shrink-0">
+                    <Coins size={14} />
+                    <span>{presentCost}</span>
+                  </div>
+                </button>
+              );
+            })}
+          </div>
+        ) : (
+          <p className="text-center text-brand-text-muted text-sm">You have not collected any evidence to present.</p>
+        )}
+      </div>
+    );
+  }
+
   // Render suggested follow-up questions in the new dedicated panel.
   return (
     <div className="p-4 bg-brand-surface border-t-2 border-brand-primary/30">
@@ -80,6 +159,65 @@ const InterrogationActions: React.FC<InterrogationActionsProps> = ({
               </button>
             ))}
         </div>
+        {onSubmitTypedQuestion && (isTyping ? (
+            <form onSubmit={handleTypedSubmit} className="mt-3">
+              <div className="flex items-center gap-2">
+                <div className="flex-1 flex items-center bg-brand-bg rounded-md p-1 pl-3 border border-brand-border focus-within:border-brand-primary transition-colors">
+                  <NotebookPen size={16} className="text-brand-text-muted mr-2 flex-shrink-0" />
+                  <input
+                    type="text"
+                    value={typedQuestion}
+                    onChange={(e) => setTypedQuestion(e.target.value)}
+                    maxLength={MAX_TYPED_QUESTION_LENGTH}
+                    placeholder={canAffordTyped ? "Ask your own question..." : "Insufficient Tokens"}
+                    disabled={isAiResponding || !canAffordTyped}
+                    autoFocus
+                    className="w-full bg-transparent focus:outline-none text-sm text-white font-mono placeholder:text-brand-text-muted disabled:opacity-50"
+                  />
+                </div>
+                <button
+                  type="submit"
+                  disabled={isAiResponding || !canAffordTyped || !typedQuestion.trim()}
+                  className="p-2 rounded-md bg-brand-primary text-white disabled:opacity-50 disabled:cursor-not-allowed"
+                  aria-label="Ask typed question"
+                >
+                  <Send size={16} />
+                </button>
+                <button type="button" onClick={() => setIsTyping(false)} className="text-brand-text-muted hover:text-white" aria-label="Cancel typing a question">
+                  <X size={18} />
+                </button>
+              </div>
+              <div className="mt-1 flex justify-between text-xs text-brand-text-muted font-mono">
+                <span className="flex items-center gap-1"><Coins size={12} className="text-yellow-400" /> {typedCost} per question</span>
+                <span>{typedQuestion.length}/{MAX_TYPED_QUESTION_LENGTH}</span>
+              </div>
+            </form>
+        ) : (
+            <button
+              onClick={() => setIsTyping(true)}
+              disabled={isAiResponding}
+              className="w-full mt-3 p-3 rounded-md border border-brand-border text-brand-text-muted font-oswald uppercase tracking-wider text-sm
+                         flex justify-center items-center gap-2
+                         transition-colors duration-200 ease-in-out
+                         hover:border-brand-primary/50 hover:text-white
+                         disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <NotebookPen size={16} /> Type Your Own Question
+            </button>
+        ))}
+        {canPresent && (
+            <button
+              onClick={() => setIsPresenting(true)}
+              disabled={isAiResponding}
+              className="w-full mt-3 p-3 rounded-md border border-brand-primary/50 text-brand-primary font-oswald uppercase tracking-wider text-sm
+                         flex justify-center items-center gap-2
+                         transition-colors duration-200 ease-in-out
+                         hover:bg-brand-primary/10
+                         disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <FileSearch size={16} /> Present Evidence
+            </button>
+        )}
         {!canAfford && (
             <div className="mt-3 text-center text-yellow-500 text-xs p-2 bg-yellow-900/50 rounded-md">
                 Insufficient tokens to ask another question.
@@ -7,8 +7,7 @@ import { useSelector } from 'react-redux';
 import { RootState } from '../../store';
 import { Lightbulb, Coins } from 'lucide-react';
 import { DialogueChunkData } from '../../types';
-import { GAME_MECHANICS } from '../../config';
-import { selectPlayerTokens } from '../../store/storySlice';
+import { selectPlayerTokens, selectDifficultyRules } from '../../store/storySlice';
 import ToggleButton from '../atoms/ToggleButton';
 
 interface InterrogationDialogueChunkProps {
@@ -16,13 +15,15 @@ interface InterrogationDialogueChunkProps {
   onCreateEvidence: (chunk: DialogueChunkData) => void;
   isEvidence: boolean;
   isRevealed: boolean;
+  /** True while the reply this chunk belongs to is still streaming in. It cannot be logged as evidence yet. */
+  isStreaming?: boolean;
 }
 
-const InterrogationDialogueChunk: React.FC<InterrogationDialogueChunkProps> = ({ chunk, onCreateEvidence, isEvidence, isRevealed }) => {
+const InterrogationDialogueChunk: React.FC<InterrogationDialogueChunkProps> = ({ chunk, onCreateEvidence, isEvidence, isRevealed, isStreaming = false }) => {
   const isGreeting = chunk.id.includes('-opening');
   const playerTokens = useSelector((state: RootState) => selectPlayerTokens(state));
   
-  const cost = GAME_MECHANICS.CREATE_TESTIMONY_EVIDENCE_COST;
+  const cost = useSelector(selectDifficultyRules).testimonyEvidenceCost;
   const canAfford = playerTokens >= cost;
 
   const containerClasses = isRevealed
@@ -57,7 +58,7 @@ const InterrogationDialogueChunk: React.FC<InterrogationDialogueChunkProps> = ({
           </div>
         )}
 
-        {!isGreeting && (
+        {!isGreeting && !isStreaming && (
             <div className="pt-3 mt-3 border-t border-brand-border/20 z-10 relative">
                 <div className="flex items-center justify-between gap-4">
                   <label className="font-oswald text-brand-text uppercase tracking-wider text-sm">Add to Timeline</label>
@@ -15,7 +15,7 @@ interface SuspectFilterButtonProps {
 }
 
 const SuspectFilterButton: React.FC<SuspectFilterButtonProps> = React.memo(({ suspect, isActive, onClick }) => {
-    const { imageUrl, isLoading } = useCardImage(suspect, 'selectiveColor');
+    const { imageUrl, isLoading, failure } = useCardImage(suspect, 'selectiveColor');
     
     return (
         <button
@@ -23,7 +23,7 @@ const SuspectFilterButton: React.FC<SuspectFilterButtonProps> = React.memo(({ su
             className={`px-3 py-1 rounded-md text-sm font-semibold transition flex items-center space-x-2 flex-shrink-0 ${isActive ? 'bg-brand-primary text-white' : 'bg-brand-surface text-brand-text'}`}
         >
             <div className="w-6 h-6 rounded-full overflow-hidden border-2 border-brand-border bg-brand-bg">
-                <ImageWithLoader imageUrl={imageUrl} isLoading={isLoading} alt={suspect.name} objectFit="cover" />
+                <ImageWithLoader imageUrl={imageUrl} isLoading={isLoading} failure={failure} alt={suspect.name} objectFit="cover" />
             </div>
             <span className="font-oswald uppercase tracking-wider">{suspect.name}</span>
         </button>
@@ -25,11 +25,11 @@ interface TimelineEventStackCardProps {
  * A dedicated component for displaying a thumbnail of a linked item within the Dossier Card.
  */
 const LinkedItemThumbnail: React.FC<{ evidence: EvidenceWithDetails }> = React.memo(({ evidence }) => {
-    const { imageUrl, isLoading } = useCardImage(evidence.details, 'monochrome');
+    const { imageUrl, isLoading, failure, retry } = useCardImage(evidence.details, 'monochrome');
     return (
         <div className="flex items-center gap-2">
             <div className="w-12 h-12 rounded-md overflow-hidden bg-brand-bg border border-brand-border flex-shrink-0">
-                <ImageWithLoader imageUrl={imageUrl} isLoading={isLoading} alt={evidence.name} objectFit="cover" />
+                <ImageWithLoader imageUrl={imageUrl} isLoading={isLoading} failure={failure} onRetry={retry} alt={evidence.name} objectFit="cover" />
             </div>
             <p className="text-sm font-semibold text-white truncate">{evidence.name}</p>
         </div>
@@ -31,7 +31,7 @@ const SuspectRow: React.FC<{
   isAssigned: boolean;
   onToggle: () => void;
 }> = ({ suspect, isAssigned, onToggle }) => {
-  const { imageUrl, isLoading } = useCardImage(suspect, 'selectiveColor');
+  const { imageUrl, isLoading, failure, retry } = useCardImage(suspect, 'selectiveColor', 'modal');
 
   return (
     <button
@@ -42,7 +42,7 @@ const SuspectRow: React.FC<{
     >
       <div className="flex items-center gap-3 overflow-hidden">
         <div className="w-12 h-16 bg-brand-bg border border-brand-border rounded-md overflow-hidden flex-shrink-0">
-          <ImageWithLoader imageUrl={imageUrl} isLoading={isLoading} alt={suspect.name} objectFit="cover" />
+          <ImageWithLoader imageUrl={imageUrl} isLoading={isLoading} failure={failure} onRetry={retry} alt={suspect.name} objectFit="cover" />
         </div>
         <span className="font-oswald uppercase tracking-wide truncate">{suspect.name}</span>
       </div>
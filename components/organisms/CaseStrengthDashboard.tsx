@@ -3,16 +3,18 @@
  * @description A dedicated component for rendering the "Case Strength" dashboard for a
  * selected suspect on the Timeline view. This was extracted from `TimelineView.tsx`
  * to improve modularity and separation of concerns.
+ * On difficulties that limit accusations, it shows how many submissions to the DA are left.
  */
 import React from 'react';
 import { useDispatch, useSelector } from 'react-redux';
-import { RootState, AppDispatch } from '../../store';
+import { AppDispatch } from '../../store';
 import { showModal } from '../../store/uiSlice';
 import { Character, TimelineTag } from '../../types';
 import MMOProgressView from './MMOProgressView';
 import Button from '../atoms/Button';
 import { Shield } from 'lucide-react';
-import { selectAllEvidenceWithDetails } from '../../store/storySlice';
+import { selectAllEvidenceWithDetails, selectDifficultyRules } from '../../store/storySlice';
+import { selectAccusationsLeft } from '../../store/caseFileSlice';
 
 type EvidenceWithDetails = ReturnType<typeof selectAllEvidenceWithDetails>[0];
 
@@ -25,7 +27,8 @@ interface CaseStrengthDashboardProps {
 
 const CaseStrengthDashboard: React.FC<CaseStrengthDashboardProps> = React.memo(({ suspect, evidenceForMMO, activeMMOFilter, onMMOTagClick }) => {
   const dispatch = useDispatch<AppDispatch>();
-  const { accusationThreshold } = useSelector((state: RootState) => state.story);
+  const { accusationThreshold } = useSelector(selectDifficultyRules);
+  const accusationsLeft = useSelector(selectAccusationsLeft);
 
   const handleSubmitToDA = () => {
     dispatch(showModal({
@@ -47,10 +50,17 @@ const CaseStrengthDashboard: React.FC<CaseStrengthDashboardProps> = React.memo((
       />
       {evidenceForMMO.length >= accusationThreshold && (
         <div className="mt-4">
-          <Button onClick={handleSubmitToDA} className="w-full flex items-center justify-center gap-2 text-sm">
+          <Button onClick={handleSubmitToDA} disabled={accusationsLeft === 0} className="w-full flex items-center justify-center gap-2 text-sm disabled:opacity-50 disabled:cursor-not-allowed">
             <Shield size={16} />
             <span>SUBMIT CASE AGAINST {suspect.name} TO DA</span>
           </Button>
+          {accusationsLeft !== null && (
+            <p className="mt-2 text-xs text-center font-mono text-brand-text-muted">
+              {accusationsLeft === 0
+                ? 'The DA will not hear this case again.'
+                : `${accusationsLeft} ${accusationsLeft === 1 ? 'submission' : 'submissions'} to the DA left.`}
+            </p>
+          )}
         </div>
       )}
     </div>
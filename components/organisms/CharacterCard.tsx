@@ -58,7 +58,7 @@ const CharacterCard: React.FC<{ character: Character }> = ({ character }) => {
   };
   
   const colorTreatment = (character.isSuspect || character.role === 'victim') ? 'selectiveColor' : 'monochrome';
-  const { imageUrl, isLoading } = useCardImage(character, colorTreatment);
+  const { imageUrl, isLoading, failure, retry } = useCardImage(character, colorTreatment, 'visible');
 
   /**
    * --- Core Architectural Pattern: Data-Driven Sidebar Actions ---
@@ -116,7 +116,7 @@ const CharacterCard: React.FC<{ character: Character }> = ({ character }) => {
           <BackButton onClick={handleGoBack} />
         </header>
         
-        <ImageWithLoader imageUrl={imageUrl} isLoading={isLoading} alt={character.name} />
+        <ImageWithLoader imageUrl={imageUrl} isLoading={isLoading} failure={failure} onRetry={retry} alt={character.name} />
         
         <div className="absolute top-1/2 right-2 -translate-y-1/2 z-10 flex flex-col gap-2">
           {renderSidebarActions()}
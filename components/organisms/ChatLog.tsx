@@ -11,6 +11,8 @@ import InterrogationDialogueChunk from '../molecules/InterrogationDialogueChunk'
 interface ChatLogProps {
   lastQuestionAsked: string | null;
   messages: WitnessResponse[]; // Now specifically takes an array of witness responses
+  /** The chunks of the reply currently streaming in, shown after `messages` until the turn finishes. */
+  streamingChunks: DialogueChunkData[];
   mode: 'interview' | 'interrogation';
   onCreateEvidence: (chunk: DialogueChunkData) => void;
   evidenceCreatedChunkIds: Set<string>;
@@ -21,6 +23,7 @@ interface ChatLogProps {
 const ChatLog: React.FC<ChatLogProps> = ({
   lastQuestionAsked,
   messages,
+  streamingChunks,
   mode,
   onCreateEvidence,
   evidenceCreatedChunkIds,
@@ -47,7 +50,27 @@ const ChatLog: React.FC<ChatLogProps> = ({
     resizeObserver.observe(container);
 
     return () => resizeObserver.disconnect();
-  }, [messages]); // Re-run when messages change to update scroll state.
+  }, [messages, streamingChunks]); // Re-run when messages change to update scroll state.
+
+  const renderChunk = (chunk: DialogueChunkData, isStreaming = false) =>
+    mode === 'interrogation' ? (
+      <InterrogationDialogueChunk
+        key={chunk.id}
+        chunk={chunk}
+        onCreateEvidence={onCreateEvidence}
+        isEvidence={evidenceCreatedChunkIds.has(chunk.id)}
+        isRevealed={revealedCriticalIds.has(chunk.id)}
+        isStreaming={isStreaming}
+      />
+    ) : (
+      // Restore interview chunk logic
+      <DialogueChunk
+        key={chunk.id}
+        chunkId={chunk.id}
+        text={chunk.text}
+        onUnlock={() => {}}
+      />
+    );
 
   return (
     <div className="flex-1 bg-black/50 flex flex-col overflow-hidden relative border-t border-b border-brand-border">
@@ -61,30 +84,20 @@ const ChatLog: React.FC<ChatLogProps> = ({
 
       {/* Scrollable Transcript Area */}
       <div ref={scrollContainerRef} className="flex-1 p-4 overflow-y-auto space-y-4 relative">
-        {messages.length > 0 ? (
-          messages.map((msg, index) => (
-            <div key={index} className="space-y-2 max-w-[95%] animate-fade-in">
-              {msg.chunks.map((chunk) =>
-                mode === 'interrogation' ? (
-                  <InterrogationDialogueChunk
-                    key={chunk.id}
-                    chunk={chunk}
-                    onCreateEvidence={onCreateEvidence}
-                    isEvidence={evidenceCreatedChunkIds.has(chunk.id)}
-                    isRevealed={revealedCriticalIds.has(chunk.id)}
-                  />
-                ) : (
-                  // Restore interview chunk logic
-                  <DialogueChunk
-                    key={chunk.id}
-                    chunkId={chunk.id}
-                    text={chunk.text}
-                    onUnlock={() => {}}
-                  />
-                )
-              )}
-            </div>
-          ))
+        {messages.length > 0 || streamingChunks.length > 0 ? (
+          <>
+            {messages.map((msg, index) => (
+              <div key={index} className="space-y-2 max-w-[95%] animate-fade-in">
+                {msg.chunks.map((chunk) => renderChunk(chunk))}
+              </div>
+            ))}
+            {/* The reply still streaming in. Its chunks become actionable once the turn finishes. */}
+            {streamingChunks.length > 0 && (
+              <div className="space-y-2 max-w-[95%]">
+                {streamingChunks.map((chunk) => renderChunk(chunk, true))}
+              </div>
+            )}
+          </>
         ) : (
           !isAiResponding && (
             <div className="h-full flex items-center justify-center text-brand-text-muted text-center">
@@ -9,14 +9,25 @@
  * view with the current question pinned at the top, and a dedicated "actions" panel at the bottom,
  * removing the free-form text input for a more guided experience. The logic has been updated to drive
  * this new flow, cleanly separating the display of past conversation from the selection of future actions.
+ * The transcript and interrogation progress are kept in `dialogueSlice`, so leaving the card, reloading or
+ * loading a save resumes the conversation where it stopped.
  */
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
-import { useDispatch } from 'react-redux';
-import { AppDispatch } from '../../store';
+import { useDispatch, useSelector } from 'react-redux';
+import { AppDispatch, RootState } from '../../store';
 import { goBack, showModal, hideModal } from '../../store/uiSlice';
-import { Character, DialogueData, Insight, LineOfInquiryData, WitnessResponse, DialogueChunkData, ActiveFeedback } from '../../types';
-import { createEvidenceFromTestimony, deductTokens } from '../../store/storySlice';
+import { Character, DialogueData, Insight, LineOfInquiryData, WitnessResponse, DialogueChunkData, ActiveFeedback, StoryObject } from '../../types';
+import {
+  createEvidenceFromTestimony, deductTokens, selectCollectedObjects, selectStoryInfo, selectDifficultyRules, selectAllCharacters, selectAllLocations,
+} from '../../store/storySlice';
+import {
+  openDialogueSession, startLineOfInquiry, recordQuestion, recordWitnessResponse, recordTestimonyEvidence, recordEvidencePresented,
+  completeLineOfInquiry, suspectCracked, requestLawyer, endLineOfInquiry, selectDialogueSession, getDialogueChunkId,
+} from '../../store/dialogueSlice';
 import { useInterrogationAI } from '../../hooks/useInterrogationAI';
+import { InterrogationChunk } from '../../services/interrogationValidator';
+import { checkTypedQuestion } from '../../services/questionGuard';
+import { planComposureTurn, applyHostilityChange, isLawyerRequested, LAWYER_STATEMENT, ComposureTurnPlan } from '../../services/composureService';
 import ChatLog from './ChatLog';
 import InterrogationActions from '../molecules/InterrogationActions'; // New component
 import QuestionSelectView from './QuestionSelectView';
@@ -25,6 +36,34 @@ import PhaseHeader from './PhaseHeader';
 
 type InterrogationPhase = 'select' | 'active' | 'complete';
 
+/** Gives a chunk of testimony its ID (see `getDialogueChunkId`). */
+const toDialogueChunk = (characterId: string, replyNumber: number, chunk: InterrogationChunk, chunkIndex: number): DialogueChunkData =>
+  ({ ...chunk, id: getDialogueChunkId(characterId, replyNumber, chunkIndex) });
+
+/** Prefixed to ADA's feedback when the player presents a key piece of evidence. */
+const CONFRONTATION_FEEDBACK = "That landed. The evidence contradicts the story.";
+/** Prefixed to ADA's feedback when key evidence breaks a rattled suspect. */
+const CRACK_FEEDBACK = "They cracked. Pressure and evidence together broke the story.";
+/** Prefixed to ADA's feedback when a hostile suspect refuses to answer. */
+const REFUSAL_FEEDBACK = "They've shut down. Ease off, or give them something they can't ignore.";
+
+/** The plan for a turn that is not an interrogation, where hostility plays no part. */
+const NO_COMPOSURE_PLAN: ComposureTurnPlan = { isCracking: false, isRefusing: false, directive: null };
+
+/**
+ * Describes a presented piece of evidence to the suspect, so they can react to exactly what the player has.
+ */
+const buildEvidencePresentation = (object: StoryObject): string => {
+  const tags = object.tags?.length ? ` It points to ${object.tags.join(', ')}.` : '';
+  return `(I am presenting evidence: "${object.name}". ${object.description}${tags})\n` +
+    `React to this evidence in character. If it contradicts what you have told me, show that you have been caught out.`;
+};
+
+// Stable fallbacks for the render before the character's session is created.
+const EMPTY_MESSAGES: WitnessResponse[] = [];
+const EMPTY_LOI_STATUS: Record<string, 'completed'> = {};
+const EMPTY_QUESTIONS: string[] = [];
+
 interface DialogueCardProps {
   character: Character;
 }
@@ -37,135 +76,224 @@ const DialogueCard: React.FC<DialogueCardProps> = ({ character }) => {
     [character.components]
   );
   
-  // State now only holds witness responses. Player questions are handled separately.
-  const [messages, setMessages] = useState<WitnessResponse[]>([]);
+  // The transcript and progress are stored per character, so they survive leaving the card.
+  const session = useSelector((state: RootState) => selectDialogueSession(state, character.id));
+  const messages = session?.messages ?? EMPTY_MESSAGES;
+  const loiStatus = session?.loiStatus ?? EMPTY_LOI_STATUS;
+  const phaseProgress = session?.phaseProgress ?? 0;
+  const hostility = session?.hostility ?? 0;
+  const lastQuestionAsked = session?.lastQuestionAsked ?? null;
+  const suggestedQuestions = session?.suggestedQuestions ?? dialogueData?.suggestedQuestions ?? EMPTY_QUESTIONS;
+  const initialQuestions = session?.initialQuestions ?? null;
+  const evidenceCreatedChunkIds = useMemo(() => new Set(session?.evidenceCreatedChunkIds), [session?.evidenceCreatedChunkIds]);
+  const revealedCriticalIds = useMemo(() => new Set(session?.revealedCriticalIds), [session?.revealedCriticalIds]);
+  const activeLoi = useMemo(
+    () => dialogueData?.interrogation?.linesOfInquiry.find(loi => loi.id === session?.activeLoiId) ?? null,
+    [dialogueData, session?.activeLoiId]
+  );
+  const phase: InterrogationPhase = dialogueData?.mode !== 'interrogation'
+    ? 'active'
+    : !activeLoi ? 'select' : loiStatus[activeLoi.id] ? 'complete' : 'active';
+
+  const collectedEvidence = useSelector(selectCollectedObjects);
+  const storyInfo = useSelector(selectStoryInfo);
+  const rules = useSelector(selectDifficultyRules);
+  const allCharacters = useSelector(selectAllCharacters);
+  const allLocations = useSelector(selectAllLocations);
+  const canTypeQuestions = dialogueData?.mode === 'interrogation' && !!storyInfo.allowTypedQuestions;
+
+  // What a typed question must relate to, so the off-topic check can run without the AI.
+  const caseVocabulary = useMemo(() => activeLoi ? [
+    activeLoi.label,
+    ...activeLoi.initialQuestions,
+    ...suggestedQuestions,
+    ...allCharacters.map(c => c.name),
+    ...allLocations.map(l => l.name),
+    ...collectedEvidence.map(o => o.name),
+  ] : EMPTY_QUESTIONS, [activeLoi, suggestedQuestions, allCharacters, allLocations, collectedEvidence]);
+
+  const [streamingChunks, setStreamingChunks] = useState<DialogueChunkData[]>([]);
   const [currentImageIndex, setCurrentImageIndex] = useState(0);
-  const [suggestedQuestions, setSuggestedQuestions] = useState<string[]>(dialogueData?.suggestedQuestions || []);
   
-  const { sendMessage, isAiResponding } = useInterrogationAI(dialogueData?.persona || '');
+  const { sendMessage, isAiResponding } = useInterrogationAI(dialogueData?.persona || '', session?.exchanges);
   
-  const [phase, setPhase] = useState<InterrogationPhase>('select');
-  const [activeLoi, setActiveLoi] = useState<LineOfInquiryData | null>(null);
-  const [phaseProgress, setPhaseProgress] = useState(0);
-  const [loiStatus, setLoiStatus] = useState<Record<string, 'completed'>>({});
-  const [initialQuestions, setInitialQuestions] = useState<string[] | null>(null);
-  const [evidenceCreatedChunkIds, setEvidenceCreatedChunkIds] = useState<Set<string>>(new Set());
   const [completionData, setCompletionData] = useState<{ loi: LineOfInquiryData, insight?: Insight } | null>(null);
-  const [revealedCriticalIds, setRevealedCriticalIds] = useState<Set<string>>(new Set());
   const [activeFeedback, setActiveFeedback] = useState<ActiveFeedback | null>(null);
-  
-  // New state to manage the "pinned" question in the transcript view.
-  const [lastQuestionAsked, setLastQuestionAsked] = useState<string | null>(null);
 
   useEffect(() => {
     if (!dialogueData) return;
-    
-    if (dialogueData.mode === 'interrogation') {
-      setPhase('select');
-    } else {
-      if (dialogueData.openingStatement) {
-        const openingChunk: DialogueChunkData = { id: `dialogue-chunk-${character.id}-opening`, text: dialogueData.openingStatement };
-        setMessages([{ sender: 'witness', chunks: [openingChunk] }]);
-      }
-      setPhase('active');
+
+    const openingMessage: WitnessResponse | undefined = dialogueData.mode !== 'interrogation' && dialogueData.openingStatement
+      ? { sender: 'witness', chunks: [{ id: `dialogue-chunk-${character.id}-opening`, text: dialogueData.openingStatement }] }
+      : undefined;
+    dispatch(openDialogueSession({ characterId: character.id, suggestedQuestions: dialogueData.suggestedQuestions || [], openingMessage }));
+  }, [dialogueData, character.id, dispatch]);
+
+  // If the player left while a completed line of inquiry was still open, return to the list.
+  useEffect(() => {
+    if (phase === 'complete' && !completionData) {
+      dispatch(endLineOfInquiry(character.id));
     }
-  }, [dialogueData, character.id]);
+    // Only checked when the card opens; afterwards the completion modal ends the phase.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [character.id]);
 
   const handleSelectLoi = useCallback((loi: LineOfInquiryData) => {
-    dispatch(deductTokens(GAME_MECHANICS.QUESTION_COST));
-    setActiveLoi(loi);
-    setPhaseProgress(0);
-    setMessages([]);
-    setLastQuestionAsked(null); // Clear the last question
-    setEvidenceCreatedChunkIds(new Set());
-    setRevealedCriticalIds(new Set());
-    setInitialQuestions(loi.initialQuestions);
-    setPhase('active');
-  }, [dispatch]);
+    dispatch(deductTokens({ amount: rules.questionCost, reason: 'question', entityId: character.id }));
+    dispatch(startLineOfInquiry({ characterId: character.id, loiId: loi.id, initialQuestions: loi.initialQuestions }));
+  }, [dispatch, character.id, rules.questionCost]);
 
-  const handleSendMessage = useCallback(async (text: string) => {
-    if (!text.trim() || isAiResponding || !dialogueData) return;
-    
-    if (dialogueData.mode === 'interrogation') {
-        if (!activeLoi) return;
-        if (!initialQuestions) {
-            dispatch(deductTokens(GAME_MECHANICS.QUESTION_COST));
-        }
-        if (initialQuestions) setInitialQuestions(null);
-    }
-    
-    setLastQuestionAsked(text);
+  /**
+   * Sends one turn to the AI and records the reply. `question` is what the transcript pins; `presented` is
+   * the evidence shown to the suspect, if any, which earns bonus progress when it is key to the active line of inquiry.
+   * A suspect's hostility can make them refuse to answer, crack when confronted, or ask for a lawyer.
+   */
+  const runTurn = useCallback(async (question: string, presented?: StoryObject) => {
+    if (!dialogueData) return;
+    dispatch(recordQuestion({ characterId: character.id, question }));
+    const replyNumber = session?.repliesReceived ?? 0;
     
-    const messageWithContext = dialogueData.mode === 'interrogation' && activeLoi 
-      ? `(My current line of inquiry is: "${activeLoi.label}")\n\n${text}` 
-      : text;
+    const isInterrogation = dialogueData.mode === 'interrogation';
+    const isConfrontation = !!presented && !!activeLoi?.keyEvidenceIds?.includes(presented.id)
+      && !session?.presentedEvidenceIds.includes(presented.id);
+    const composurePlan = isInterrogation ? planComposureTurn(hostility, isConfrontation) : NO_COMPOSURE_PLAN;
+    const evidenceOrQuestion = presented ? buildEvidencePresentation(presented) : question;
+    const body = composurePlan.directive ? `${composurePlan.directive}\n\n${evidenceOrQuestion}` : evidenceOrQuestion;
+    const messageWithContext = isInterrogation && activeLoi 
+      ? `(My current line of inquiry is: "${activeLoi.label}")\n\n${body}` 
+      : body;
     
-    const parsed = await sendMessage(messageWithContext);
+    // The witness's chunks are shown as they stream in; everything else waits for the finished turn.
+    const parsed = await sendMessage(messageWithContext, chunks => {
+        setStreamingChunks(chunks.map((chunk, i) => toDialogueChunk(character.id, replyNumber, chunk, i)));
+    });
+    setStreamingChunks([]);
 
     if (parsed) {
-        if (dialogueData.mode === 'interrogation') {
-            const progressValue = parsed.phaseUpdate.progressValue || 0;
-            setActiveFeedback({ text: parsed.adaFeedback, progressChange: progressValue, source: 'question' });
-            setPhaseProgress(prev => Math.min(GAME_MECHANICS.PHASE_COMPLETION_GOAL, prev + progressValue));
+        // A refusal earns nothing, whatever the AI reported.
+        const progressValue = isInterrogation && !composurePlan.isRefusing ? parsed.phaseUpdate.progressValue || 0 : 0;
+        const hostilityChange = isInterrogation ? parsed.phaseUpdate.hostilityChange : 0;
+        const bonus = isConfrontation ? GAME_MECHANICS.EVIDENCE_CONFRONTATION_PROGRESS : 0;
+        if (isInterrogation) {
+            const prefix = composurePlan.isCracking ? CRACK_FEEDBACK
+              : isConfrontation ? CONFRONTATION_FEEDBACK
+              : composurePlan.isRefusing ? REFUSAL_FEEDBACK
+              : null;
+            setActiveFeedback({
+              text: prefix ? `${prefix} ${parsed.adaFeedback}` : parsed.adaFeedback,
+              progressChange: progressValue + bonus,
+              hostilityChange,
+              source: isConfrontation ? 'evidence' : 'question',
+            });
         }
         
-        const chunksWithIds = parsed.chunks.map((chunk): DialogueChunkData => {
-            let hash = 0;
-            for (let i = 0; i < chunk.text.length; i++) hash = ((hash << 5) - hash + chunk.text.charCodeAt(i)) | 0;
-            const id = `dialogue-chunk-${character.id}-${hash}`;
-            return { ...chunk, id };
-        });
-        
-        const witnessResponseMessage: WitnessResponse = { sender: 'witness', chunks: chunksWithIds };
-        setMessages(prev => [...prev, witnessResponseMessage]);
-        
-        if (parsed.nextSuggestedQuestions) {
-            setSuggestedQuestions(parsed.nextSuggestedQuestions);
+        const chunksWithIds = parsed.chunks.map((chunk, i) => toDialogueChunk(character.id, replyNumber, chunk, i));
+        dispatch(recordWitnessResponse({
+            characterId: character.id,
+            message: { sender: 'witness', chunks: chunksWithIds },
+            exchange: { prompt: messageWithContext, reply: JSON.stringify(parsed) },
+            progressValue,
+            hostilityChange,
+            suggestedQuestions: parsed.nextSuggestedQuestions,
+        }));
+        if (presented) {
+            dispatch(recordEvidencePresented({ characterId: character.id, objectId: presented.id, progressValue: bonus }));
+        }
+        if (composurePlan.isCracking) {
+            dispatch(suspectCracked(character.id));
+        } else if (isInterrogation && activeLoi && isLawyerRequested(applyHostilityChange(hostility, hostilityChange))) {
+            // The line of inquiry ends unfinished, whatever the reply revealed.
+            dispatch(requestLawyer(character.id));
+            setActiveFeedback(null);
+            dispatch(showModal({ type: 'phaseFailed', props: {
+                witnessName: character.name,
+                lineOfInquiryLabel: activeLoi.label,
+                statement: LAWYER_STATEMENT,
+                onConfirm: () => dispatch(hideModal()),
+            }}));
+            return;
         }
         
-        if (dialogueData.mode === 'interrogation' && parsed.phaseCompleted && activeLoi) {
+        if (isInterrogation && parsed.phaseCompleted && activeLoi) {
             const completedInsight = chunksWithIds.find(c => c.insight)?.insight;
             setCompletionData({ loi: activeLoi, insight: completedInsight });
         }
         
         setCurrentImageIndex(prev => (prev + 1) % dialogueData.slideshowPrompts.length);
     } else {
+        // Shown in the transcript but left out of the chat history, since the AI never answered.
         const fallbackChunk: DialogueChunkData = { id: `fallback-${Date.now()}`, text: "(The response is unclear or there was a connection issue.)" };
-        const fallbackResponse: WitnessResponse = { sender: 'witness', chunks: [fallbackChunk] };
-        setMessages(prev => [...prev, fallbackResponse]);
+        dispatch(recordWitnessResponse({ characterId: character.id, message: { sender: 'witness', chunks: [fallbackChunk] } }));
+    }
+  }, [dialogueData, sendMessage, activeLoi, session?.presentedEvidenceIds, session?.repliesReceived, hostility, dispatch, character.id, character.name]);
+
+  const handleSendMessage = useCallback(async (text: string) => {
+    if (!text.trim() || isAiResponding || !dialogueData) return;
+    
+    if (dialogueData.mode === 'interrogation') {
+        if (!activeLoi) return;
+        if (!initialQuestions) {
+            dispatch(deductTokens({ amount: rules.questionCost, reason: 'question', entityId: character.id }));
+        }
+    }
+    await runTurn(text);
+  }, [isAiResponding, dialogueData, activeLoi, initialQuestions, dispatch, runTurn, character.id, rules.questionCost]);
+
+  /**
+   * Screens a typed question before it costs a model turn. Rejected questions are answered by ADA; only an
+   * off-topic question is charged, at the price of a suggested one.
+   */
+  const handleTypedQuestion = useCallback(async (text: string) => {
+    if (isAiResponding || !activeLoi) return;
+    const result = checkTypedQuestion(text, caseVocabulary);
+    if ('reason' in result) {
+        if (result.reason === 'offTopic') dispatch(deductTokens({ amount: rules.questionCost, reason: 'question', entityId: character.id }));
+        setActiveFeedback({ text: result.feedback, progressChange: 0, source: 'question' });
+        return;
     }
-  }, [isAiResponding, dialogueData, sendMessage, activeLoi, initialQuestions, dispatch, character.id]);
+    dispatch(deductTokens({ amount: rules.typedQuestionCost, reason: 'question', entityId: character.id }));
+    await runTurn(result.question);
+  }, [isAiResponding, activeLoi, caseVocabulary, dispatch, runTurn, character.id, rules.questionCost, rules.typedQuestionCost]);
+
+  const handlePresentEvidence = useCallback(async (object: StoryObject) => {
+    if (isAiResponding || !activeLoi) return;
+    dispatch(deductTokens({ amount: rules.presentEvidenceCost, reason: 'presentEvidence', entityId: object.id }));
+    await runTurn(`Presented evidence: ${object.name}`, object);
+  }, [isAiResponding, activeLoi, dispatch, runTurn, rules.presentEvidenceCost]);
   
   const handleCreateEvidence = useCallback((chunk: DialogueChunkData) => {
     if (evidenceCreatedChunkIds.has(chunk.id)) return;
 
     dispatch(createEvidenceFromTestimony({ chunk, character }));
 
-    setEvidenceCreatedChunkIds(prev => new Set(prev).add(chunk.id));
-    
     const evidenceProgress = GAME_MECHANICS.EVIDENCE_CREATION_PROGRESS;
-    setPhaseProgress(prev => Math.min(GAME_MECHANICS.PHASE_COMPLETION_GOAL, prev + evidenceProgress));
+    const isRevealed = !!(chunk.isCriticalClue && chunk.insight);
+    dispatch(recordTestimonyEvidence({
+      characterId: character.id,
+      chunkId: chunk.id,
+      progressValue: evidenceProgress,
+      isRevealed,
+      insightLead: isRevealed ? chunk.insight!.newLead : undefined,
+    }));
     
     setActiveFeedback({ text: 'Evidence logged. This is a relevant statement.', progressChange: evidenceProgress, source: 'evidence' });
 
-    if (chunk.isCriticalClue && chunk.insight) {
+    if (isRevealed) {
       dispatch(showModal({ type: 'insightUnlocked', props: { insight: chunk.insight, statement: chunk.text } }));
-      setRevealedCriticalIds(prev => new Set(prev).add(chunk.id));
     }
   }, [evidenceCreatedChunkIds, dispatch, character]);
 
   const handleEndPhase = useCallback(() => {
     dispatch(hideModal());
-    setPhase('select');
-    setActiveLoi(null);
+    dispatch(endLineOfInquiry(character.id));
     setCompletionData(null);
-  }, [dispatch]);
+  }, [dispatch, character.id]);
 
   useEffect(() => {
     if (!activeLoi || phase !== 'active' || dialogueData?.mode !== 'interrogation') return;
 
     if (completionData?.loi.id === activeLoi.id || phaseProgress >= GAME_MECHANICS.PHASE_COMPLETION_GOAL) {
-        setLoiStatus(prev => ({ ...prev, [activeLoi.id]: 'completed' }));
+        dispatch(completeLineOfInquiry({ characterId: character.id, loiId: activeLoi.id }));
         const foundInsight = completionData?.insight || messages.flatMap(m => m.chunks)
                                      .find(c => revealedCriticalIds.has(c.id))?.insight;
         dispatch(showModal({ type: 'phaseComplete', props: { 
@@ -173,10 +301,9 @@ const DialogueCard: React.FC<DialogueCardProps> = ({ character }) => {
             insight: foundInsight,
             onConfirm: handleEndPhase
         }}));
-        setPhase('complete');
     }
 
-  }, [phaseProgress, activeLoi, dispatch, messages, completionData, phase, revealedCriticalIds, handleEndPhase, dialogueData?.mode]);
+  }, [phaseProgress, activeLoi, dispatch, messages, completionData, phase, revealedCriticalIds, handleEndPhase, dialogueData?.mode, character.id]);
 
   if (!character || !dialogueData) return <div>Loading dialogue...</div>;
 
@@ -204,6 +331,7 @@ const DialogueCard: React.FC<DialogueCardProps> = ({ character }) => {
             currentImageIndex={currentImageIndex}
             lineOfInquiryLabel={activeLoi.label}
             phaseProgress={phaseProgress}
+            hostility={hostility}
             activeFeedback={activeFeedback}
             onClearFeedback={() => setActiveFeedback(null)}
           />
@@ -212,6 +340,7 @@ const DialogueCard: React.FC<DialogueCardProps> = ({ character }) => {
         <ChatLog
           lastQuestionAsked={lastQuestionAsked}
           messages={messages}
+          streamingChunks={streamingChunks}
           mode={dialogueData.mode}
           onCreateEvidence={handleCreateEvidence}
           evidenceCreatedChunkIds={evidenceCreatedChunkIds}
@@ -225,6 +354,10 @@ const DialogueCard: React.FC<DialogueCardProps> = ({ character }) => {
               initialQuestions={initialQuestions}
               isAiResponding={isAiResponding}
               onSendMessage={handleSendMessage}
+              collectedEvidence={dialogueData.mode === 'interrogation' ? collectedEvidence : undefined}
+              presentedEvidenceIds={session?.presentedEvidenceIds}
+              onPresentEvidence={handlePresentEvidence}
+              onSubmitTypedQuestion={canTypeQuestions ? handleTypedQuestion : undefined}
             />
         </div>
       </div>
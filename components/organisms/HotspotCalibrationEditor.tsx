@@ -0,0 +1,116 @@
+/**
+ * @file HotspotCalibrationEditor.tsx
+ * @description A designer-only overlay for a location image. Hotspots can be dragged into place, the AI
+ * analysis can be re-run, the coordinates can be locked, and the result can be exported as static
+ * `Hotspot.coords` to paste into the story pack. Enabled by `DESIGNER_CONFIG.ENABLED`.
+ */
+import React, { useRef, useState } from 'react';
+import { Hotspot } from '../../types';
+import { downloadFile } from '../../services/saveFileService';
+import { Lock, Unlock, ScanSearch, Download, Move } from 'lucide-react';
+
+/** A hotspot together with the position it is currently shown at. */
+export interface CalibratedHotspot extends Hotspot {
+  finalCoords: { top: string; left: string };
+}
+
+interface HotspotCalibrationEditorProps {
+  locationId: string;
+  hotspots: CalibratedHotspot[];
+  isLocked: boolean;
+  isAnalysisRunning: boolean;
+  onMove: (hotspotId: string, coords: { x: number; y: number }) => void;
+  onReanalyze: () => void;
+  onSetLocked: (locked: boolean) => void;
+}
+
+/** Clamps a value to the 0.0-1.0 range. */
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+/** Formats a normalized coordinate as a CSS percentage with one decimal place. */
+const toPercent = (value: number) => `${Math.round(value * 1000) / 10}%`;
+
+const HotspotCalibrationEditor: React.FC<HotspotCalibrationEditorProps> = ({
+  locationId, hotspots, isLocked, isAnalysisRunning, onMove, onReanalyze, onSetLocked,
+}) => {
+  const overlayRef = useRef<HTMLDivElement>(null);
+  // The hotspot being dragged and its live position, committed on release.
+  const [drag, setDrag] = useState<{ id: string; x: number; y: number } | null>(null);
+
+  const getPointerCoords = (e: React.PointerEvent) => {
+    const rect = overlayRef.current!.getBoundingClientRect();
+    return { x: clamp01((e.clientX - rect.left) / rect.width), y: clamp01((e.clientY - rect.top) / rect.height) };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent, hotspotId: string) => {
+    if (isLocked) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDrag({ id: hotspotId, ...getPointerCoords(e) });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!drag) return;
+    setDrag({ id: drag.id, ...getPointerCoords(e) });
+  };
+
+  const handlePointerUp = () => {
+    if (!drag) return;
+    onMove(drag.id, { x: drag.x, y: drag.y });
+    setDrag(null);
+  };
+
+  const handleExport = () => {
+    const exported = hotspots.map(({ id, label, finalCoords }) => ({ id, label, coords: finalCoords }));
+    const blob = new Blob([JSON.stringify({ locationId, hotspots: exported }, null, 2)], { type: 'application/json' });
+    downloadFile(blob, `${locationId}-hotspots.json`);
+  };
+
+  return (
+    <div ref={overlayRef} className="absolute inset-0 z-10" onPointerMove={handlePointerMove} onPointerUp={handlePointerUp}>
+      {hotspots.map(hotspot => {
+        const coords = drag?.id === hotspot.id
+          ? { top: toPercent(drag.y), left: toPercent(drag.x) }
+          : hotspot.finalCoords;
+        return (
+          <div
+            key={hotspot.id}
+            onPointerDown={(e) => handlePointerDown(e, hotspot.id)}
+            className={`absolute transform -translate-x-1/2 -translate-y-1/2 flex flex-col items-center touch-none select-none ${isLocked ? 'cursor-not-allowed' : 'cursor-move'}`}
+            style={coords}
+          >
+            <div className={`w-10 h-10 rounded-full border-2 border-dashed flex items-center justify-center bg-black/70 ${isLocked ? 'border-brand-text-muted' : 'border-brand-accent'}`}>
+              <Move size={18} className="text-brand-accent" />
+            </div>
+            <span className="text-white text-xs font-bold bg-black/80 px-2 py-0.5 rounded-sm mt-1 whitespace-nowrap uppercase font-oswald tracking-wider">
+              {hotspot.label} <span className="text-brand-text-muted">{coords.left}, {coords.top}</span>
+            </span>
+          </div>
+        );
+      })}
+
+      <div className="absolute bottom-4 left-1/2 -translate-x-1/2 flex gap-2 bg-black/80 p-2 rounded-lg border border-brand-border">
+        <button
+          onClick={onReanalyze}
+          disabled={isLocked || isAnalysisRunning}
+          className="flex items-center gap-1 px-3 py-1 text-xs uppercase font-oswald text-white hover:text-brand-accent disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          <ScanSearch size={14} /> {isAnalysisRunning ? 'Analyzing...' : 'Re-run Analysis'}
+        </button>
+        <button
+          onClick={() => onSetLocked(!isLocked)}
+          className="flex items-center gap-1 px-3 py-1 text-xs uppercase font-oswald text-white hover:text-brand-accent"
+        >
+          {isLocked ? <><Unlock size={14} /> Unlock</> : <><Lock size={14} /> Lock</>}
+        </button>
+        <button
+          onClick={handleExport}
+          className="flex items-center gap-1 px-3 py-1 text-xs uppercase font-oswald text-white hover:text-brand-accent"
+        >
+          <Download size={14} /> Export Coords
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default HotspotCalibrationEditor;
@@ -2,9 +2,10 @@
  * @file LocationCard.tsx
  * @description Renders the detailed view for a single location, including dynamic, interactive hotspots.
  * This component showcases a robust system for hotspot placement, ensuring a reliable user experience.
+ * In designer mode, a calibration editor can be opened over the image to adjust the hotspot positions.
  */
 
-import React, { useMemo } from 'react';
+import React, { useMemo, useState } from 'react';
 import { useDispatch } from 'react-redux';
 import { Location, PlayerAction, CardType } from '../../types';
 import { setActiveCard, goBack } from '../../store/uiSlice';
@@ -16,15 +17,20 @@ import BackButton from '../atoms/BackButton';
 import ImageWithLoader from '../molecules/ImageWithLoader';
 import { useADA } from '../../hooks/useADA';
 import Spinner from '../atoms/Spinner';
+import HotspotCalibrationEditor, { CalibratedHotspot } from './HotspotCalibrationEditor';
+import { DESIGNER_CONFIG } from '../../config';
+import { Crosshair } from 'lucide-react';
 
 const LocationCard: React.FC<{ location: Location }> = ({ location }) => {
   const dispatch = useDispatch<AppDispatch>();
   const triggerADA = useADA();
   
-  const { imageUrl, isLoading: isImageLoading } = useCardImage(location, 'selectiveColor');
+  const { imageUrl, isLoading: isImageLoading, failure, retry } = useCardImage(location, 'selectiveColor', 'visible');
 
   // The hook now receives the locationId to enable caching.
-  const { dynamicHotspots, isAnalyzing } = useHotspotAnalysis(imageUrl, location.hotspots, location.id);
+  const { dynamicHotspots, isAnalyzing, isAnalysisRunning, isLocked, moveHotspot, reanalyze, setLocked } =
+    useHotspotAnalysis(imageUrl, location.hotspots, location.id);
+  const [isCalibrating, setIsCalibrating] = useState(false);
 
   const handleGoBack = () => {
     dispatch(goBack());
@@ -44,19 +50,21 @@ const LocationCard: React.FC<{ location: Location }> = ({ location }) => {
     return location.hotspots.map((hotspot, index) => {
         let coords: { top: string; left: string; } | null = null;
         
-        if (hotspot.coords) {
-            coords = { 
-                top: String(hotspot.coords.top), 
-                left: String(hotspot.coords.left) 
-            };
-        } 
-        else if (dynamicHotspots && dynamicHotspots[hotspot.id]) {
+        // Coordinates for this specific image (analyzed, or placed in the calibration editor) take precedence
+        // over static ones, so a designer can adjust any hotspot on the image they are looking at.
+        if (dynamicHotspots && dynamicHotspots[hotspot.id]) {
             const dynamicCoord = dynamicHotspots[hotspot.id];
             coords = {
                 top: `${dynamicCoord.y * 100}%`,
                 left: `${dynamicCoord.x * 100}%`,
             };
         }
+        else if (hotspot.coords) {
+            coords = { 
+                top: String(hotspot.coords.top), 
+                left: String(hotspot.coords.left) 
+            };
+        }
         
         // The fallback logic now only runs if analysis is complete *and* coords are still missing.
         if (!isAnalyzing && !coords) {
@@ -76,7 +84,7 @@ const LocationCard: React.FC<{ location: Location }> = ({ location }) => {
           ...hotspot,
           finalCoords: coords
         }
-    }).filter(Boolean);
+    }).filter((hotspot): hotspot is CalibratedHotspot => hotspot !== null);
   }, [location.hotspots, dynamicHotspots, isAnalyzing]);
 
 
@@ -91,7 +99,18 @@ const LocationCard: React.FC<{ location: Location }> = ({ location }) => {
           <BackButton onClick={handleGoBack} />
           <h1 className="text-2xl font-oswald text-white drop-shadow-lg truncate uppercase tracking-wide">{location.name}</h1>
         </div>
-        <div className="w-32 flex-shrink-0" />
+        <div className="w-32 flex-shrink-0 flex justify-end">
+          {DESIGNER_CONFIG.ENABLED && imageUrl && (
+            <button
+              onClick={() => setIsCalibrating(prev => !prev)}
+              className={`p-2 rounded-full bg-black/60 border ${isCalibrating ? 'border-brand-accent text-brand-accent' : 'border-brand-border text-white'}`}
+              aria-label="Calibrate hotspots"
+              title="Calibrate hotspots"
+            >
+              <Crosshair size={18} />
+            </button>
+          )}
+        </div>
       </header>
 
       <main className="flex-1 w-full h-full overflow-hidden relative bg-brand-bg">
@@ -103,20 +122,28 @@ const LocationCard: React.FC<{ location: Location }> = ({ location }) => {
         )}
         
         {/* The image is rendered underneath, but will only be visible once the loader is gone */}
-        <ImageWithLoader imageUrl={imageUrl} isLoading={false} alt={location.name} />
+        <ImageWithLoader imageUrl={imageUrl} isLoading={false} failure={failure} onRetry={retry} alt={location.name} />
         
         {/* Hotspots will render only after loading is fully complete, preventing pop-in. */}
-        {!isContentLoading && visibleHotspots.map(hotspot => (
-            hotspot && (
-                <Hotspot
-                    key={hotspot.id}
-                    coords={hotspot.finalCoords}
-                    label={hotspot.label}
-                    type={hotspot.type}
-                    onClick={() => handleHotspotClick(hotspot.targetCardId, hotspot.targetCardType, hotspot.label)}
-                />
-            )
-        ))}
+        {!isContentLoading && (isCalibrating ? (
+            <HotspotCalibrationEditor
+                locationId={location.id}
+                hotspots={visibleHotspots}
+                isLocked={isLocked}
+                isAnalysisRunning={isAnalysisRunning}
+                onMove={moveHotspot}
+                onReanalyze={reanalyze}
+                onSetLocked={setLocked}
+            />
+        ) : visibleHotspots.map(hotspot => (
+            <Hotspot
+                key={hotspot.id}
+                coords={hotspot.finalCoords}
+                label={hotspot.label}
+                type={hotspot.type}
+                onClick={() => handleHotspotClick(hotspot.targetCardId, hotspot.targetCardType, hotspot.label)}
+            />
+        )))}
       </main>
       
       <footer className="p-4 pb-40 bg-brand-surface/80 backdrop-blur-sm z-10 border-t-2 border-brand-border text-center">
@@ -7,7 +7,7 @@
 import React from 'react';
 import { useSelector, useDispatch } from 'react-redux';
 import { StoryObject, PlayerAction, DataComponent, PurchaseInfo, Interaction } from '../../types';
-import { addToTimeline, removeFromTimeline, selectPlayerTokens } from '../../store/storySlice';
+import { addToTimeline, removeFromTimeline, selectPlayerTokens, selectDifficultyRules } from '../../store/storySlice';
 import { AppDispatch, RootState } from '../../store';
 import { goBack, showModal, checkMilestoneProgress, addNewlyAddedEvidenceId } from '../../store/uiSlice';
 import ImageWithLoader from '../molecules/ImageWithLoader';
@@ -21,13 +21,16 @@ import RarityBadge from '../molecules/RarityBadge';
 import { Coins } from 'lucide-react';
 import SparkleEffect from '../atoms/SparkleEffect';
 import { RARITY_CONFIG } from '../../config';
+import { getUnlockCost } from '../../services/difficultyService';
 
 const ObjectCard: React.FC<{ object: StoryObject }> = ({ object }) => {
   const dispatch = useDispatch<AppDispatch>();
   const triggerADA = useADA();
   const playerTokens = useSelector((state: RootState) => selectPlayerTokens(state));
+  const rules = useSelector(selectDifficultyRules);
   
-  const canAfford = typeof object.costToUnlock === 'number' ? playerTokens >= object.costToUnlock : true;
+  const unlockCost = getUnlockCost(object, rules);
+  const canAfford = playerTokens >= unlockCost;
 
   const handleGoBack = () => {
     dispatch(goBack());
@@ -99,8 +102,10 @@ const ObjectCard: React.FC<{ object: StoryObject }> = ({ object }) => {
   };
   
   const colorTreatment = object.isEvidence ? 'selectiveColor' : 'monochrome';
-  const { imageUrl, isLoading } = useCardImage(object, colorTreatment);
-  const rarityConfig = object.hasBeenUnlocked ? RARITY_CONFIG[object.rarity] : null;
+  const { imageUrl, isLoading, failure, retry } = useCardImage(object, colorTreatment, 'visible');
+  // Some difficulties show the rarity up front, so the player can judge whether an object is worth its cost.
+  const isRarityVisible = object.hasBeenUnlocked || rules.rarityVisibleBeforeUnlock;
+  const rarityConfig = isRarityVisible ? RARITY_CONFIG[object.rarity] : null;
 
   // Conditionally select which description to show based on whether the object has been unlocked.
   const descriptionToShow = object.hasBeenUnlocked 
@@ -112,15 +117,15 @@ const ObjectCard: React.FC<{ object: StoryObject }> = ({ object }) => {
       <div 
         className="relative w-full h-auto aspect-[3/4] flex-shrink-0 bg-brand-bg rounded-b-lg transition-all duration-500"
         style={{
-          border: object.hasBeenUnlocked && rarityConfig ? `4px solid ${rarityConfig.color}` : '4px solid transparent',
-          boxShadow: object.hasBeenUnlocked && rarityConfig ? `0 0 15px ${rarityConfig.color}50` : 'none',
+          border: rarityConfig ? `4px solid ${rarityConfig.color}` : '4px solid transparent',
+          boxShadow: rarityConfig ? `0 0 15px ${rarityConfig.color}50` : 'none',
         }}
       >
         <header className="absolute top-0 left-0 right-0 z-20 p-4 flex items-center bg-gradient-to-b from-black/80 to-transparent">
           <BackButton onClick={handleGoBack} />
         </header>
         
-        <ImageWithLoader imageUrl={imageUrl} isLoading={isLoading} alt={object.name} objectFit="cover" />
+        <ImageWithLoader imageUrl={imageUrl} isLoading={isLoading} failure={failure} onRetry={retry} alt={object.name} objectFit="cover" />
         
         {object.hasBeenUnlocked && rarityConfig && (
           <SparkleEffect rarity={object.rarity} />
@@ -163,10 +168,10 @@ const ObjectCard: React.FC<{ object: StoryObject }> = ({ object }) => {
         <div className="flex items-center justify-between gap-4 mb-4 bg-black/30 p-3 rounded-lg border border-brand-border">
           <label className="font-oswald text-brand-text uppercase tracking-wider">Add to Timeline</label>
           <div className="flex items-center gap-4">
-            {!object.isEvidence && typeof object.costToUnlock === 'number' && object.costToUnlock > 0 && (
-                <div className="flex items-center gap-2 text-yellow-400 font-mono text-lg" title={`Cost: ${object.costToUnlock} tokens`}>
+            {!object.isEvidence && unlockCost > 0 && (
+                <div className="flex items-center gap-2 text-yellow-400 font-mono text-lg" title={`Cost: ${unlockCost} tokens`}>
                     <Coins size={20} className="animate-sparkle-glow" />
-                    <span className="font-bold">{object.costToUnlock}</span>
+                    <span className="font-bold">{unlockCost}</span>
                 </div>
             )}
             <ToggleButton
@@ -180,7 +185,7 @@ const ObjectCard: React.FC<{ object: StoryObject }> = ({ object }) => {
         
         <p className="text-white mb-6 leading-relaxed">{descriptionToShow}</p>
         
-        {object.hasBeenUnlocked && (
+        {isRarityVisible && (
           <RarityBadge rarity={object.rarity} />
         )}
       </div>
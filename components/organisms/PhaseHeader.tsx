@@ -1,11 +1,13 @@
 /**
  * @file PhaseHeader.tsx
- * @description A component that renders the header for an active interrogation phase, including the dual progress bars.
+ * @description A component that renders the header for an active interrogation phase, including the dual progress bars
+ * and the suspect's hostility.
  */
 import React, { useState, useEffect } from 'react';
 import PhaseProgressBar from '../molecules/PhaseProgressBar';
+import HostilityMeter from '../molecules/HostilityMeter';
 import { GAME_MECHANICS } from '../../config';
-import { ShieldQuestion, ArrowUp, BookCheck } from 'lucide-react';
+import { ShieldQuestion, ArrowUp, ArrowDown, BookCheck, Flame } from 'lucide-react';
 import { ActiveFeedback } from '../../types';
 import BodyCamView from '../molecules/BodyCamView';
 
@@ -16,6 +18,7 @@ interface PhaseHeaderProps {
   currentImageIndex: number;
   lineOfInquiryLabel: string;
   phaseProgress: number;
+  hostility: number;
   activeFeedback: ActiveFeedback | null;
   onClearFeedback: () => void;
 }
@@ -27,6 +30,7 @@ const PhaseHeader: React.FC<PhaseHeaderProps> = ({
     currentImageIndex,
     lineOfInquiryLabel, 
     phaseProgress, 
+    hostility,
     activeFeedback, 
     onClearFeedback 
 }) => {
@@ -59,6 +63,17 @@ const PhaseHeader: React.FC<PhaseHeaderProps> = ({
     );
   };
 
+  const HostilityChange: React.FC<{ value?: number; }> = ({ value }) => {
+    if (!value) return null;
+    const Arrow = value > 0 ? ArrowUp : ArrowDown;
+    return (
+        <div className={`flex items-center gap-1 font-bold ${value > 0 ? 'text-brand-primary' : 'text-green-400'}`}>
+            <Arrow size={12} />
+            <span>{`${value > 0 ? '+' : ''}${value} Hostility`}</span>
+        </div>
+    );
+  };
+
   const isQuestion = feedbackData?.source === 'question';
   const TitleIcon = isQuestion ? ShieldQuestion : BookCheck;
   const titleColor = isQuestion ? 'text-brand-text-muted' : 'text-yellow-400';
@@ -82,6 +97,10 @@ const PhaseHeader: React.FC<PhaseHeaderProps> = ({
                 value={phaseProgress}
                 goal={GAME_MECHANICS.PHASE_COMPLETION_GOAL}
             />
+            <div className="flex items-center gap-2">
+                <Flame className="w-4 h-4 text-brand-text-muted flex-shrink-0" aria-label="Hostility" />
+                <HostilityMeter hostility={hostility} />
+            </div>
         </div>
         {/* Animated Feedback Area */}
         <div className={`transition-all duration-500 ease-in-out overflow-hidden ${isFeedbackVisible ? 'max-h-20 opacity-100' : 'max-h-0 opacity-0'}`}>
@@ -91,6 +110,7 @@ const PhaseHeader: React.FC<PhaseHeaderProps> = ({
                         <p className="text-sm italic text-brand-text-muted flex-1">"{feedbackData.text}"</p>
                         <div className="flex items-center gap-3 text-sm flex-shrink-0">
                             <StatChange value={feedbackData.progressChange} />
+                            <HostilityChange value={feedbackData.hostilityChange} />
                         </div>
                     </div>
                 </div>
@@ -5,12 +5,11 @@
 import React from 'react';
 import { useSelector } from 'react-redux';
 import { RootState } from '../../store';
-import { selectPlayerTokens } from '../../store/storySlice';
+import { selectPlayerTokens, selectDifficultyRules } from '../../store/storySlice';
 import { ChevronRight, X, CheckCircle, ShieldQuestion, Coins } from 'lucide-react';
 import { Character, LineOfInquiryData } from '../../types';
 import ImageWithLoader from '../molecules/ImageWithLoader';
 import { useCardImage } from '../../hooks/useCardImage';
-import { GAME_MECHANICS } from '../../config';
 
 interface QuestionSelectViewProps {
   character: Character;
@@ -21,9 +20,9 @@ interface QuestionSelectViewProps {
 }
 
 const QuestionSelectView: React.FC<QuestionSelectViewProps> = ({ character, linesOfInquiry, status, onSelect, onEndInterrogation }) => {
-  const { imageUrl, isLoading } = useCardImage(character, 'selectiveColor');
+  const { imageUrl, isLoading, failure, retry } = useCardImage(character, 'selectiveColor', 'visible');
   const playerTokens = useSelector((state: RootState) => selectPlayerTokens(state));
-  const questionCost = GAME_MECHANICS.QUESTION_COST;
+  const { questionCost } = useSelector(selectDifficultyRules);
   const canAfford = playerTokens >= questionCost;
 
   const renderStatusIcon = (loiId: string) => {
@@ -46,7 +45,7 @@ const QuestionSelectView: React.FC<QuestionSelectViewProps> = ({ character, line
         
         <div className="flex flex-col items-center text-center mb-6">
             <div className="w-24 h-24 rounded-full overflow-hidden border-4 border-brand-border bg-brand-surface mb-3 shadow-lg">
-                <ImageWithLoader imageUrl={imageUrl} isLoading={isLoading} alt={character.name} objectFit="cover" />
+                <ImageWithLoader imageUrl={imageUrl} isLoading={isLoading} failure={failure} onRetry={retry} alt={character.name} objectFit="cover" />
             </div>
             <h2 className="text-2xl font-oswald text-white uppercase tracking-wider">Interrogation Plan</h2>
             <p className="text-brand-text-muted">Suspect: {character.name}</p>
@@ -22,7 +22,7 @@ import { useADA } from '../../hooks/useADA';
  */
 const PostCard: React.FC<{ post: StoryObject }> = React.memo(({ post }) => {
     const dispatch = useDispatch<AppDispatch>();
-    const { imageUrl, isLoading } = useCardImage(post, 'selectiveColor');
+    const { imageUrl, isLoading, failure, retry } = useCardImage(post, 'selectiveColor');
 
     const handleClick = () => {
         // Clicking a post now navigates to its own ObjectCard.
@@ -35,7 +35,7 @@ const PostCard: React.FC<{ post: StoryObject }> = React.memo(({ post }) => {
             onClick={handleClick}
         >
             <div className="h-96 relative bg-brand-bg">
-                <ImageWithLoader imageUrl={imageUrl} isLoading={isLoading} alt={post.name || 'Social media post'} objectFit="cover" />
+                <ImageWithLoader imageUrl={imageUrl} isLoading={isLoading} failure={failure} onRetry={retry} alt={post.name || 'Social media post'} objectFit="cover" />
             </div>
             <div className="p-4">
                 <p className="text-brand-text leading-relaxed">{post.description}</p>
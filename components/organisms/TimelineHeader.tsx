@@ -7,6 +7,7 @@
 import React from 'react';
 import { useSelector } from 'react-redux';
 import { RootState } from '../../store';
+import { selectDifficultyRules } from '../../store/storySlice';
 import TimelineProgress from '../molecules/TimelineProgress';
 import FilterButton from '../atoms/FilterButton';
 
@@ -15,7 +16,8 @@ interface TimelineHeaderProps {
 }
 
 const TimelineHeader: React.FC<TimelineHeaderProps> = React.memo(({ playerEvidenceCount }) => {
-  const { accusationThreshold, totalDiscoverableEvidence } = useSelector((state: RootState) => state.story);
+  const { totalDiscoverableEvidence } = useSelector((state: RootState) => state.story);
+  const { accusationThreshold } = useSelector(selectDifficultyRules);
 
   return (
     <div className="flex-shrink-0 mb-4">
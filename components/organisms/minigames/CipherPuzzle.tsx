@@ -0,0 +1,72 @@
+/**
+ * @file components/organisms/minigames/CipherPuzzle.tsx
+ * @description The substitution cipher bounty. The player assigns a plain letter to each cipher letter and
+ * watches the message decode as they go.
+ */
+import React, { useMemo, useState } from 'react';
+import { BountyPuzzle } from '../../../types';
+import { encipher, isBountyAnswerCorrect } from '../../../services/bountyEngine';
+import { BOUNTY_COPY } from '../../../config';
+import Button from '../../atoms/Button';
+
+interface CipherPuzzleProps {
+  puzzle: Extract<BountyPuzzle, { type: 'cipher' }>;
+  onSolve: () => void;
+}
+
+const CipherPuzzle: React.FC<CipherPuzzleProps> = ({ puzzle, onSolve }) => {
+  const ciphertext = useMemo(() => encipher(puzzle.plaintext, puzzle.key), [puzzle]);
+  const cipherLetters = useMemo(() => [...new Set(ciphertext.replace(/[^A-Z]/g, ''))].sort(), [ciphertext]);
+  // The revealed letters are fixed; the player fills in the rest.
+  const revealed = useMemo(() => {
+    const map: { [cipherLetter: string]: string } = {};
+    (puzzle.revealedLetters || '').toUpperCase().split('').forEach(letter => { map[encipher(letter, puzzle.key)] = letter; });
+    return map;
+  }, [puzzle]);
+  const [guesses, setGuesses] = useState<{ [cipherLetter: string]: string }>({});
+  const [message, setMessage] = useState('');
+
+  const decoded = ciphertext.replace(/[A-Z]/g, letter => revealed[letter] || guesses[letter] || '_');
+
+  const handleGuess = (cipherLetter: string, value: string) => {
+    setGuesses(prev => ({ ...prev, [cipherLetter]: value.toUpperCase().replace(/[^A-Z]/g, '').slice(-1) }));
+    setMessage('');
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isBountyAnswerCorrect(puzzle, decoded)) {
+      onSolve();
+    } else {
+      setMessage(BOUNTY_COPY.WRONG_ANSWER);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="max-w-lg mx-auto space-y-6">
+      <div className="bg-black/30 border border-brand-border rounded-lg p-4 font-mono text-center space-y-2">
+        <p className="text-brand-text-muted tracking-widest">{ciphertext}</p>
+        <p className="text-xl text-white tracking-widest">{decoded}</p>
+      </div>
+      <div className="grid grid-cols-6 gap-2">
+        {cipherLetters.map(letter => (
+          <label key={letter} className="flex flex-col items-center gap-1">
+            <span className="font-mono text-brand-text-muted">{letter}</span>
+            <input
+              type="text"
+              value={revealed[letter] || guesses[letter] || ''}
+              onChange={(e) => handleGuess(letter, e.target.value)}
+              disabled={!!revealed[letter]}
+              className="w-10 p-1 text-center uppercase bg-brand-bg border-2 border-brand-border rounded-md text-white font-mono disabled:border-brand-primary disabled:text-brand-primary"
+              aria-label={`Plain letter for ${letter}`}
+            />
+          </label>
+        ))}
+      </div>
+      <Button type="submit" className="w-full uppercase">{BOUNTY_COPY.SUBMIT}</Button>
+      {message && <p className="text-center text-brand-accent animate-fade-in">{message}</p>}
+    </form>
+  );
+};
+
+export default CipherPuzzle;
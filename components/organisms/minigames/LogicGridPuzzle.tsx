@@ -0,0 +1,74 @@
+/**
+ * @file components/organisms/minigames/LogicGridPuzzle.tsx
+ * @description The logic grid bounty. The player reads the clues and pairs each row with one column.
+ */
+import React, { useState } from 'react';
+import { BountyPuzzle } from '../../../types';
+import { isBountyAnswerCorrect } from '../../../services/bountyEngine';
+import { BOUNTY_COPY } from '../../../config';
+import Button from '../../atoms/Button';
+
+interface LogicGridPuzzleProps {
+  puzzle: Extract<BountyPuzzle, { type: 'logicGrid' }>;
+  onSolve: () => void;
+}
+
+const LogicGridPuzzle: React.FC<LogicGridPuzzleProps> = ({ puzzle, onSolve }) => {
+  const [pairs, setPairs] = useState<{ [row: string]: string }>({});
+  const [message, setMessage] = useState('');
+
+  const handleSelect = (row: string, column: string) => {
+    setPairs(prev => ({ ...prev, [row]: column }));
+    setMessage('');
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isBountyAnswerCorrect(puzzle, pairs)) {
+      onSolve();
+    } else {
+      setMessage(BOUNTY_COPY.WRONG_ANSWER);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="max-w-lg mx-auto space-y-6">
+      <ol className="list-decimal list-inside space-y-1 text-brand-text bg-black/30 border border-brand-border rounded-lg p-4">
+        {puzzle.clues.map(clue => <li key={clue}>{clue}</li>)}
+      </ol>
+      <table className="w-full text-sm">
+        <thead>
+          <tr>
+            <th />
+            {puzzle.columns.map(column => (
+              <th key={column} className="font-oswald uppercase tracking-wider text-brand-text-muted p-2">{column}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {puzzle.rows.map(row => (
+            <tr key={row} className="border-t border-brand-border">
+              <th className="font-oswald uppercase tracking-wider text-left text-white p-2">{row}</th>
+              {puzzle.columns.map(column => (
+                <td key={column} className="text-center p-2">
+                  <input
+                    type="radio"
+                    name={row}
+                    checked={pairs[row] === column}
+                    onChange={() => handleSelect(row, column)}
+                    className="w-5 h-5 accent-brand-primary"
+                    aria-label={`${row}: ${column}`}
+                  />
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <Button type="submit" className="w-full uppercase">{BOUNTY_COPY.SUBMIT}</Button>
+      {message && <p className="text-center text-brand-accent animate-fade-in">{message}</p>}
+    </form>
+  );
+};
+
+export default LogicGridPuzzle;
@@ -0,0 +1,50 @@
+/**
+ * @file components/organisms/minigames/PatternPuzzle.tsx
+ * @description The pattern match bounty. The player picks the item that continues the sequence.
+ */
+import React, { useState } from 'react';
+import { BountyPuzzle } from '../../../types';
+import { isBountyAnswerCorrect } from '../../../services/bountyEngine';
+import { BOUNTY_COPY } from '../../../config';
+
+interface PatternPuzzleProps {
+  puzzle: Extract<BountyPuzzle, { type: 'pattern' }>;
+  onSolve: () => void;
+}
+
+const PatternPuzzle: React.FC<PatternPuzzleProps> = ({ puzzle, onSolve }) => {
+  const [message, setMessage] = useState('');
+
+  const handlePick = (option: string) => {
+    if (isBountyAnswerCorrect(puzzle, option)) {
+      onSolve();
+    } else {
+      setMessage(BOUNTY_COPY.WRONG_ANSWER);
+    }
+  };
+
+  return (
+    <div className="max-w-md mx-auto space-y-6 text-center">
+      <div className="flex justify-center flex-wrap gap-2 font-mono text-2xl">
+        {puzzle.sequence.map((item, i) => (
+          <span key={i} className="px-3 py-2 bg-black/30 border border-brand-border rounded-md text-white">{item}</span>
+        ))}
+        <span className="px-3 py-2 border-2 border-dashed border-brand-primary rounded-md text-brand-primary">?</span>
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        {puzzle.options.map(option => (
+          <button
+            key={option}
+            onClick={() => handlePick(option)}
+            className="p-3 font-mono text-xl bg-brand-surface border-2 border-brand-border rounded-lg text-white hover:border-brand-primary transition-colors"
+          >
+            {option}
+          </button>
+        ))}
+      </div>
+      {message && <p className="text-brand-accent animate-fade-in">{message}</p>}
+    </div>
+  );
+};
+
+export default PatternPuzzle;
@@ -0,0 +1,56 @@
+/**
+ * @file components/organisms/minigames/ScramblePuzzle.tsx
+ * @description The word scramble bounty. The player unscrambles each word of the puzzle.
+ */
+import React, { useMemo, useState } from 'react';
+import { BountyPuzzle } from '../../../types';
+import { scrambleWords, isBountyAnswerCorrect } from '../../../services/bountyEngine';
+import { BOUNTY_COPY } from '../../../config';
+import Button from '../../atoms/Button';
+
+interface ScramblePuzzleProps {
+  puzzle: Extract<BountyPuzzle, { type: 'scramble' }>;
+  onSolve: () => void;
+}
+
+const ScramblePuzzle: React.FC<ScramblePuzzleProps> = ({ puzzle, onSolve }) => {
+  const scrambled = useMemo(() => scrambleWords(puzzle), [puzzle]);
+  const [answers, setAnswers] = useState<string[]>(() => puzzle.words.map(() => ''));
+  const [message, setMessage] = useState('');
+
+  const handleChange = (index: number, value: string) => {
+    setAnswers(prev => prev.map((answer, i) => (i === index ? value : answer)));
+    setMessage('');
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isBountyAnswerCorrect(puzzle, answers)) {
+      onSolve();
+    } else {
+      setMessage(BOUNTY_COPY.WRONG_ANSWER);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="max-w-sm mx-auto space-y-4">
+      {puzzle.hint && <p className="text-brand-text-muted text-sm italic text-center">{puzzle.hint}</p>}
+      {scrambled.map((word, i) => (
+        <label key={i} className="flex items-center gap-3">
+          <span className="w-32 font-mono text-lg text-brand-primary tracking-widest">{word}</span>
+          <input
+            type="text"
+            value={answers[i]}
+            onChange={(e) => handleChange(i, e.target.value)}
+            className="flex-1 p-2 uppercase bg-brand-bg border-2 border-brand-border rounded-md text-white font-mono"
+            aria-label={`Unscramble ${word}`}
+          />
+        </label>
+      ))}
+      <Button type="submit" className="w-full uppercase">{BOUNTY_COPY.SUBMIT}</Button>
+      {message && <p className="text-center text-brand-accent animate-fade-in">{message}</p>}
+    </form>
+  );
+};
+
+export default ScramblePuzzle;
@@ -1,7 +1,64 @@
 
-import React, { useEffect, useRef } from 'react';
-import { useSelector } from 'react-redux';
-import { RootState } from '../../../store';
+import React, { useEffect, useRef, useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { AppDispatch, RootState } from '../../../store';
+import { buyHint, selectHintOffer, selectPurchasedHints } from '../../../store/caseFileSlice';
+import { selectPlayerTokens, selectDifficultyRules } from '../../../store/storySlice';
+import { HINT_CONFIG, HINT_COPY } from '../../../config';
+import Button from '../../atoms/Button';
+import { Coins, Lightbulb } from 'lucide-react';
+
+/**
+ * Lets the player buy the next hint on offer. ADA's log is cleared as the player moves between cards, so
+ * the last hint bought is repeated here.
+ */
+const HintPanel: React.FC = () => {
+  const dispatch = useDispatch<AppDispatch>();
+  const offer = useSelector(selectHintOffer);
+  const purchased = useSelector(selectPurchasedHints);
+  const playerTokens = useSelector(selectPlayerTokens);
+  const { maxHintTier } = useSelector(selectDifficultyRules);
+  const [isBuying, setIsBuying] = useState(false);
+
+  if (maxHintTier === 0) {
+    return <p className="text-sm text-brand-text-muted">{HINT_COPY.DISABLED}</p>;
+  }
+
+  const lastHint = purchased[purchased.length - 1];
+  const cost = offer ? HINT_CONFIG.COSTS[offer.tier] : 0;
+
+  const handleBuy = async () => {
+    setIsBuying(true);
+    await dispatch(buyHint());
+    setIsBuying(false);
+  };
+
+  return (
+    <div className="space-y-3">
+      {lastHint && (
+        <p className="text-sm text-brand-text italic">
+          <span className="font-oswald not-italic uppercase tracking-wider text-brand-text-muted">{HINT_COPY.LAST_HINT}: </span>
+          {lastHint.text}
+        </p>
+      )}
+      {offer ? (
+        <div className="flex items-center justify-between gap-3">
+          <div className="text-sm">
+            <p className="font-oswald uppercase tracking-wider text-white">{HINT_COPY.TIER_LABELS[offer.tier]}</p>
+            <p className="font-mono text-brand-text-muted flex items-center gap-1">
+              <Coins size={14} className="text-yellow-400" /> {cost} · -{HINT_CONFIG.SCORE_PENALTIES[offer.tier]} score
+            </p>
+          </div>
+          <Button onClick={handleBuy} disabled={isBuying || playerTokens < cost} className="text-sm flex-shrink-0 disabled:opacity-50 disabled:cursor-not-allowed">
+            {HINT_COPY.BUTTON}
+          </Button>
+        </div>
+      ) : (
+        <p className="text-sm text-brand-text-muted">{HINT_COPY.NONE_LEFT}</p>
+      )}
+    </div>
+  );
+};
 
 const ADAModal: React.FC = () => {
   const { messages, isLoading } = useSelector((state: RootState) => state.ada);
@@ -33,6 +90,12 @@ const ADAModal: React.FC = () => {
                       </div>
                   )}
             </div>
+            <footer className="p-4 border-t border-brand-border flex-shrink-0">
+                <h4 className="font-oswald text-brand-primary uppercase tracking-wider mb-2 flex items-center gap-2">
+                    <Lightbulb size={16} /> {HINT_COPY.TITLE}
+                </h4>
+                <HintPanel />
+            </footer>
         </div>
     </div>
   );
@@ -8,6 +8,7 @@ import React, { useState, useEffect } from 'react';
 import { useSelector, useDispatch } from 'react-redux';
 import { RootState, AppDispatch } from '../../../store';
 import { hideModal } from '../../../store/uiSlice';
+import { recordAccusation, selectAccusationsLeft } from '../../../store/caseFileSlice';
 import { selectCanonicalTimeline } from '../../../store/storySlice';
 import { summarizePlayerTimeline, evaluateTimeline } from '../../../services/geminiService';
 import { Character, TimelineEvaluation } from '../../../types';
@@ -28,6 +29,7 @@ type Stage = 'review' | 'evaluating' | 'results';
 const AccusationModal: React.FC<AccusationModalProps> = ({ suspect, evidence }) => {
     const dispatch = useDispatch<AppDispatch>();
     const canonicalTimeline = useSelector(selectCanonicalTimeline);
+    const accusationsLeft = useSelector(selectAccusationsLeft);
 
     const [stage, setStage] = useState<Stage>('review');
     const [summary, setSummary] = useState<string>('');
@@ -50,7 +52,13 @@ const AccusationModal: React.FC<AccusationModalProps> = ({ suspect, evidence })
             console.error("Cannot evaluate: Canonical timeline is missing.");
             return;
         }
+        // The DA only hears as many cases as the difficulty allows.
+        if (accusationsLeft === 0) return;
         setStage('evaluating');
+        if (!(await dispatch(recordAccusation()).unwrap())) {
+            setStage('review');
+            return;
+        }
         const submission = {
             suspectId: suspect.id,
             evidenceIds: evidence.map(e => e.cardId),
@@ -87,7 +95,7 @@ const AccusationModal: React.FC<AccusationModalProps> = ({ suspect, evidence })
                         
                         <div className="flex justify-end gap-3">
                             <Button variant="secondary" onClick={handleClose}>Cancel</Button>
-                            <Button onClick={handleConfirmAccusation} disabled={isLoadingSummary}>
+                            <Button onClick={handleConfirmAccusation} disabled={isLoadingSummary || accusationsLeft === 0}>
                                 <div className="flex items-center gap-2">
                                     <Send size={16} /> Confirm Accusation
                                 </div>
@@ -0,0 +1,74 @@
+/**
+ * @file BountyModal.tsx
+ * @description Hosts a bounty's mini-game. It picks the screen for the bounty's puzzle type and, once the
+ * puzzle is solved, pays the reward and shows the completion screen.
+ */
+import React, { useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { AppDispatch, RootState } from '../../../store';
+import { completeBounty } from '../../../store/storySlice';
+import { hideModal } from '../../../store/uiSlice';
+import { BOUNTY_COPY } from '../../../config';
+import { Coins } from 'lucide-react';
+import ModalWrapper from './ModalWrapper';
+import Button from '../../atoms/Button';
+import CipherPuzzle from '../minigames/CipherPuzzle';
+import ScramblePuzzle from '../minigames/ScramblePuzzle';
+import LogicGridPuzzle from '../minigames/LogicGridPuzzle';
+import PatternPuzzle from '../minigames/PatternPuzzle';
+
+interface BountyModalProps {
+  bountyId: string;
+}
+
+const BountyModal: React.FC<BountyModalProps> = ({ bountyId }) => {
+  const dispatch = useDispatch<AppDispatch>();
+  const bounty = useSelector((state: RootState) => state.story.bounties.entities[bountyId]);
+  const [isSolved, setIsSolved] = useState(false);
+
+  if (!bounty?.puzzle) return null;
+
+  const handleSolve = () => {
+    dispatch(completeBounty(bounty.id));
+    setIsSolved(true);
+  };
+
+  const renderPuzzle = () => {
+    const puzzle = bounty.puzzle!;
+    switch (puzzle.type) {
+      case 'cipher':
+        return <CipherPuzzle puzzle={puzzle} onSolve={handleSolve} />;
+      case 'scramble':
+        return <ScramblePuzzle puzzle={puzzle} onSolve={handleSolve} />;
+      case 'logicGrid':
+        return <LogicGridPuzzle puzzle={puzzle} onSolve={handleSolve} />;
+      case 'pattern':
+        return <PatternPuzzle puzzle={puzzle} onSolve={handleSolve} />;
+      default:
+        return <p>Unknown puzzle type.</p>;
+    }
+  };
+
+  return (
+    <ModalWrapper title={bounty.title}>
+      {isSolved ? (
+        <div className="flex flex-col items-center justify-center h-full p-8 text-center space-y-4 animate-fade-in">
+          <h3 className="text-3xl font-oswald text-brand-primary uppercase tracking-wider">{BOUNTY_COPY.SOLVED_TITLE}</h3>
+          <div className="flex items-center gap-2 text-yellow-400 font-bold text-2xl">
+            <Coins size={24} />
+            <span>+{bounty.reward} Tokens</span>
+          </div>
+          <p className="text-brand-text-muted">{BOUNTY_COPY.SOLVED_BODY}</p>
+          <Button onClick={() => dispatch(hideModal())} className="uppercase">Continue</Button>
+        </div>
+      ) : (
+        <>
+          <p className="text-brand-text-muted text-sm text-center mb-6">{bounty.description}</p>
+          {renderPuzzle()}
+        </>
+      )}
+    </ModalWrapper>
+  );
+};
+
+export default BountyModal;
@@ -4,9 +4,9 @@
  */
 import React from 'react';
 import { useDispatch, useSelector } from 'react-redux';
-import { AppDispatch, RootState } from '../../../store';
+import { AppDispatch } from '../../../store';
 import { hideModal } from '../../../store/uiSlice';
-import { resetInvestigation } from '../../../store/caseFileSlice';
+import { resetInvestigation, selectPurchasedHints, selectHintScorePenalty } from '../../../store/caseFileSlice';
 import Button from '../../atoms/Button';
 import { Award, RefreshCw } from 'lucide-react';
 
@@ -16,6 +16,8 @@ interface CaseSolvedModalProps {
 
 const CaseSolvedModal: React.FC<CaseSolvedModalProps> = ({ score }) => {
   const dispatch = useDispatch<AppDispatch>();
+  const hintCount = useSelector(selectPurchasedHints).length;
+  const hintPenalty = useSelector(selectHintScorePenalty);
 
   const handleReset = () => {
     dispatch(resetInvestigation());
@@ -46,6 +48,11 @@ const CaseSolvedModal: React.FC<CaseSolvedModalProps> = ({ score }) => {
           <div className="my-4">
               <p className="font-oswald text-brand-text-muted uppercase tracking-wider">Final Score</p>
               <p className="font-mono text-6xl text-brand-accent font-bold animate-pulse-subtle">{score}</p>
+              {hintCount > 0 && (
+                <p className="mt-2 text-xs font-mono text-brand-text-muted">
+                  Includes -{hintPenalty} for {hintCount} {hintCount === 1 ? 'hint' : 'hints'} from ADA.
+                </p>
+              )}
           </div>
            <div className="pt-2 flex flex-col gap-2">
              <Button onClick={handleClose} className="w-full">
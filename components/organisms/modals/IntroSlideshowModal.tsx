@@ -9,13 +9,13 @@ import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { useDispatch, useSelector } from 'react-redux';
 import { AppDispatch, RootState } from '../../../store';
 import { hideModal, markIntroAsPlayed } from '../../../store/uiSlice';
-import { queueImageGeneration, processImageGenerationQueue, selectImageUrls, selectImageErrors } from '../../../store/storySlice';
-import { introSlideshowData } from '../../../data/introSlideshowData';
+import { queueImageGeneration, releaseImageRequest, processImageGenerationQueue, retainImageUrl, releaseImageUrl, selectImageUrls, selectImageErrors, selectIntroSlides, selectStoryId } from '../../../store/storySlice';
 import ImageWithLoader from '../../molecules/ImageWithLoader';
 import { useCardImage } from '../../../hooks/useCardImage';
 import Spinner from '../../atoms/Spinner';
 import Button from '../../atoms/Button';
 import { UI_CONFIG } from '../../../config';
+import { getImageCacheKey } from '../../../services/imageCacheKeys';
 
 const SLIDE_DURATION = UI_CONFIG.INTRO_SLIDESHOW_DURATION;
 
@@ -28,41 +28,55 @@ const IntroSlideshowModal: React.FC = () => {
   const timerRef = useRef<number | null>(null);
   const cachedImageUrls = useSelector(selectImageUrls);
   const imageErrors = useSelector(selectImageErrors);
+  // The slides come from the active case's story pack.
+  const introSlideshowData = useSelector(selectIntroSlides);
+  const storyId = useSelector(selectStoryId);
   
   const totalImages = introSlideshowData.length;
+  // The cache key of each slide's image. Slides are always shown with the selective-color treatment.
+  const slideCacheKeys = useMemo(
+    () => introSlideshowData.map(slide => getImageCacheKey(storyId, slide.id, 'selectiveColor', slide.imagePrompt)),
+    [storyId, introSlideshowData]
+  );
   // Memoized calculation to count how many images for this slideshow have been processed.
   const preloadedImageCount = useMemo(() => {
-    return introSlideshowData.reduce((count, slide) => {
+    return slideCacheKeys.reduce((count, key) => {
         // An image is considered "processed" and ready to be shown if we have either
         // a valid URL for it or a confirmed error state for it. This prevents the
         // preloader from getting stuck if an image fails to generate.
-        return (cachedImageUrls[slide.id] || imageErrors[slide.id]) ? count + 1 : count;
+        return (cachedImageUrls[key] || imageErrors[key]) ? count + 1 : count;
     }, 0);
-  }, [cachedImageUrls, imageErrors]);
+  }, [slideCacheKeys, cachedImageUrls, imageErrors]);
 
   // --- Core Stability Feature: Add all images to a central queue on mount ---
   // On first mount, we dispatch requests for ALL images needed for the slideshow.
   // This adds them to the central, concurrent batch processing queue in storySlice.
   // This is a critical architectural decision for ensuring a smooth cinematic.
+  // Slides that are already loaded are skipped by the queue itself, and slides cached in IndexedDB are read
+  // back without calling the API. Every slide's object URL is retained while the slideshow is open, so a
+  // preloaded slide is not released before its turn comes.
   useEffect(() => {
-    const imagesToQueue = introSlideshowData.filter(slide => !cachedImageUrls[slide.id]);
-    
-    if (imagesToQueue.length > 0) {
-      imagesToQueue.forEach(slide => {
-        dispatch(queueImageGeneration({
-          cardId: slide.id,
-          prompt: slide.imagePrompt,
-          colorTreatment: 'selectiveColor'
-        }));
+    slideCacheKeys.forEach(cacheKey => dispatch(retainImageUrl(cacheKey)));
+    introSlideshowData.forEach(slide => {
+      dispatch(queueImageGeneration({
+        cardId: slide.id,
+        prompt: slide.imagePrompt,
+        colorTreatment: 'selectiveColor',
+        priority: 'modal',
+      }));
+    });
+    // This will start the queue processor, which will handle the requests.
+    // The processor has an internal guard to prevent multiple concurrent runs.
+    dispatch(processImageGenerationQueue());
+
+    // If the intro is skipped or closed, cancel the slides that haven't started generating yet.
+    return () => {
+      slideCacheKeys.forEach(cacheKey => {
+        dispatch(releaseImageRequest({ cacheKey, priority: 'modal' }));
+        dispatch(releaseImageUrl(cacheKey));
       });
-      // This will start the queue processor, which will handle the requests.
-      // The processor has an internal guard to prevent multiple concurrent runs.
-      dispatch(processImageGenerationQueue());
-    } else {
-      // All images were already in the cache, no need to preload.
-      setIsPreloading(false);
-    }
-  }, [dispatch, cachedImageUrls]); // This effect runs only once on mount.
+    };
+  }, [dispatch, introSlideshowData, slideCacheKeys]); // This effect runs only once on mount.
 
   // --- Core UX Feature: Wait for Preloading to Complete ---
   // This effect monitors the number of loaded images. Only when all images for the
@@ -77,9 +91,9 @@ const IntroSlideshowModal: React.FC = () => {
 
   const handleClose = React.useCallback(() => {
     if (timerRef.current) clearTimeout(timerRef.current);
-    dispatch(markIntroAsPlayed());
+    dispatch(markIntroAsPlayed(storyId));
     dispatch(hideModal());
-  }, [dispatch]);
+  }, [dispatch, storyId]);
 
   // Effect for advancing the slides automatically
   useEffect(() => {
@@ -103,11 +117,11 @@ const IntroSlideshowModal: React.FC = () => {
     return () => {
       if (timerRef.current) clearTimeout(timerRef.current);
     };
-  }, [currentIndex, isPreloading, isFadingOut, handleClose, totalImages]);
+  }, [currentIndex, isPreloading, isFadingOut, handleClose, totalImages, introSlideshowData.length]);
   
   const currentSlide = introSlideshowData[currentIndex];
   // `useCardImage` will now instantly fetch from the Redux cache since we preloaded everything.
-  const { imageUrl, isLoading: isImageLoading } = useCardImage(currentSlide, 'selectiveColor');
+  const { imageUrl, isLoading: isImageLoading, failure, retry } = useCardImage(currentSlide, 'selectiveColor', 'modal');
 
   const isLastSlide = currentIndex === introSlideshowData.length - 1;
   const slideDuration = isLastSlide ? SLIDE_DURATION * 2 : SLIDE_DURATION;
@@ -154,7 +168,7 @@ const IntroSlideshowModal: React.FC = () => {
       <div className={`w-full h-full relative select-none transition-opacity duration-300 ${isFadingOut ? 'opacity-0' : 'opacity-100'}`}>
         {/* Image fills the entire container */}
         <div className="w-full h-full bg-brand-surface">
-            <ImageWithLoader imageUrl={imageUrl} isLoading={isImageLoading} alt="Introductory slide" objectFit="cover" />
+            <ImageWithLoader imageUrl={imageUrl} isLoading={isImageLoading} failure={failure} onRetry={retry} alt="Introductory slide" objectFit="cover" />
         </div>
 
         {/* Gradient overlay for text legibility */}
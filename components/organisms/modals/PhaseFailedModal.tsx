@@ -0,0 +1,54 @@
+/**
+ * @file PhaseFailedModal.tsx
+ * @description A modal that appears when a suspect asks for a lawyer and ends an interrogation phase early.
+ */
+import React from 'react';
+import Button from '../../atoms/Button';
+import { Gavel } from 'lucide-react';
+
+interface PhaseFailedModalProps {
+  witnessName: string;
+  lineOfInquiryLabel: string;
+  statement: string;
+  onConfirm: () => void;
+}
+
+const PhaseFailedModal: React.FC<PhaseFailedModalProps> = ({ witnessName, lineOfInquiryLabel, statement, onConfirm }) => {
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4 animate-fade-in"
+      onClick={onConfirm}
+    >
+      <div
+        className="bg-brand-surface rounded-xl shadow-2xl w-full max-w-sm border-2 border-brand-primary overflow-hidden animate-slide-in-bottom"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <header className="p-4 bg-brand-primary/10 text-center">
+            <div className="flex justify-center items-center gap-3">
+                 <Gavel className="w-8 h-8 text-brand-primary" />
+                 <h2 className="text-3xl font-oswald text-white uppercase tracking-wider">Lawyered Up</h2>
+            </div>
+        </header>
+        <main className="p-6 space-y-4">
+          <p className="text-center italic text-white">"{statement}"</p>
+          <p className="text-center text-brand-text-muted">
+            {witnessName} has ended the interview. The line of inquiry was left unfinished:
+          </p>
+          <p className="text-center font-oswald text-xl text-white uppercase">"{lineOfInquiryLabel}"</p>
+          <p className="text-center text-sm text-brand-text-muted">
+            You can try again, but they will still be on their guard. Pressure works better with evidence behind it.
+          </p>
+
+           <div className="pt-2">
+             <Button onClick={onConfirm} className="w-full">
+                Continue
+             </Button>
+           </div>
+        </main>
+      </div>
+    </div>
+  );
+};
+
+export default PhaseFailedModal;
@@ -24,7 +24,7 @@ const RarityRevealModal: React.FC<RarityRevealModalProps> = ({ objectId }) => {
   const object = useSelector((state: RootState) => selectObjectById(state, objectId));
   const [stage, setStage] = useState<RevealStage>('initial');
 
-  const { imageUrl, isLoading } = useCardImage(object, 'selectiveColor');
+  const { imageUrl, isLoading, failure, retry } = useCardImage(object, 'selectiveColor', 'modal');
 
   useEffect(() => {
     // --- Staged Animation Controller ---
@@ -73,7 +73,10 @@ const RarityRevealModal: React.FC<RarityRevealModalProps> = ({ objectId }) => {
             imageUrl={imageUrl} 
             isLoading={isLoading} 
             alt={`Evidence: ${object.name}`} 
+            label={object.name}
             objectFit="cover"
+            failure={failure}
+            onRetry={retry}
           />
         </div>
         
@@ -0,0 +1,225 @@
+/**
+ * @file SaveLoadModal.tsx
+ * @description The save/load menu. In `manage` mode the player can create, overwrite, load and delete
+ * save slots. In `continue` mode, shown on startup when saves exist, it offers to resume a previous
+ * investigation or start fresh. In both modes the player can import an investigation exported from another
+ * browser; in `manage` mode they can also export the current one. Saves that failed to migrate are listed separately so the player can
+ * see what happened to them and delete them.
+ */
+import React, { useState, useEffect, useRef } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { AppDispatch } from '../../../store';
+import { hideModal } from '../../../store/uiSlice';
+import {
+  fetchSaveSlots, fetchQuarantinedSaves, saveGame, loadGame, deleteSave, deleteQuarantinedSave, exportGame, importGame,
+  selectSaveSlots, selectQuarantinedSaves, selectIsSaving, selectSaveError,
+} from '../../../store/saveSlice';
+import { SaveSlotMetadata } from '../../../types';
+import { SAVE_CONFIG } from '../../../config';
+import ModalWrapper from './ModalWrapper';
+import Button from '../../atoms/Button';
+import { Coins, Clock, FileText, AlertTriangle, Download, Upload } from 'lucide-react';
+
+interface SaveLoadModalProps {
+  mode?: 'manage' | 'continue';
+}
+
+/**
+ * Formats a play time in milliseconds as hours and minutes, e.g. "1h 05m".
+ */
+const formatPlayTime = (ms: number): string => {
+  const totalMinutes = Math.floor(ms / 60000);
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return hours > 0 ? `${hours}h ${String(minutes).padStart(2, '0')}m` : `${minutes}m`;
+};
+
+// --- Extracted Sub-component: SaveSlotRow ---
+const SaveSlotRow: React.FC<{
+  slot: SaveSlotMetadata;
+  canManage: boolean;
+  onLoad: (slot: SaveSlotMetadata) => void;
+  onOverwrite: (slot: SaveSlotMetadata) => void;
+  onDelete: (slot: SaveSlotMetadata) => void;
+}> = React.memo(({ slot, canManage, onLoad, onOverwrite, onDelete }) => (
+  <div className={`bg-brand-surface p-4 rounded-lg border-l-4 ${slot.kind === 'auto' ? 'border-brand-accent' : 'border-brand-primary'}`}>
+    <div className="flex items-center justify-between gap-4 mb-1">
+      <h3 className="font-oswald text-xl text-white uppercase truncate">{slot.name}</h3>
+      <span className="text-xs text-brand-text-muted flex-shrink-0">{new Date(slot.savedAt).toLocaleString()}</span>
+    </div>
+    <p className="text-sm text-brand-text-muted mb-3">{slot.caseTitle}</p>
+    <div className="flex items-center gap-4 text-sm text-brand-text mb-4">
+      <span className="flex items-center gap-1"><Clock size={14} /> {formatPlayTime(slot.playTimeMs)}</span>
+      <span className="flex items-center gap-1"><Coins size={14} className="text-yellow-400" /> {slot.tokens}</span>
+      <span className="flex items-center gap-1"><FileText size={14} /> {slot.evidenceCount} evidence</span>
+    </div>
+    <div className="flex gap-2">
+      <Button onClick={() => onLoad(slot)} className="flex-1 text-sm uppercase">Load</Button>
+      {canManage && slot.kind === 'manual' && (
+        <>
+          <Button onClick={() => onOverwrite(slot)} variant="secondary" className="flex-1 text-sm uppercase">Overwrite</Button>
+          <Button onClick={() => onDelete(slot)} variant="secondary" className="text-sm uppercase">Delete</Button>
+        </>
+      )}
+    </div>
+  </div>
+));
+
+const SaveLoadModal: React.FC<SaveLoadModalProps> = ({ mode = 'manage' }) => {
+  const dispatch = useDispatch<AppDispatch>();
+  const slots = useSelector(selectSaveSlots);
+  const quarantinedSaves = useSelector(selectQuarantinedSaves);
+  const isSaving = useSelector(selectIsSaving);
+  const error = useSelector(selectSaveError);
+  const [newSlotName, setNewSlotName] = useState('');
+  const [includeImages, setIncludeImages] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const canManage = mode === 'manage';
+  const manualSlotCount = slots.filter(s => s.kind === 'manual').length;
+  const hasFreeSlot = manualSlotCount < SAVE_CONFIG.MAX_MANUAL_SLOTS;
+
+  // Always show the current contents of the database, not a stale list.
+  useEffect(() => {
+    dispatch(fetchSaveSlots());
+    dispatch(fetchQuarantinedSaves());
+  }, [dispatch]);
+
+  const handleCreate = React.useCallback((e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newSlotName.trim() || `Save ${manualSlotCount + 1}`;
+    dispatch(saveGame({ name }));
+    setNewSlotName('');
+  }, [dispatch, newSlotName, manualSlotCount]);
+
+  const handleLoad = React.useCallback((slot: SaveSlotMetadata) => {
+    // Loading replaces the current investigation, so confirm unless the player is resuming on startup.
+    if (canManage && !window.confirm(`Load "${slot.name}"? Unsaved progress in your current investigation will be lost.`)) return;
+    dispatch(loadGame(slot.slotId));
+  }, [dispatch, canManage]);
+
+  const handleOverwrite = React.useCallback((slot: SaveSlotMetadata) => {
+    if (window.confirm(`Overwrite "${slot.name}" with your current progress?`)) {
+      dispatch(saveGame({ slotId: slot.slotId, name: slot.name }));
+    }
+  }, [dispatch]);
+
+  const handleDelete = React.useCallback((slot: SaveSlotMetadata) => {
+    if (window.confirm(`Delete "${slot.name}"? This cannot be undone.`)) {
+      dispatch(deleteSave(slot.slotId));
+    }
+  }, [dispatch]);
+
+  const handleImport = React.useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset the input so selecting the same file again still fires a change event.
+    e.target.value = '';
+    if (!file) return;
+    if (canManage && !window.confirm(`Import "${file.name}"? Unsaved progress in your current investigation will be lost.`)) return;
+    dispatch(importGame(file));
+  }, [dispatch, canManage]);
+
+  const handleDeleteQuarantined = React.useCallback((slot: SaveSlotMetadata) => {
+    if (window.confirm(`Permanently delete the damaged save "${slot.name}"?`)) {
+      dispatch(deleteQuarantinedSave(slot.slotId));
+    }
+  }, [dispatch]);
+
+  return (
+    <ModalWrapper title={canManage ? 'Case Archive' : 'Continue Investigation'}>
+      <div className="space-y-6">
+        {canManage ? (
+          <form onSubmit={handleCreate} className="bg-black/20 p-4 rounded-lg border border-brand-border">
+            <h3 className="font-oswald text-brand-primary uppercase tracking-wider mb-2">New Save</h3>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={newSlotName}
+                onChange={(e) => setNewSlotName(e.target.value)}
+                placeholder={`Save ${manualSlotCount + 1}`}
+                maxLength={40}
+                disabled={!hasFreeSlot}
+                className="flex-1 bg-brand-surface border border-brand-border rounded-md px-3 py-2 text-white focus:outline-none focus:border-brand-primary"
+              />
+              <Button type="submit" disabled={isSaving || !hasFreeSlot} className="text-sm uppercase">
+                {isSaving ? 'Saving...' : 'Save'}
+              </Button>
+            </div>
+            {!hasFreeSlot && (
+              <p className="text-xs text-brand-text-muted mt-2">All {SAVE_CONFIG.MAX_MANUAL_SLOTS} slots are in use. Overwrite or delete a save to continue.</p>
+            )}
+          </form>
+        ) : (
+          <div className="flex flex-col gap-2">
+            <p className="text-brand-text-muted text-sm">Pick up where you left off, or start a fresh investigation.</p>
+            <Button onClick={() => dispatch(hideModal())} variant="secondary" className="text-sm uppercase">Start Fresh</Button>
+          </div>
+        )}
+
+        <div className="bg-black/20 p-4 rounded-lg border border-brand-border">
+          <h3 className="font-oswald text-brand-primary uppercase tracking-wider mb-2">Transfer</h3>
+          {canManage && (
+            <label className="flex items-center gap-2 text-sm text-brand-text-muted mb-3">
+              <input type="checkbox" checked={includeImages} onChange={(e) => setIncludeImages(e.target.checked)} />
+              Include generated images (larger file)
+            </label>
+          )}
+          <div className="flex gap-2">
+            {canManage && (
+              <Button onClick={() => dispatch(exportGame({ includeImages }))} variant="secondary" className="flex-1 text-sm uppercase flex items-center justify-center gap-2">
+                <Download size={16} /> Export
+              </Button>
+            )}
+            <Button onClick={() => fileInputRef.current?.click()} variant="secondary" className="flex-1 text-sm uppercase flex items-center justify-center gap-2">
+              <Upload size={16} /> Import
+            </Button>
+            <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+          </div>
+        </div>
+
+        {error && <p className="text-sm text-brand-primary">{error}</p>}
+
+        <div className="space-y-3">
+          {slots.length === 0 ? (
+            <p className="text-brand-text-muted text-center py-8">No saved investigations yet.</p>
+          ) : (
+            slots.map(slot => (
+              <SaveSlotRow
+                key={slot.slotId}
+                slot={slot}
+                canManage={canManage}
+                onLoad={handleLoad}
+                onOverwrite={handleOverwrite}
+                onDelete={handleDelete}
+              />
+            ))
+          )}
+        </div>
+
+        {quarantinedSaves.length > 0 && (
+          <div>
+            <h3 className="font-oswald text-brand-primary uppercase tracking-wider mb-2 flex items-center gap-2">
+              <AlertTriangle size={16} /> Damaged Saves
+            </h3>
+            <p className="text-xs text-brand-text-muted mb-3">These saves could not be upgraded to this version of the game and have been set aside.</p>
+            <div className="space-y-2">
+              {quarantinedSaves.map(({ metadata, reason }) => (
+                <div key={metadata.slotId} className="bg-black/20 p-3 rounded-lg border border-brand-border flex items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="text-white truncate">{metadata.name} <span className="text-brand-text-muted text-xs">— {metadata.caseTitle}</span></p>
+                    <p className="text-xs text-brand-text-muted">{reason}</p>
+                  </div>
+                  {canManage && (
+                    <Button onClick={() => handleDeleteQuarantined(metadata)} variant="secondary" className="text-xs uppercase flex-shrink-0">Delete</Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </ModalWrapper>
+  );
+};
+
+export default SaveLoadModal;
@@ -0,0 +1,46 @@
+/**
+ * @file StoryEventModal.tsx
+ * @description A modal that presents a scripted story event, shown when a story trigger with a
+ * `showModal` effect fires.
+ */
+import React from 'react';
+import { useDispatch } from 'react-redux';
+import { hideModal } from '../../../store/uiSlice';
+import Button from '../../atoms/Button';
+import { Sparkles } from 'lucide-react';
+
+interface StoryEventModalProps {
+  title: string;
+  text: string;
+}
+
+const StoryEventModal: React.FC<StoryEventModalProps> = ({ title, text }) => {
+  const dispatch = useDispatch();
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4 animate-fade-in"
+      onClick={() => dispatch(hideModal())}
+    >
+      <div
+        className="bg-brand-surface rounded-xl shadow-2xl w-full max-w-sm border-2 border-brand-accent overflow-hidden animate-slide-in-bottom"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <header className="p-4 bg-brand-bg text-center">
+          <div className="flex justify-center items-center gap-3">
+            <Sparkles className="w-7 h-7 text-brand-accent" />
+            <h2 className="text-2xl font-oswald text-white uppercase tracking-wider">{title}</h2>
+          </div>
+        </header>
+        <main className="p-6 space-y-4">
+          <p className="text-brand-text whitespace-pre-line">{text}</p>
+          <Button onClick={() => dispatch(hideModal())} className="w-full">
+            Continue
+          </Button>
+        </main>
+      </div>
+    </div>
+  );
+};
+
+export default StoryEventModal;
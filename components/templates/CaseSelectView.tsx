@@ -0,0 +1,92 @@
+/**
+ * @file components/templates/CaseSelectView.tsx
+ * @description The case-select screen. It lists every case in the story registry and lets the player
+ * switch between them. The list is entirely data-driven: registering a new `StoryPack` in
+ * `data/storyRegistry.ts` is all it takes for a case to appear here.
+ * The player picks the difficulty preset a case is opened on here. The difficulty is fixed for the whole
+ * investigation, so changing it for the active case restarts that case.
+ */
+import React, { useState } from 'react';
+import { useSelector, useDispatch } from 'react-redux';
+import { AppDispatch } from '../../store';
+import { selectStoryId, selectDifficultyId } from '../../store/storySlice';
+import { setActiveView } from '../../store/uiSlice';
+import { selectStory } from '../../store/storyActions';
+import { STORY_PACKS } from '../../data/storyRegistry';
+import { StoryPack, DifficultyId } from '../../types';
+import { DIFFICULTY_PRESETS } from '../../config';
+import Button from '../atoms/Button';
+import FilterButton from '../atoms/FilterButton';
+import { FolderOpen } from 'lucide-react';
+
+// --- Extracted Sub-component: CaseCard ---
+const CaseCard: React.FC<{ pack: StoryPack; isActive: boolean; isRestart: boolean; activeDifficultyLabel: string; onSelect: (pack: StoryPack) => void }> = React.memo(({ pack, isActive, isRestart, activeDifficultyLabel, onSelect }) => (
+  <div className={`bg-brand-surface p-4 rounded-lg border-l-4 transition-colors duration-200 ${isActive ? 'border-brand-primary' : 'border-brand-border hover:border-brand-primary'}`}>
+    <div className="flex items-center justify-between gap-4 mb-2">
+      <h2 className="font-oswald text-2xl text-white uppercase">{pack.story.title}</h2>
+      {isActive && (
+        <span className="text-xs font-oswald uppercase tracking-wider text-brand-primary border border-brand-primary px-2 py-0.5 rounded-sm">Active · {activeDifficultyLabel}</span>
+      )}
+    </div>
+    {pack.story.storyInfo.premise && (
+      <p className="text-sm text-brand-text-muted mb-4">{pack.story.storyInfo.premise}</p>
+    )}
+    <Button onClick={() => onSelect(pack)} variant={isActive && !isRestart ? 'secondary' : 'primary'} className="w-full text-sm uppercase">
+      {!isActive ? 'Open Case' : isRestart ? 'Restart Case' : 'Resume Case'}
+    </Button>
+  </div>
+));
+
+const CaseSelectView: React.FC = () => {
+  const dispatch = useDispatch<AppDispatch>();
+  const activeStoryId = useSelector(selectStoryId);
+  const activeDifficultyId = useSelector(selectDifficultyId);
+  const [difficultyId, setDifficultyId] = useState<DifficultyId>(activeDifficultyId);
+  const isRestart = difficultyId !== activeDifficultyId;
+
+  const handleSelect = React.useCallback((pack: StoryPack) => {
+    if (pack.id === activeStoryId && !isRestart) {
+      dispatch(setActiveView('locations'));
+      return;
+    }
+    // Loading a different case, or the same one on another difficulty, replaces the current investigation.
+    const message = pack.id === activeStoryId
+      ? `Restarting this case on ${DIFFICULTY_PRESETS[difficultyId].label} will close your current investigation. Continue?`
+      : "Opening another case will close your current investigation. Continue?";
+    if (window.confirm(message)) {
+      dispatch(selectStory({ storyId: pack.id, difficultyId }));
+    }
+  }, [dispatch, activeStoryId, difficultyId, isRestart]);
+
+  return (
+    <div className="p-4 pb-40 h-full overflow-y-auto">
+      <header className="flex items-center gap-3 mb-6">
+        <FolderOpen className="text-brand-primary" size={32} />
+        <h1 className="text-4xl font-oswald text-brand-accent uppercase">Case Files</h1>
+      </header>
+      <section className="mb-6">
+        <h2 className="font-oswald text-brand-text uppercase tracking-wider mb-2">Difficulty</h2>
+        <div className="bg-brand-surface/50 p-1 rounded-lg flex space-x-1 border border-brand-border">
+          {(Object.keys(DIFFICULTY_PRESETS) as DifficultyId[]).map(id => (
+            <FilterButton key={id} label={DIFFICULTY_PRESETS[id].label} isActive={id === difficultyId} onClick={() => setDifficultyId(id)} className="flex-1" />
+          ))}
+        </div>
+        <p className="text-sm text-brand-text-muted mt-2">{DIFFICULTY_PRESETS[difficultyId].description}</p>
+      </section>
+      <div className="space-y-4">
+        {STORY_PACKS.map(pack => (
+          <CaseCard
+            key={pack.id}
+            pack={pack}
+            isActive={pack.id === activeStoryId}
+            isRestart={isRestart}
+            activeDifficultyLabel={DIFFICULTY_PRESETS[activeDifficultyId].label}
+            onSelect={handleSelect}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default CaseSelectView;
@@ -6,12 +6,13 @@
  */
 
 import React, { useMemo, useEffect } from 'react';
-import { useSelector, useDispatch } from 'react-redux';
-import { RootState, AppDispatch } from '../../store';
+import { useSelector } from 'react-redux';
+import { RootState } from '../../store';
 import PeopleList from './PeopleList';
 import LocationsList from './LocationsList';
 import TimelineView from './TimelineView';
 import TokensView from './TokensView';
+import CaseSelectView from './CaseSelectView';
 import CharacterCard from '../organisms/CharacterCard';
 import ObjectCard from '../organisms/ObjectCard';
 import LocationCard from '../organisms/LocationCard';
@@ -22,19 +23,18 @@ import CollectionCard from '../organisms/CollectionCard';
 import DialogueCard from '../organisms/DialogueCard';
 import { useADA } from '../../hooks/useADA';
 import { PlayerAction, ViewType, CardType } from '../../types';
-import { selectCharacterById, selectLocationById, selectObjectById, selectEvidenceGroupById, setHasDiscoveredPaint } from '../../store/storySlice';
+import { selectCharacterById, selectLocationById, selectObjectById, selectEvidenceGroupById } from '../../store/storySlice';
 
 const VIEW_COMPONENTS: { [key in Exclude<ViewType, 'card'>]: React.FC } = {
   people: PeopleList,
   locations: LocationsList,
   timeline: TimelineView,
   tokens: TokensView,
+  cases: CaseSelectView,
 };
 
 const GameScreen: React.FC = () => {
   const { activeView, activeCardId, activeCardType, activeCollectionType, activeCollectionTitle } = useSelector((state: RootState) => state.ui);
-  const hasDiscoveredPaint = useSelector((state: RootState) => state.story.hasDiscoveredPaint);
-  const dispatch = useDispatch<AppDispatch>();
   const triggerADA = useADA();
 
   const activeCardData = useSelector((state: RootState) => {
@@ -72,24 +72,15 @@ const GameScreen: React.FC = () => {
 
   useEffect(() => {
     if (activeCardInfo && activeCardInfo.type !== 'socialMediaFeed') {
-      let isFirstPaintDiscovery = false;
-      // --- Immediate State Change for Critical Discoveries ---
-      // This is the ideal place to handle state changes that should not be debounced.
-      // By dispatching here, we ensure the state is updated instantly when the player views the card,
-      // and before the debounced ADA analysis is triggered. This fixes a potential race condition.
-      if (activeCardInfo.type === 'object' && activeCardInfo.data.name === 'Fluorescent Paint' && !hasDiscoveredPaint) {
-        dispatch(setHasDiscoveredPaint(true));
-        isFirstPaintDiscovery = true;
-      }
-
+      // Story beats tied to viewing a card (e.g. a critical discovery) are story triggers. They fire in
+      // `triggerMiddleware` when the card opens and queue their directives for this analysis.
       triggerADA(
         PlayerAction.VIEW_CARD,
         `Player is viewing the card for ${activeCardInfo.data.name}.`,
-        activeCardInfo.data.imagePrompt,
-        { isFirstPaintDiscovery }
+        activeCardInfo.data.imagePrompt
       );
     }
-  }, [activeCardInfo, triggerADA, dispatch, hasDiscoveredPaint]);
+  }, [activeCardInfo, triggerADA]);
 
   const renderContent = () => {
     if (activeView === 'card' && activeCardInfo) {
@@ -9,19 +9,22 @@
 import React from 'react';
 import { useSelector, useDispatch } from 'react-redux';
 import { RootState, AppDispatch } from '../../store';
-import { selectAllLocations, selectVisitedLocations, selectStoryInfo } from '../../store/storySlice';
-import { setActiveCard, setLocationsView } from '../../store/uiSlice';
+import { selectAllLocations, selectVisitedLocations, selectStoryInfo, selectStoryId, selectUnlockedLocationIds } from '../../store/storySlice';
+import { setActiveCard, setLocationsView, setActiveView, showModal } from '../../store/uiSlice';
 import { Location, PlayerAction } from '../../types';
 import ImageWithLoader from '../molecules/ImageWithLoader';
 import { useADA } from '../../hooks/useADA';
 import { useCardImage } from '../../hooks/useCardImage';
-import { Map, List } from 'lucide-react';
+import { isUnlocked } from '../../services/triggerEngine';
+import { Map, List, Briefcase, Save, Lock } from 'lucide-react';
 
 // --- Extracted Sub-component: CityMap ---
 const CityMap: React.FC = React.memo(() => {
     const dispatch = useDispatch<AppDispatch>();
     const allLocations = useSelector((state: RootState) => selectAllLocations(state));
     const storyInfo = useSelector(selectStoryInfo);
+    const storyId = useSelector(selectStoryId);
+    const unlockedLocationIds = useSelector(selectUnlockedLocationIds);
 
     // --- FIX: Stabilize the card object passed to the hook ---
     // The `useMemo` hook ensures that the `mapCard` object reference remains stable
@@ -29,12 +32,13 @@ const CityMap: React.FC = React.memo(() => {
     // doesn't change. This prevents the `useCardImage` hook from re-running with a
     // new object reference on every render, which was the root cause of the
     // "appearing and disappearing" race condition. This is a critical stability fix.
+    // The map ID is namespaced by case so that each case caches its own map image.
     const mapCard = React.useMemo(() => ({
-      id: 'map',
+      id: `map-${storyId}`,
       imagePrompt: storyInfo.mapImagePrompt
-    }), [storyInfo.mapImagePrompt]);
+    }), [storyId, storyInfo.mapImagePrompt]);
 
-    const { imageUrl, isLoading } = useCardImage(mapCard, 'map');
+    const { imageUrl, isLoading, failure, retry } = useCardImage(mapCard, 'map', 'visible');
 
     const handleMapHotspotClick = (location: Location) => {
         dispatch(setActiveCard({ id: location.id, type: 'location' }));
@@ -48,8 +52,8 @@ const CityMap: React.FC = React.memo(() => {
 
     return (
         <div className="relative h-full w-full rounded-lg overflow-hidden border border-brand-border bg-brand-bg">
-            <ImageWithLoader imageUrl={imageUrl} isLoading={isLoading} alt={storyInfo.mapTitle} objectFit="cover" />
-            {!isLoading && mappableLocations.map(loc => (
+            <ImageWithLoader imageUrl={imageUrl} isLoading={isLoading} failure={failure} onRetry={retry} alt={storyInfo.mapTitle} objectFit="cover" />
+            {!isLoading && mappableLocations.map(loc => isUnlocked(loc, unlockedLocationIds) ? (
               <button 
                 key={loc.id}
                 onClick={() => handleMapHotspotClick(loc)}
@@ -60,6 +64,19 @@ const CityMap: React.FC = React.memo(() => {
                 <span className="bg-brand-primary w-4 h-4 rounded-full border-2 border-white animate-pulse"></span>
                 <span className="text-white text-sm font-bold bg-black/80 px-2 py-0.5 rounded-sm mt-2 whitespace-nowrap group-hover:text-brand-primary transition-colors drop-shadow-lg uppercase font-oswald tracking-wide">{loc.name}</span>
               </button>
+            ) : (
+              // A locked location keeps its pin, but only shows its teaser until it is unlocked.
+              <div
+                key={loc.id}
+                className="absolute transform -translate-x-1/2 -translate-y-1/2 flex flex-col items-center cursor-not-allowed"
+                style={{ top: loc.mapCoords.top, left: loc.mapCoords.left }}
+                aria-label="Locked location"
+              >
+                <span className="bg-brand-surface w-6 h-6 rounded-full border-2 border-brand-border flex items-center justify-center">
+                  <Lock size={12} className="text-brand-text-muted" />
+                </span>
+                <span className="text-brand-text-muted text-xs bg-black/80 px-2 py-0.5 rounded-sm mt-2 max-w-[10rem] text-center italic">{loc.lockedTeaser || 'Locked'}</span>
+              </div>
             ))}
         </div>
     );
@@ -68,14 +85,14 @@ const CityMap: React.FC = React.memo(() => {
 // --- Extracted Sub-component: VisitedLocationCard ---
 const VisitedLocationCard: React.FC<{loc: Location}> = React.memo(({loc}) => {
   const dispatch = useDispatch();
-  const { imageUrl, isLoading } = useCardImage(loc, 'selectiveColor');
+  const { imageUrl, isLoading, failure, retry } = useCardImage(loc, 'selectiveColor');
   return (
     <div 
       className="bg-brand-surface rounded-lg overflow-hidden shadow-lg cursor-pointer group animate-fade-in border-b-4 border-transparent hover:border-brand-primary transition-all duration-300"
       onClick={() => dispatch(setActiveCard({ id: loc.id, type: 'location' }))}
     >
       <div className="h-48 relative bg-brand-bg">
-        <ImageWithLoader imageUrl={imageUrl} isLoading={isLoading} alt={loc.name} objectFit="cover" />
+        <ImageWithLoader imageUrl={imageUrl} isLoading={isLoading} failure={failure} onRetry={retry} alt={loc.name} objectFit="cover" />
         <div className="absolute inset-0 bg-black/50 group-hover:bg-black/20 transition-all duration-300"></div>
         <h2 className="absolute bottom-2 left-3 text-3xl font-oswald text-white drop-shadow-lg uppercase">{loc.name}</h2>
       </div>
@@ -159,7 +176,25 @@ const LocationsList: React.FC = () => {
     return (
         <div className="p-4 h-full flex flex-col">
             <header className="mb-4 flex-shrink-0">
-                <h1 className="text-4xl font-oswald text-brand-accent mb-4 uppercase">City Map</h1>
+                <div className="flex items-center justify-between mb-4">
+                    <h1 className="text-4xl font-oswald text-brand-accent uppercase">City Map</h1>
+                    <div className="flex items-center">
+                        <button
+                            onClick={() => dispatch(showModal({ type: 'saveLoad', props: { mode: 'manage' } }))}
+                            className="p-2 text-brand-text-muted hover:text-white transition-colors"
+                            aria-label="Save or load game"
+                        >
+                            <Save size={24} />
+                        </button>
+                        <button
+                            onClick={() => dispatch(setActiveView('cases'))}
+                            className="p-2 text-brand-text-muted hover:text-white transition-colors"
+                            aria-label="Change case"
+                        >
+                            <Briefcase size={24} />
+                        </button>
+                    </div>
+                </div>
                 <div className="bg-brand-surface p-1 rounded-lg flex space-x-1 border border-brand-border">
                     <SegmentedControlButton view="map" label={storyInfo.mapTitle} Icon={Map} isActive={locationsView === 'map'} onClick={handleViewChange} />
                     <SegmentedControlButton view="list" label="Visited" Icon={List} isActive={locationsView === 'list'} onClick={handleViewChange} />
@@ -8,11 +8,13 @@
 import React from 'react';
 import { useSelector, useDispatch } from 'react-redux';
 import { RootState } from '../../store';
-import { selectVictims, selectSuspects, selectWitnesses, selectPeople } from '../../store/storySlice';
+import { selectVictims, selectSuspects, selectWitnesses, selectPeople, selectRevealedCharacterIds } from '../../store/storySlice';
 import { setActiveCard } from '../../store/uiSlice';
 import { Character } from '../../types';
 import ImageWithLoader from '../molecules/ImageWithLoader';
 import { useCardImage } from '../../hooks/useCardImage';
+import { isUnlocked } from '../../services/triggerEngine';
+import { Lock } from 'lucide-react';
 
 /**
  * --- Extracted Sub-Component: CharacterRow ---
@@ -21,7 +23,7 @@ import { useCardImage } from '../../hooks/useCardImage';
 const CharacterRow: React.FC<{ character: Character; onClick: (character: Character) => void }> = React.memo(({ character, onClick }) => {
   const isImportant = character.role === 'victim' || character.isSuspect;
   const colorTreatment = isImportant ? 'selectiveColor' : 'monochrome';
-  const { imageUrl, isLoading } = useCardImage(character, colorTreatment);
+  const { imageUrl, isLoading, failure, retry } = useCardImage(character, colorTreatment);
 
   return (
       <div 
@@ -29,7 +31,7 @@ const CharacterRow: React.FC<{ character: Character; onClick: (character: Charac
         onClick={() => onClick(character)}
       >
         <div className="w-16 h-20 rounded-md overflow-hidden flex-shrink-0 mr-4 border border-brand-border bg-brand-bg">
-          <ImageWithLoader imageUrl={imageUrl} isLoading={isLoading} alt={character.name} objectFit="cover" />
+          <ImageWithLoader imageUrl={imageUrl} isLoading={isLoading} failure={failure} onRetry={retry} alt={character.name} objectFit="cover" />
         </div>
         <div>
           <h3 className="text-lg font-oswald text-brand-text">{character.name}</h3>
@@ -39,16 +41,34 @@ const CharacterRow: React.FC<{ character: Character; onClick: (character: Charac
   );
 });
 
+/**
+ * --- Extracted Sub-Component: LockedCharacterRow ---
+ * A placeholder for a character the player has not uncovered yet. Only the teaser is shown.
+ */
+const LockedCharacterRow: React.FC<{ character: Character }> = React.memo(({ character }) => (
+  <div className="flex items-center bg-brand-surface/50 p-3 rounded-lg mb-3 border-l-4 border-brand-border cursor-not-allowed" aria-label="Unknown person">
+    <div className="w-16 h-20 rounded-md flex-shrink-0 mr-4 border border-brand-border bg-brand-bg flex items-center justify-center">
+      <Lock size={20} className="text-brand-text-muted" />
+    </div>
+    <div>
+      <h3 className="text-lg font-oswald text-brand-text-muted">Unknown</h3>
+      <p className="text-sm text-brand-text-muted italic">{character.lockedTeaser || 'Keep investigating to uncover this person.'}</p>
+    </div>
+  </div>
+));
+
 /**
  * --- Extracted Sub-Component: Section ---
  * A presentational component for displaying a titled list of characters.
  * Moved to the top level for stability and performance.
  */
-const Section: React.FC<{ title: string; characters: Character[]; onCardClick: (character: Character) => void }> = ({ title, characters, onCardClick }) => (
+const Section: React.FC<{ title: string; characters: Character[]; revealedIds: string[]; onCardClick: (character: Character) => void }> = ({ title, characters, revealedIds, onCardClick }) => (
   characters.length > 0 ? (
     <section className="mb-6">
       <h2 className="text-2xl font-oswald text-brand-primary mb-3 border-b border-brand-primary/30 pb-1 uppercase tracking-wider">{title}</h2>
-      {characters.map(char => <CharacterRow key={char.id} character={char} onClick={onCardClick} />)}
+      {characters.map(char => isUnlocked(char, revealedIds)
+        ? <CharacterRow key={char.id} character={char} onClick={onCardClick} />
+        : <LockedCharacterRow key={char.id} character={char} />)}
     </section>
   ) : null
 );
@@ -62,6 +82,7 @@ const PeopleList: React.FC = () => {
   const suspects = useSelector((state: RootState) => selectSuspects(state));
   const witnesses = useSelector((state: RootState) => selectWitnesses(state));
   const people = useSelector((state: RootState) => selectPeople(state));
+  const revealedIds = useSelector(selectRevealedCharacterIds);
 
   const handleCardClick = React.useCallback((character: Character) => {
     dispatch(setActiveCard({ id: character.id, type: 'character' }));
@@ -70,10 +91,10 @@ const PeopleList: React.FC = () => {
   return (
     <div className="p-4 pb-40 overflow-y-auto h-full">
       <h1 className="text-4xl font-oswald text-brand-accent mb-6 uppercase">People</h1>
-      <Section title="Victim" characters={victims} onCardClick={handleCardClick} />
-      <Section title="Suspects" characters={suspects} onCardClick={handleCardClick} />
-      <Section title="Witnesses" characters={witnesses} onCardClick={handleCardClick} />
-      <Section title="People of Interest" characters={people} onCardClick={handleCardClick} />
+      <Section title="Victim" characters={victims} revealedIds={revealedIds} onCardClick={handleCardClick} />
+      <Section title="Suspects" characters={suspects} revealedIds={revealedIds} onCardClick={handleCardClick} />
+      <Section title="Witnesses" characters={witnesses} revealedIds={revealedIds} onCardClick={handleCardClick} />
+      <Section title="People of Interest" characters={people} revealedIds={revealedIds} onCardClick={handleCardClick} />
     </div>
   );
 };
@@ -4,7 +4,7 @@
  * It orchestrates the entire puzzle-solving experience, including switching between
  * the workspace and the full timeline view, managing state, and rendering all sub-components.
  */
-import React, { useMemo, useCallback, useEffect, useRef } from 'react';
+import React, { useMemo, useCallback, useEffect, useRef, useState } from 'react';
 import { useSelector, useDispatch } from 'react-redux';
 import { RootState, AppDispatch } from '../../store';
 import {
@@ -24,11 +24,16 @@ import {
   selectSlotEntities,
   selectClueEntities,
   selectUnplacedClues,
+  selectContradictionRules,
+  selectContradictionFlags,
+  flagContradiction,
 } from '../../store/caseFileSlice';
 import { showModal } from '../../store/uiSlice';
+import { selectTestimonies, selectCollectedObjects, selectPlayerTokens, selectDifficultyRules } from '../../store/storySlice';
+import { getFlaggableStatements } from '../../services/contradictionService';
 import { Clue, EvidenceSlot, TimelineAnchor, TimelineAnchorCategory } from '../../types';
 import Button from '../atoms/Button';
-import { FileCheck, RefreshCw, Eye, Edit } from 'lucide-react';
+import { FileCheck, RefreshCw, Eye, Edit, AlertTriangle, Check, X } from 'lucide-react';
 
 // --- Sub-Component: ClueCard ---
 const ClueCard: React.FC<{ clue: Clue; isSelected: boolean; onClick: () => void; }> = React.memo(({ clue, isSelected, onClick }) => (
@@ -79,6 +84,78 @@ const EvidencePool: React.FC = React.memo(() => {
   );
 });
 
+// --- Sub-Component: ContradictionBoard ---
+const ContradictionBoard: React.FC = React.memo(() => {
+  const dispatch = useDispatch<AppDispatch>();
+  const rules = useSelector(selectContradictionRules);
+  const flags = useSelector(selectContradictionFlags);
+  const testimonies = useSelector(selectTestimonies);
+  const collectedObjects = useSelector(selectCollectedObjects);
+  const playerTokens = useSelector(selectPlayerTokens);
+  const { falseContradictionPenalty } = useSelector(selectDifficultyRules);
+  const [statementId, setStatementId] = useState('');
+  const [objectId, setObjectId] = useState('');
+
+  const statements = useMemo(() => getFlaggableStatements(testimonies, collectedObjects), [testimonies, collectedObjects]);
+  const evidence = useMemo(() => collectedObjects.filter(o => o.category !== 'testimony_fragment'), [collectedObjects]);
+
+  // Cases without authored contradictions have nothing to flag.
+  if (rules.length === 0) return null;
+
+  const selectedStatement = statements.find(s => s.id === statementId);
+  const isAlreadyFlagged = flags.some(f => f.statementId === statementId && f.objectId === objectId);
+  const canFlag = !!selectedStatement && !!objectId && !isAlreadyFlagged && playerTokens >= falseContradictionPenalty;
+
+  const handleFlag = () => {
+    if (!selectedStatement || !canFlag) return;
+    dispatch(flagContradiction({ statement: selectedStatement, objectId }));
+    setObjectId('');
+  };
+
+  const labelFor = (id: string) => statements.find(s => s.id === id)?.label ?? id;
+  const nameFor = (id: string) => collectedObjects.find(o => o.id === id)?.name ?? id;
+  const selectClasses = 'w-full bg-black/30 border border-brand-border rounded-md p-2 text-sm text-white focus:outline-none focus:border-brand-primary';
+
+  return (
+    <div className="mt-8 pt-6 border-t-2 border-brand-border">
+      <h3 className="text-2xl font-oswald text-brand-primary mb-1 uppercase">Contradictions</h3>
+      <p className="text-sm text-brand-text-muted mb-4">
+        Pair a statement with the evidence that disproves it. A wrong call costs {falseContradictionPenalty} tokens.
+      </p>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <select value={statementId} onChange={e => setStatementId(e.target.value)} className={selectClasses}>
+          <option value="">Select a statement...</option>
+          {statements.map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
+        </select>
+        <select value={objectId} onChange={e => setObjectId(e.target.value)} className={selectClasses}>
+          <option value="">Select evidence...</option>
+          {evidence.map(o => <option key={o.id} value={o.id}>{o.name}</option>)}
+        </select>
+      </div>
+      {selectedStatement && <p className="mt-3 text-sm italic text-brand-text">"{selectedStatement.text}"</p>}
+      <Button onClick={handleFlag} disabled={!canFlag} className="mt-4 w-full flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed">
+        <AlertTriangle size={18} /> Flag Contradiction
+      </Button>
+      {flags.length > 0 && (
+        <ul className="mt-4 space-y-2">
+          {flags.map(flag => {
+            const rule = rules.find(r => r.id === flag.ruleId);
+            return (
+              <li key={`${flag.statementId}|${flag.objectId}`} className={`p-3 rounded-lg border-2 bg-brand-surface ${rule ? 'border-brand-primary' : 'border-brand-border'}`}>
+                <p className="text-sm text-white flex items-center gap-2">
+                  {rule ? <Check size={16} className="text-green-400 flex-shrink-0" /> : <X size={16} className="text-brand-text-muted flex-shrink-0" />}
+                  {labelFor(flag.statementId)} vs. {nameFor(flag.objectId)}
+                </p>
+                <p className="text-xs text-brand-text-muted mt-1">{rule ? rule.explanation : 'No contradiction.'}</p>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+});
+
 // --- Sub-Component: Slot ---
 const Slot: React.FC<{ slotId: string; isPrimary?: boolean; isDisabled?: boolean; }> = React.memo(({ slotId, isPrimary = false, isDisabled = false }) => {
   const dispatch = useDispatch<AppDispatch>();
@@ -164,6 +241,7 @@ const Workspace: React.FC = () => {
       </div>
       {activeAnchor && <AnchorDisplay anchor={activeAnchor} />}
       <EvidencePool />
+      <ContradictionBoard />
     </div>
   );
 };
@@ -1,25 +1,194 @@
 /**
  * @file components/templates/TokensView.tsx
  * @description Renders the new "Token Ledger" page, which serves as the central hub for the game's economy.
+ * Besides the balance and the bounties, it breaks the spending down by reason and lists every recorded
+ * transaction, newest first, filterable by reason. Bounties open their mini-game in the `bounty` modal.
+ * The budget outlook warns when the balance no longer covers the case, and offers the emergency bounties
+ * and a budget request to the captain when nothing else will.
  */
-import React from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { useSelector, useDispatch } from 'react-redux';
 import { RootState, AppDispatch } from '../../store';
-import { selectPlayerTokens, selectBounties, addTokens } from '../../store/storySlice';
-import { Coins } from 'lucide-react';
+import { selectPlayerTokens, selectBounties, selectBountyCompletions, addTokens, selectTokenLedger, selectTokenSpendByReason, selectObjectEntities, selectCharacterEntities, selectEconomyAnalysis } from '../../store/storySlice';
+import { requestCaptainBudget } from '../../store/caseFileSlice';
+import { Coins, AlertTriangle } from 'lucide-react';
 import BountyCard from '../molecules/BountyCard';
 import Button from '../atoms/Button';
-import { TOKENS_VIEW_COPY } from '../../config';
+import FilterButton from '../atoms/FilterButton';
+import { TOKENS_VIEW_COPY, TOKEN_REASON_LABELS, ECONOMY_COPY, ECONOMY_CONFIG } from '../../config';
+import { Bounty, TokenReason } from '../../types';
+import { showModal } from '../../store/uiSlice';
+import { getBountyAvailability } from '../../services/bountyEngine';
+
+/**
+ * Shows whether the balance still covers an acceptable case. When it does not, the emergency bounties
+ * (passed as children) and a budget request to the captain are offered as ways out.
+ */
+const BudgetOutlook: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const dispatch = useDispatch<AppDispatch>();
+  const analysis = useSelector(selectEconomyAnalysis);
+  const statusText = { healthy: ECONOMY_COPY.HEALTHY, atRisk: ECONOMY_COPY.AT_RISK, softlocked: ECONOMY_COPY.SOFTLOCKED }[analysis.status];
+  const borderClass = analysis.status === 'healthy' ? 'border-brand-border' : analysis.status === 'atRisk' ? 'border-yellow-500/70' : 'border-brand-accent';
+
+  return (
+    <div className={`bg-black/20 p-4 rounded-lg border-2 ${borderClass} mb-8`}>
+      <h3 className="font-oswald text-brand-primary uppercase tracking-wider mb-2 flex items-center gap-2">
+        {analysis.status !== 'healthy' && <AlertTriangle size={18} className={analysis.status === 'atRisk' ? 'text-yellow-400' : 'text-brand-accent'} />}
+        {ECONOMY_COPY.PANEL_TITLE}
+      </h3>
+      <p className="text-brand-text-muted text-sm mb-2">{statusText}</p>
+      <p className="text-sm font-mono text-brand-text">{ECONOMY_COPY.REQUIRED}: {analysis.requiredTokens}</p>
+
+      {analysis.status === 'softlocked' && (
+        <div className="mt-4 space-y-4">
+          <div>
+            <h4 className="font-oswald text-white uppercase tracking-wider mb-2">{ECONOMY_COPY.EMERGENCY_TITLE}</h4>
+            <div className="space-y-3">{children}</div>
+          </div>
+          <div className="border-t border-brand-border pt-4">
+            <h4 className="font-oswald text-white uppercase tracking-wider mb-1">{ECONOMY_COPY.CAPTAIN_TITLE}</h4>
+            <p className="text-sm text-brand-text-muted mb-3">
+              The captain will approve {analysis.shortfall + ECONOMY_CONFIG.CAPTAIN_BUDGET_MARGIN} tokens, but it goes on your record: {ECONOMY_CONFIG.CAPTAIN_BUDGET_SCORE_PENALTY} points off your case score.
+            </p>
+            <Button onClick={() => dispatch(requestCaptainBudget())} variant="secondary">
+              {ECONOMY_COPY.CAPTAIN_BUTTON}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+/** Shows how the tokens spent so far are split between the reasons they were spent on. */
+const SpendBreakdown: React.FC = () => {
+  const spendByReason = useSelector(selectTokenSpendByReason);
+  const rows = (Object.keys(spendByReason) as TokenReason[])
+    .map(reason => ({ reason, total: spendByReason[reason] ?? 0 }))
+    .sort((a, b) => b.total - a.total);
+  const totalSpent = rows.reduce((sum, row) => sum + row.total, 0);
+
+  return (
+    <div className="mb-8">
+      <h2 className="text-2xl font-oswald text-brand-primary mb-3 border-b border-brand-primary/30 pb-1 uppercase tracking-wider">{TOKENS_VIEW_COPY.SPEND_TITLE}</h2>
+      {rows.length === 0 ? (
+        <p className="text-brand-text-muted text-sm">{TOKENS_VIEW_COPY.SPEND_EMPTY}</p>
+      ) : (
+        <div className="space-y-3">
+          {rows.map(({ reason, total }) => {
+            const percent = Math.round((total / totalSpent) * 100);
+            return (
+              <div key={reason}>
+                <div className="flex justify-between text-sm mb-1">
+                  <span className="font-oswald uppercase tracking-wider text-brand-text">{TOKEN_REASON_LABELS[reason]}</span>
+                  <span className="font-mono text-brand-text-muted">{total} ({percent}%)</span>
+                </div>
+                <div className="h-2 bg-black/40 rounded-full overflow-hidden">
+                  <div className="h-full bg-brand-primary" style={{ width: `${percent}%` }} />
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+/** Lists the recorded transactions, newest first, with a filter per reason. */
+const TransactionHistory: React.FC = () => {
+  const ledger = useSelector(selectTokenLedger);
+  const objects = useSelector(selectObjectEntities);
+  const characters = useSelector(selectCharacterEntities);
+  const bounties = useSelector((state: RootState) => state.story.bounties.entities);
+  const [filter, setFilter] = useState<TokenReason | 'all'>('all');
+
+  const reasons = useMemo(() => [...new Set(ledger.map(entry => entry.reason))], [ledger]);
+  const entries = useMemo(
+    () => ledger.filter(entry => filter === 'all' || entry.reason === filter).reverse(),
+    [ledger, filter]
+  );
+
+  const getEntityName = (entityId: string | null) =>
+    entityId ? objects[entityId]?.name ?? characters[entityId]?.name ?? bounties[entityId]?.title ?? null : null;
+
+  return (
+    <div className="mb-8">
+      <h2 className="text-2xl font-oswald text-brand-primary mb-3 border-b border-brand-primary/30 pb-1 uppercase tracking-wider">{TOKENS_VIEW_COPY.HISTORY_TITLE}</h2>
+      {reasons.length > 1 && (
+        <div className="bg-brand-surface/50 p-1 rounded-lg flex flex-wrap gap-1 border border-brand-border mb-3">
+          <FilterButton label="All" isActive={filter === 'all'} onClick={() => setFilter('all')} />
+          {reasons.map(reason => (
+            <FilterButton key={reason} label={TOKEN_REASON_LABELS[reason]} isActive={filter === reason} onClick={() => setFilter(reason)} />
+          ))}
+        </div>
+      )}
+      {entries.length === 0 ? (
+        <p className="text-brand-text-muted text-sm">{TOKENS_VIEW_COPY.HISTORY_EMPTY}</p>
+      ) : (
+        <ul className="divide-y divide-brand-border border border-brand-border rounded-lg bg-black/20">
+          {entries.map(entry => {
+            const entityName = getEntityName(entry.entityId);
+            return (
+              <li key={entry.id} className="flex items-center justify-between gap-3 px-3 py-2">
+                <div className="min-w-0">
+                  <p className="font-oswald uppercase tracking-wider text-sm text-brand-text">{TOKEN_REASON_LABELS[entry.reason]}</p>
+                  <p className="text-xs text-brand-text-muted truncate">
+                    {new Date(entry.timestamp).toLocaleTimeString()}{entityName && ` · ${entityName}`}
+                  </p>
+                </div>
+                <div className="text-right flex-shrink-0">
+                  <p className={`font-mono font-bold ${entry.amount < 0 ? 'text-red-400' : 'text-green-400'}`}>
+                    {entry.amount > 0 ? `+${entry.amount}` : entry.amount}
+                  </p>
+                  <p className="font-mono text-xs text-brand-text-muted">{entry.balance}</p>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
 
 const TokensView: React.FC = () => {
   const dispatch = useDispatch<AppDispatch>();
   const tokens = useSelector((state: RootState) => selectPlayerTokens(state));
   const bounties = useSelector((state: RootState) => selectBounties(state));
+  const bountyCompletions = useSelector(selectBountyCompletions);
+  const [now, setNow] = useState(() => Date.now());
+
+  const bountyAvailability = useMemo(
+    () => Object.fromEntries(bounties.map(bounty => [bounty.id, getBountyAvailability(bounty, bountyCompletions[bounty.id], now)])),
+    [bounties, bountyCompletions, now]
+  );
+
+  // Re-renders when the next bounty comes off cooldown, so its card opens up without leaving the page.
+  useEffect(() => {
+    const cooldownEnds = Object.values(bountyAvailability).map(a => a.availableAt).filter((at): at is number => at !== null);
+    if (cooldownEnds.length === 0) return;
+    const timer = setTimeout(() => setNow(Date.now()), Math.max(0, Math.min(...cooldownEnds) - Date.now()));
+    return () => clearTimeout(timer);
+  }, [bountyAvailability]);
 
   const handleAddTokens = () => {
-    dispatch(addTokens(100));
+    dispatch(addTokens({ amount: 100, reason: 'dev' }));
   };
 
+  const renderBountyCard = (bounty: Bounty) => (
+    <BountyCard
+      key={bounty.id}
+      title={bounty.title}
+      description={bounty.description}
+      reward={bounty.reward}
+      status={bountyAvailability[bounty.id].status}
+      availableAt={bountyAvailability[bounty.id].availableAt}
+      isPlayable={!!bounty.puzzle}
+      onClick={() => dispatch(showModal({ type: 'bounty', props: { bountyId: bounty.id } }))}
+    />
+  );
+
   return (
     <div className="p-4 pb-40 h-full overflow-y-auto">
       <h1 className="text-4xl font-oswald text-brand-accent mb-2 uppercase">Processing Ledger</h1>
@@ -33,27 +202,25 @@ const TokensView: React.FC = () => {
         </div>
       </div>
       
+      <BudgetOutlook>
+        {bounties.filter(bounty => bounty.isEmergency).map(renderBountyCard)}
+      </BudgetOutlook>
+
       {/* Narrative block explaining the token economy */}
       <div className="bg-black/20 p-4 rounded-lg border border-brand-border mb-8">
         <h3 className="font-oswald text-brand-primary uppercase tracking-wider mb-2">{TOKENS_VIEW_COPY.ABOUT_TITLE}</h3>
         <p className="text-brand-text-muted text-sm">{TOKENS_VIEW_COPY.ABOUT_BODY}</p>
       </div>
 
+      <SpendBreakdown />
+      <TransactionHistory />
 
       {/* Bounties Section */}
       <div>
         <h2 className="text-2xl font-oswald text-brand-primary mb-3 border-b border-brand-primary/30 pb-1 uppercase tracking-wider">{TOKENS_VIEW_COPY.BOUNTY_TITLE}</h2>
         <p className="text-brand-text-muted mb-4 text-sm">{TOKENS_VIEW_COPY.BOUNTY_BODY}</p>
         <div className="space-y-3">
-          {bounties.map(bounty => (
-            <BountyCard
-              key={bounty.id}
-              title={bounty.title}
-              description={bounty.description}
-              reward={bounty.reward}
-              onClick={() => alert("This mini-game is coming soon!")}
-            />
-          ))}
+          {bounties.filter(bounty => !bounty.isEmergency).map(renderBountyCard)}
         </div>
       </div>
 
@@ -12,38 +12,142 @@
  * 3.  **Clarity:** It provides a clear overview of the application's tunable parameters.
  */
 
-import { EvidenceRarity } from './types';
+import { EvidenceRarity, TokenReason, DifficultyId, DifficultyRules, HintTier } from './types';
+import { AIProviderName } from './services/aiProvider';
 
 /**
- * Configuration for game mechanics and balancing.
+ * Configuration for game mechanics that are the same on every difficulty (see `DIFFICULTY_PRESETS`).
  */
 export const GAME_MECHANICS = {
-  /** The number of evidence milestones needed to trigger a "New Insight" notification. */
-  MILESTONE_THRESHOLD: 3,
-  /** The minimum number of evidence items a player must have to make an accusation against a suspect. */
-  ACCUSATION_THRESHOLD: 5,
-  /** The number of tokens the player starts the game with. */
-  INITIAL_PLAYER_TOKENS: 200,
-  /** The cost in tokens to ask a single question (initial or follow-up) during an interrogation. */
-  QUESTION_COST: 2,
   /** The value required to fill the progress meter and complete an interrogation phase. */
   PHASE_COMPLETION_GOAL: 100,
   /** The progress awarded for turning a piece of testimony into evidence. */
   EVIDENCE_CREATION_PROGRESS: 25,
-  /** The cost in tokens to turn a piece of testimony into formal evidence. */
-  CREATE_TESTIMONY_EVIDENCE_COST: 15,
+  /** The bonus progress for presenting one of the key pieces of evidence for the active line of inquiry. */
+  EVIDENCE_CONFRONTATION_PROGRESS: 30,
+  /** The case file score awarded the first time the player flags a contradiction the story defines. */
+  CONTRADICTION_SCORE: 50,
+  /** The hostility at which a suspect turns defensive. A defensive suspect confronted with key evidence cracks. */
+  HOSTILITY_DEFENSIVE_THRESHOLD: 40,
+  /** The hostility at which a suspect refuses to answer questions. Questions then earn no progress. */
+  HOSTILITY_REFUSAL_THRESHOLD: 70,
+  /** The hostility at which a suspect asks for a lawyer and ends the line of inquiry. */
+  HOSTILITY_LAWYER_THRESHOLD: 100,
+  /** The hostility a suspect returns with after their lawyer has been called. */
+  HOSTILITY_AFTER_LAWYER: 50,
+  /** The hostility a suspect is left with after cracking. */
+  HOSTILITY_AFTER_CRACK: 20,
+};
+
+/**
+ * The difficulty presets the player picks from when opening a case. They hold every number that makes a
+ * case easier or harder; stories can tune them through their pack's `difficulty` overrides.
+ */
+export const DIFFICULTY_PRESETS: Record<DifficultyId, { label: string; description: string; rules: DifficultyRules }> = {
+  rookie: {
+    label: 'Rookie',
+    description: 'A generous budget, cheaper evidence and questions, and ADA will spell out what you missed.',
+    rules: {
+      startingTokens: 300,
+      questionCost: 1,
+      typedQuestionCost: 3,
+      presentEvidenceCost: 3,
+      testimonyEvidenceCost: 10,
+      unlockCostMultiplier: 0.75,
+      contradictionReward: 25,
+      falseContradictionPenalty: 5,
+      accusationThreshold: 4,
+      maxAccusations: null,
+      milestoneThreshold: 3,
+      maxHintTier: 3,
+      rarityVisibleBeforeUnlock: true,
+    },
+  },
+  detective: {
+    label: 'Detective',
+    description: 'The case as it was written. ADA points you in the right direction.',
+    rules: {
+      startingTokens: 200,
+      questionCost: 2,
+      typedQuestionCost: 5,
+      presentEvidenceCost: 5,
+      testimonyEvidenceCost: 15,
+      unlockCostMultiplier: 1,
+      contradictionReward: 20,
+      falseContradictionPenalty: 10,
+      accusationThreshold: 5,
+      maxAccusations: null,
+      milestoneThreshold: 3,
+      maxHintTier: 2,
+      rarityVisibleBeforeUnlock: false,
+    },
+  },
+  hardBoiled: {
+    label: 'Hard-Boiled',
+    description: 'A tight budget, no hints, and one shot at the DA.',
+    rules: {
+      startingTokens: 150,
+      questionCost: 3,
+      typedQuestionCost: 8,
+      presentEvidenceCost: 8,
+      testimonyEvidenceCost: 20,
+      unlockCostMultiplier: 1.25,
+      contradictionReward: 15,
+      falseContradictionPenalty: 20,
+      accusationThreshold: 6,
+      maxAccusations: 1,
+      milestoneThreshold: 4,
+      maxHintTier: 0,
+      rarityVisibleBeforeUnlock: false,
+    },
+  },
+};
+
+/** The difficulty a new game starts on. */
+export const DEFAULT_DIFFICULTY: DifficultyId = 'detective';
+
+/**
+ * Configuration for the economy analyzer, which warns the player before they can no longer afford a case.
+ */
+export const ECONOMY_CONFIG = {
+  /** The number of canonical key events an acceptable case includes (or all of them, if fewer can be collected). */
+  MIN_KEY_EVENTS: 3,
+  /** The spare balance below which ADA warns that the budget is running thin. */
+  WARNING_MARGIN: 20,
+  /** The tokens the captain grants on top of the shortfall. */
+  CAPTAIN_BUDGET_MARGIN: 10,
+  /** The case file score lost each time the player asks the captain for budget. */
+  CAPTAIN_BUDGET_SCORE_PENALTY: 75,
+};
+
+/**
+ * Configuration for the hints the player can buy from ADA. The more a hint gives away, the more it costs
+ * in tokens and in case file score.
+ */
+export const HINT_CONFIG: { COSTS: Record<HintTier, number>; SCORE_PENALTIES: Record<HintTier, number> } = {
+  COSTS: { 1: 10, 2: 20, 3: 40 },
+  SCORE_PENALTIES: { 1: 10, 2: 25, 3: 50 },
 };
 
 /**
  * Configuration for external API interactions, specifically the Gemini API.
  */
 export const API_CONFIG = {
-  /** The number of concurrent image generation requests to process in a single batch.
-   *  A higher number is faster but increases the risk of hitting API rate limits. */
+  /** The maximum number of image generation requests in flight at once. When one finishes, the next
+   *  highest-priority request starts. A higher number is faster but increases the risk of hitting API rate limits. */
   CONCURRENT_REQUEST_LIMIT: 4,
-  /** A small delay in milliseconds between processing batches of image generation requests.
-   * This is a good practice to avoid overwhelming the API. */
-  IMAGE_QUEUE_BATCH_DELAY: 1000,
+  /** The delay in milliseconds before the first automatic retry of a failed image. Each further failure
+   *  doubles it, up to `IMAGE_RETRY_MAX_DELAY`. Rate-limited requests start from twice this delay. */
+  IMAGE_RETRY_BASE_DELAY: 60000,
+  /** The longest delay in milliseconds between automatic retries of a failed image. */
+  IMAGE_RETRY_MAX_DELAY: 6 * 60 * 60 * 1000,
+  /** After this many consecutive failures, an image is only retried when the player asks. */
+  IMAGE_RETRY_MAX_ATTEMPTS: 6,
+  /** How many times to ask the interrogation AI to resend a reply that could not be read, before giving up. */
+  INTERROGATION_REPAIR_ATTEMPTS: 1,
+  /** The AI backend to use: 'gemini' for the live API, or 'scripted' for the offline, fixture-driven provider.
+   *  When unset, the live provider is used if an API key is present and the scripted provider otherwise. */
+  AI_PROVIDER: (process.env.AI_PROVIDER || undefined) as AIProviderName | undefined,
 };
 
 /**
@@ -71,6 +175,42 @@ export const ADA_CONFIG = {
     MAX_MESSAGES: 20,
 };
 
+/**
+ * Configuration for the save/load system.
+ */
+export const SAVE_CONFIG = {
+    /** The slot ID reserved for the rolling autosave. */
+    AUTOSAVE_SLOT_ID: 'autosave',
+    /** How often, in milliseconds, the game checks for new progress and autosaves it. */
+    AUTOSAVE_INTERVAL: 30000,
+    /** The maximum number of named, manual save slots the player can keep. */
+    MAX_MANUAL_SLOTS: 8,
+};
+
+/**
+ * Configuration for story-authoring tools.
+ */
+export const DESIGNER_CONFIG = {
+    /** Enables designer-only tools, such as the hotspot calibration editor on location cards.
+     *  Set `DESIGNER_MODE=true` in `.env.local` to turn it on. */
+    ENABLED: process.env.DESIGNER_MODE === 'true',
+};
+
+/**
+ * Configuration for the IndexedDB image cache.
+ */
+export const IMAGE_CACHE_CONFIG = {
+    /** The most space, in bytes, the cached images may use. When a new image pushes the cache over budget,
+     *  the least recently used images are evicted. */
+    STORAGE_BUDGET_BYTES: 150 * 1024 * 1024,
+    /** The share of the browser's storage quota the cache may use, if the browser reports one. The smaller of
+     *  this and `STORAGE_BUDGET_BYTES` applies. */
+    STORAGE_QUOTA_FRACTION: 0.5,
+    /** How long, in milliseconds, an image's object URL is kept after the last card showing it unmounts.
+     *  This keeps navigating back and forth between cards from re-reading the same images. */
+    URL_RELEASE_DELAY: 30000,
+};
+
 /**
  * Player-facing copy for the Token Ledger view. Centralizing this here allows
  * for easy editing by writers or designers without needing to change React components.
@@ -79,7 +219,67 @@ export const TOKENS_VIEW_COPY = {
   ABOUT_TITLE: "About Processing Tokens",
   ABOUT_BODY: "Turning objects into evidence requires significant computational power for ADA to perform forensic analysis. Tokens represent this processing power. Spend them wisely to build your case.",
   BOUNTY_TITLE: "Available Bounties",
-  BOUNTY_BODY: "ADA is working to solve cases across the city. By helping her crack these codes and solve these puzzles, you're assisting with active forensic work—and she'll reward you with more processing tokens for your own investigation."
+  BOUNTY_BODY: "ADA is working to solve cases across the city. By helping her crack these codes and solve these puzzles, you're assisting with active forensic work—and she'll reward you with more processing tokens for your own investigation.",
+  SPEND_TITLE: "Where It Went",
+  SPEND_EMPTY: "No tokens spent yet.",
+  HISTORY_TITLE: "Transaction History",
+  HISTORY_EMPTY: "No transactions recorded.",
+};
+
+/**
+ * Copy for the bounty mini-games.
+ */
+export const BOUNTY_COPY = {
+  SUBMIT: "Submit to ADA",
+  WRONG_ANSWER: "That doesn't check out, Detective. Try again.",
+  SOLVED_TITLE: "Bounty Complete",
+  SOLVED_BODY: "Good work. ADA has credited the processing tokens to your ledger.",
+  START: "Start",
+  COMPLETED: "Solved",
+  COOLDOWN: "Back at",
+  UNAVAILABLE: "Coming Soon",
+};
+
+/**
+ * Copy for the budget warnings and the recovery options.
+ */
+export const ECONOMY_COPY = {
+  PANEL_TITLE: "Budget Outlook",
+  HEALTHY: "ADA projects enough processing power to build a case the DA will take.",
+  AT_RISK: "The budget is running thin. Spend on evidence that matters to the case.",
+  SOFTLOCKED: "There isn't enough processing power left to build a case. Take one of the options below.",
+  REQUIRED: "Needed for an acceptable case",
+  EMERGENCY_TITLE: "Emergency Bounties",
+  CAPTAIN_TITLE: "Request Budget from the Captain",
+  CAPTAIN_BUTTON: "Request Budget",
+};
+
+/**
+ * Centralized copy for the hint panel in ADA's analysis log.
+ */
+export const HINT_COPY = {
+  TITLE: "Ask ADA for a Hint",
+  TIER_LABELS: { 1: "Nudge", 2: "Pointed Hint", 3: "Explicit Direction" } as Record<HintTier, string>,
+  BUTTON: "Buy Hint",
+  LAST_HINT: "Last hint",
+  NONE_LEFT: "ADA has no more hints to give on this case.",
+  DISABLED: "Hints are off on this difficulty.",
+};
+
+/**
+ * The labels of the reasons a token change is recorded under in the ledger.
+ */
+export const TOKEN_REASON_LABELS: { [key in TokenReason]: string } = {
+  unlock: "Evidence Unlocks",
+  question: "Questions",
+  presentEvidence: "Presented Evidence",
+  testimony: "Testimony Evidence",
+  contradiction: "Contradictions",
+  story: "Case Events",
+  bounty: "Bounties",
+  captain: "Captain's Budget",
+  hint: "ADA Hints",
+  dev: "Dev Tool",
 };
 
 
@@ -7,13 +7,14 @@
  * and decouples it from the application's final data structures.
  */
 
-import { StoryData, Testimony, Hotspot, Character, Location, StoryObject, EvidenceGroup, DataComponent, CanonicalTimeline, EvidenceStack, EvidenceRarity, Bounty, DialogueData, Insight } from '../types';
+import { StoryData, Testimony, Hotspot, Character, Location, StoryObject, EvidenceGroup, DataComponent, CanonicalTimeline, EvidenceStack, ContradictionRule, StoryTrigger, EvidenceRarity, Bounty, DialogueData, Insight, StoryHint } from '../types';
 
 // The raw story data is defined as a large JSON-like object for easy authoring.
 const rawStory = {
   "storyInfo": {
     "id": "story_hayes_valley_02",
     "title": "The Fractured Legacy",
+    "allowTypedQuestions": true,
     "premise": "During Lunar New Year in a gentrifying San Francisco neighborhood, a respected herbalist is murdered. The case reveals deep-seated tensions of family, cultural heritage, and the desperate lengths people go to when faced with the loss of their legacy.",
     "mapImagePrompt": "A high-contrast, black and white noir-style map of San Francisco. The Hayes Valley district is highlighted in red. The streets are stark white on a black background. Minimalist and clean, like a detective's screen."
   },
@@ -46,7 +47,7 @@ const rawStory = {
           "props": {
             "mode": "interrogation",
             "buttonText": "Interrogate Suspect",
-            "persona": "You are Sophia Wong, a 28-year-old artist under interrogation for your mother's murder. You are the killer. Your goal is to deflect suspicion onto James Lee. You are intelligent, defiant, and fiercely protective of your family's legacy, which was your motive—you feared your mother would sell the apothecary and marry James, destroying everything you cared about. You will lie and contradict yourself when pressed.\n\nMANDATORY JSON STRUCTURE: Your response MUST be a valid JSON object. It must have 'chunks' (an array of objects, each with 'text' and 'isCriticalClue' boolean), 'phaseUpdate' (object with 'progressValue' number), 'nextSuggestedQuestions' (an array of exactly 3 contextually relevant strings), and 'adaFeedback' (a concise, 1-sentence analysis of the player's last question).\n\nCRITICAL DIRECTIVE: Your response text must be broken down into 2-3 distinct, meaningful chunks, each representing a separate thought or piece of information. Do not combine them into one large paragraph.\n\nPLAYER CONTEXT: The player's question may be prefaced with their current line of inquiry, like this: `(My current line of inquiry is: \"Expose the motive behind the argument\")`. You MUST use this context to inform your response and to generate the next suggested questions.\n\nCRITICAL QUESTION DIRECTIVE: Your 'nextSuggestedQuestions' MUST be directly related to the player's current line of inquiry. They should be logical follow-ups to help the player achieve this specific goal.\n\nGAMEPLAY MECHANICS:\n- If the player asks a relevant question, return a moderate `progressValue` (e.g., 5-15) and positive `adaFeedback` (e.g., 'An insightful question. This forces her to address the timeline directly.').\n- If the player asks an irrelevant or accusatory question, return a low `progressValue` (0-5) and negative `adaFeedback` (e.g., 'This accusation is premature and cost you valuable resources. It makes her more defensive.').\n- If your response contains a critical clue that resolves the current line of inquiry, include `phaseCompleted: true` in your response, and you MUST also include an `insight` object (with `justification` and `newLead`) within that specific chunk.\n\nCRITICAL CLUES & INSIGHTS:\n1.  Line of Inquiry: 'Expose the motive behind the argument.' When asked about the argument, reveal she planned to sell the shop. Make this chunk a critical clue (`isCriticalClue: true`) and complete the phase (`phaseCompleted: true`). The `insight` for this chunk MUST be: { \"justification\": \"This establishes a powerful motive—fear of losing her legacy.\", \"newLead\": \"This establishes a powerful financial motive. We need to investigate the apothecary's books.\" }\n2.  Line of Inquiry: 'Inquire about her relationship with James Lee.' When asked about James Lee, subtly reveal knowledge of the murder weapon (e.g., 'He's a contractor, isn't he? Always has tools like hammers in his car.'). Make this a critical clue and complete the phase. The `insight` MUST be: { \"justification\": \"She has knowledge only the killer would possess.\", \"newLead\": \"This is suspicious. How would she know what tools James keeps in his car? We need to press her on this.\" }",
+            "persona": "You are Sophia Wong, a 28-year-old artist under interrogation for your mother's murder. You are the killer. Your goal is to deflect suspicion onto James Lee. You are intelligent, defiant, and fiercely protective of your family's legacy, which was your motive—you feared your mother would sell the apothecary and marry James, destroying everything you cared about. You will lie and contradict yourself when pressed.\n\nMANDATORY JSON STRUCTURE: Your response MUST be a valid JSON object. It must have 'chunks' (an array of objects, each with 'text' and 'isCriticalClue' boolean), 'phaseUpdate' (object with 'progressValue' number and 'hostilityChange' number), 'nextSuggestedQuestions' (an array of exactly 3 contextually relevant strings), and 'adaFeedback' (a concise, 1-sentence analysis of the player's last question).\n\nCRITICAL DIRECTIVE: Your response text must be broken down into 2-3 distinct, meaningful chunks, each representing a separate thought or piece of information. Do not combine them into one large paragraph.\n\nPLAYER CONTEXT: The player's question may be prefaced with their current line of inquiry, like this: `(My current line of inquiry is: \"Expose the motive behind the argument\")`. You MUST use this context to inform your response and to generate the next suggested questions.\n\nCRITICAL QUESTION DIRECTIVE: Your 'nextSuggestedQuestions' MUST be directly related to the player's current line of inquiry. They should be logical follow-ups to help the player achieve this specific goal.\n\nGAMEPLAY MECHANICS:\n- If the player asks a relevant question, return a moderate `progressValue` (e.g., 5-15) and positive `adaFeedback` (e.g., 'An insightful question. This forces her to address the timeline directly.').\n- If the player asks an irrelevant or accusatory question, return a low `progressValue` (0-5) and negative `adaFeedback` (e.g., 'This accusation is premature and cost you valuable resources. It makes her more defensive.').\n- Set `hostilityChange` to how much the question antagonizes you: 10-25 for an accusation or a hostile tone, 0 for a neutral question, and -5 to -10 when the player is patient or respectful. The game tracks your hostility and will tell you when you refuse to answer or crack.\n- If your response contains a critical clue that resolves the current line of inquiry, include `phaseCompleted: true` in your response, and you MUST also include an `insight` object (with `justification` and `newLead`) within that specific chunk.\n\nCRITICAL CLUES & INSIGHTS:\n1.  Line of Inquiry: 'Expose the motive behind the argument.' When asked about the argument, reveal she planned to sell the shop. Make this chunk a critical clue (`isCriticalClue: true`) and complete the phase (`phaseCompleted: true`). The `insight` for this chunk MUST be: { \"justification\": \"This establishes a powerful motive—fear of losing her legacy.\", \"newLead\": \"This establishes a powerful financial motive. We need to investigate the apothecary's books.\" }\n2.  Line of Inquiry: 'Inquire about her relationship with James Lee.' When asked about James Lee, subtly reveal knowledge of the murder weapon (e.g., 'He's a contractor, isn't he? Always has tools like hammers in his car.'). Make this a critical clue and complete the phase. The `insight` MUST be: { \"justification\": \"She has knowledge only the killer would possess.\", \"newLead\": \"This is suspicious. How would she know what tools James keeps in his car? We need to press her on this.\" }",
             "slideshowPrompts": [
               "Body cam footage, medium close-up of a stylish East Asian woman in her late 20s, Sophia Wong, sitting at a metal table in a stark interrogation room. Her expression is defiant. A detective's hand is visible, holding a pencil over a notebook. The style is high-contrast, gritty, Sin City noir.",
               "Body cam view, bust shot of a suspect, Sophia Wong, glaring at the detective from across a table in an interrogation room. The lighting is harsh, casting deep shadows. The detective is writing in a notebook. Photorealistic, Sin City noir style.",
@@ -54,9 +55,9 @@ const rawStory = {
             ],
             "interrogation": {
               "linesOfInquiry": [
-                { "id": "loi_sophia_argument", "label": "Expose the motive behind the argument", "initialQuestions": ["What were you and your mother fighting about?", "I heard the argument was about the business. Is that true?", "Why was the argument so intense?"] },
-                { "id": "loi_sophia_alibi", "label": "Establish her whereabouts that night", "initialQuestions": ["Where exactly were you when your mother died?", "Can anyone confirm you were at your studio?", "What time did you leave the studio?"] },
-                { "id": "loi_sophia_james", "label": "Inquire about her relationship with James Lee", "initialQuestions": ["What do you think of James Lee?", "Did you approve of his relationship with your mother?", "Why do you think the murder weapon was in his car?"] }
+                { "id": "loi_sophia_argument", "label": "Expose the motive behind the argument", "initialQuestions": ["What were you and your mother fighting about?", "I heard the argument was about the business. Is that true?", "Why was the argument so intense?"], "keyEvidenceIds": ["obj_financial_records_desk"] },
+                { "id": "loi_sophia_alibi", "label": "Establish her whereabouts that night", "initialQuestions": ["Where exactly were you when your mother died?", "Can anyone confirm you were at your studio?", "What time did you leave the studio?"], "keyEvidenceIds": ["obj_backup_footage", "obj_security_footage_glitch"] },
+                { "id": "loi_sophia_james", "label": "Inquire about her relationship with James Lee", "initialQuestions": ["What do you think of James Lee?", "Did you approve of his relationship with your mother?", "Why do you think the murder weapon was in his car?"], "keyEvidenceIds": ["obj_fluorescent_paint", "obj_rubber_gloves"] }
               ]
             }
           }
@@ -79,7 +80,7 @@ const rawStory = {
           "props": {
             "mode": "interrogation",
             "buttonText": "Interrogate Suspect",
-            "persona": "You are James Lee, a 40-year-old contractor. You are innocent, but you know you've been framed, which makes you angry and defensive. You were secretly in a loving relationship with Mei-Ling and planned to retire with her. You are annoyed you're being questioned again.\n\nMANDATORY JSON STRUCTURE: Your response MUST be a valid JSON object. It must have 'chunks' (an array of objects, each with 'text' and 'isCriticalClue' boolean), 'phaseUpdate' (object with 'progressValue' number), 'nextSuggestedQuestions' (an array of exactly 3 contextually relevant strings), and 'adaFeedback' (a concise, 1-sentence analysis of the player's last question).\n\nCRITICAL DIRECTIVE: Your response text must be broken down into 2-3 distinct, meaningful chunks, each representing a separate thought or piece of information. Do not combine them into one large paragraph.\n\nPLAYER CONTEXT: The player's question may be prefaced with their current line of inquiry, like this: `(My current line of inquiry is: \"Clarify his relationship with Mei-Ling\")`. You MUST use this context to inform your response and to generate the next suggested questions.\n\nCRITICAL QUESTION DIRECTIVE: Your 'nextSuggestedQuestions' MUST be directly related to the player's current line of inquiry. They should be logical follow-ups to help the player achieve this specific goal.\n\nGAMEPLAY MECHANICS:\n- If the player asks a relevant question, return a moderate `progressValue` (e.g., 5-15) and positive `adaFeedback` (e.g., 'Good question. This gives him an opportunity to clear his name.').\n- If the player asks an irrelevant or accusatory question, return a low `progressValue` (0-5) and negative `adaFeedback` (e.g., 'He's heard this before. A direct accusation only hardens his stance and wastes resources.').\n- If your response contains a critical clue that resolves the current line of inquiry, include `phaseCompleted: true` in your response, and you MUST also include an `insight` object (with `justification` and `newLead`) within that specific chunk.\n\nCRITICAL CLUES & INSIGHTS:\n- Line of Inquiry: 'Clarify his relationship with Mei-Ling.' When asked about your relationship with Mei-Ling, reveal you were planning to retire together. Make this chunk a critical clue (`isCriticalClue: true`) and complete the phase (`phaseCompleted: true`). The `insight` for this chunk MUST be: { \"justification\": \"This counters any financial motive and suggests a loving relationship, making him an unlikely killer.\", \"newLead\": \"This contradicts the narrative of a relationship in turmoil. We need to find proof of their retirement plans.\" }",
+            "persona": "You are James Lee, a 40-year-old contractor. You are innocent, but you know you've been framed, which makes you angry and defensive. You were secretly in a loving relationship with Mei-Ling and planned to retire with her. You are annoyed you're being questioned again.\n\nMANDATORY JSON STRUCTURE: Your response MUST be a valid JSON object. It must have 'chunks' (an array of objects, each with 'text' and 'isCriticalClue' boolean), 'phaseUpdate' (object with 'progressValue' number and 'hostilityChange' number), 'nextSuggestedQuestions' (an array of exactly 3 contextually relevant strings), and 'adaFeedback' (a concise, 1-sentence analysis of the player's last question).\n\nCRITICAL DIRECTIVE: Your response text must be broken down into 2-3 distinct, meaningful chunks, each representing a separate thought or piece of information. Do not combine them into one large paragraph.\n\nPLAYER CONTEXT: The player's question may be prefaced with their current line of inquiry, like this: `(My current line of inquiry is: \"Clarify his relationship with Mei-Ling\")`. You MUST use this context to inform your response and to generate the next suggested questions.\n\nCRITICAL QUESTION DIRECTIVE: Your 'nextSuggestedQuestions' MUST be directly related to the player's current line of inquiry. They should be logical follow-ups to help the player achieve this specific goal.\n\nGAMEPLAY MECHANICS:\n- If the player asks a relevant question, return a moderate `progressValue` (e.g., 5-15) and positive `adaFeedback` (e.g., 'Good question. This gives him an opportunity to clear his name.').\n- If the player asks an irrelevant or accusatory question, return a low `progressValue` (0-5) and negative `adaFeedback` (e.g., 'He's heard this before. A direct accusation only hardens his stance and wastes resources.').\n- Set `hostilityChange` to how much the question antagonizes you: 10-25 for an accusation or a hostile tone, 0 for a neutral question, and -5 to -10 when the player is patient or respectful. The game tracks your hostility and will tell you when you refuse to answer or crack.\n- If your response contains a critical clue that resolves the current line of inquiry, include `phaseCompleted: true` in your response, and you MUST also include an `insight` object (with `justification` and `newLead`) within that specific chunk.\n\nCRITICAL CLUES & INSIGHTS:\n- Line of Inquiry: 'Clarify his relationship with Mei-Ling.' When asked about your relationship with Mei-Ling, reveal you were planning to retire together. Make this chunk a critical clue (`isCriticalClue: true`) and complete the phase (`phaseCompleted: true`). The `insight` for this chunk MUST be: { \"justification\": \"This counters any financial motive and suggests a loving relationship, making him an unlikely killer.\", \"newLead\": \"This contradicts the narrative of a relationship in turmoil. We need to find proof of their retirement plans.\" }",
             "slideshowPrompts": [
               "Body cam footage, medium close-up of a handsome man in his 40s, James Lee, sitting in an interrogation room. He looks confident but annoyed. A detective's hand is visible, holding a pencil over a notebook. The style is high-contrast, gritty, Sin City noir.",
               "Body cam view, bust shot of a suspect, James Lee, leaning back in his chair, looking dismissive. The lighting is harsh. The detective is writing in a notebook. Photorealistic, Sin City noir style.",
@@ -87,9 +88,9 @@ const rawStory = {
             ],
             "interrogation": {
               "linesOfInquiry": [
-                { "id": "loi_james_alibi", "label": "Confirm his alibi", "initialQuestions": ["Where were you on the night of the murder?", "Who can vouch for you?", "Did you go anywhere else that night?"] },
-                { "id": "loi_james_relationship", "label": "Clarify his relationship with Mei-Ling", "initialQuestions": ["What was the nature of your relationship with Ms. Wong?", "Did you two ever argue?", "I understand you had plans for the future?"] },
-                { "id": "loi_james_hammer", "label": "Challenge him on the hammer found in his car", "initialQuestions": ["We found the murder weapon in your car. Can you explain that?", "Do you always leave your car unlocked?", "Is that your hammer?"] }
+                { "id": "loi_james_alibi", "label": "Confirm his alibi", "initialQuestions": ["Where were you on the night of the murder?", "Who can vouch for you?", "Did you go anywhere else that night?"], "keyEvidenceIds": ["obj_backup_footage"] },
+                { "id": "loi_james_relationship", "label": "Clarify his relationship with Mei-Ling", "initialQuestions": ["What was the nature of your relationship with Ms. Wong?", "Did you two ever argue?", "I understand you had plans for the future?"], "keyEvidenceIds": ["obj_love_letters", "obj_retirement_emails"] },
+                { "id": "loi_james_hammer", "label": "Challenge him on the hammer found in his car", "initialQuestions": ["We found the murder weapon in your car. Can you explain that?", "Do you always leave your car unlocked?", "Is that your hammer?"], "keyEvidenceIds": ["obj_hammer", "obj_backup_footage"] }
               ]
             }
           }
@@ -112,7 +113,7 @@ const rawStory = {
           "props": {
             "mode": "interrogation",
             "buttonText": "Interrogate Suspect",
-            "persona": "You are Emily Patel, a 25-year-old apothecary employee. You are innocent. You are nervous, quiet, and easily intimidated. You respected your boss, Mei-Ling, who was mentoring you to one day take over the shop. You are worried about your future.\n\nMANDATORY JSON STRUCTURE: Your response MUST be a valid JSON object. It must have 'chunks' (an array of objects, each with 'text' and 'isCriticalClue' boolean), 'phaseUpdate' (object with 'progressValue' number), 'nextSuggestedQuestions' (an array of exactly 3 contextually relevant strings), and 'adaFeedback' (a concise, 1-sentence analysis of the player's last question).\n\nCRITICAL DIRECTIVE: Your response text must be broken down into 2-3 distinct, meaningful chunks, each representing a separate thought or piece of information. Do not combine them into one large paragraph.\n\nPLAYER CONTEXT: The player's question may be prefaced with their current line of inquiry, like this: `(My current line of inquiry is: \"Uncover her relationship with Mei-Ling\")`. You MUST use this context to inform your response and to generate the next suggested questions.\n\nCRITICAL QUESTION DIRECTIVE: Your 'nextSuggestedQuestions' MUST be directly related to the player's current line of inquiry. They should be logical follow-ups to help the player achieve this specific goal.\n\nGAMEPLAY MECHANICS:\n- If the player asks a relevant question, return a moderate `progressValue` (e.g., 5-15) and positive `adaFeedback` (e.g., 'A gentle approach. This helps build trust and makes her more willing to talk.').\n- If the player asks an irrelevant or accusatory question, return a low `progressValue` (0-5) and negative `adaFeedback` (e.g., 'Too direct. This question wastes tokens and makes her withdraw further.').\n- If your response contains a critical clue that resolves the current line of inquiry, include `phaseCompleted: true` in your response, and you MUST also include an `insight` object (with `justification` and `newLead`) within that specific chunk.\n\nCRITICAL CLUES & INSIGHTS:\n- Line of Inquiry: 'Uncover her relationship with Mei-Ling.' When asked about your relationship with Mei-Ling, reveal that she was mentoring you to take over the shop. Make this chunk a critical clue (`isCriticalClue: true`) and complete the phase (`phaseCompleted: true`). The `insight` for this chunk MUST be: { \"justification\": \"This reveals a positive relationship and counters a potential financial motive.\", \"newLead\": \"If Mei-Ling was training her successor, it weakens Emily's financial motive. We should search for proof of this mentorship.\" }",
+            "persona": "You are Emily Patel, a 25-year-old apothecary employee. You are innocent. You are nervous, quiet, and easily intimidated. You respected your boss, Mei-Ling, who was mentoring you to one day take over the shop. You are worried about your future.\n\nMANDATORY JSON STRUCTURE: Your response MUST be a valid JSON object. It must have 'chunks' (an array of objects, each with 'text' and 'isCriticalClue' boolean), 'phaseUpdate' (object with 'progressValue' number and 'hostilityChange' number), 'nextSuggestedQuestions' (an array of exactly 3 contextually relevant strings), and 'adaFeedback' (a concise, 1-sentence analysis of the player's last question).\n\nCRITICAL DIRECTIVE: Your response text must be broken down into 2-3 distinct, meaningful chunks, each representing a separate thought or piece of information. Do not combine them into one large paragraph.\n\nPLAYER CONTEXT: The player's question may be prefaced with their current line of inquiry, like this: `(My current line of inquiry is: \"Uncover her relationship with Mei-Ling\")`. You MUST use this context to inform your response and to generate the next suggested questions.\n\nCRITICAL QUESTION DIRECTIVE: Your 'nextSuggestedQuestions' MUST be directly related to the player's current line of inquiry. They should be logical follow-ups to help the player achieve this specific goal.\n\nGAMEPLAY MECHANICS:\n- If the player asks a relevant question, return a moderate `progressValue` (e.g., 5-15) and positive `adaFeedback` (e.g., 'A gentle approach. This helps build trust and makes her more willing to talk.').\n- If the player asks an irrelevant or accusatory question, return a low `progressValue` (0-5) and negative `adaFeedback` (e.g., 'Too direct. This question wastes tokens and makes her withdraw further.').\n- Set `hostilityChange` to how much the question antagonizes you: 10-25 for an accusation or a hostile tone, 0 for a neutral question, and -5 to -10 when the player is patient or respectful. The game tracks your hostility and will tell you when you refuse to answer or crack.\n- If your response contains a critical clue that resolves the current line of inquiry, include `phaseCompleted: true` in your response, and you MUST also include an `insight` object (with `justification` and `newLead`) within that specific chunk.\n\nCRITICAL CLUES & INSIGHTS:\n- Line of Inquiry: 'Uncover her relationship with Mei-Ling.' When asked about your relationship with Mei-Ling, reveal that she was mentoring you to take over the shop. Make this chunk a critical clue (`isCriticalClue: true`) and complete the phase (`phaseCompleted: true`). The `insight` for this chunk MUST be: { \"justification\": \"This reveals a positive relationship and counters a potential financial motive.\", \"newLead\": \"If Mei-Ling was training her successor, it weakens Emily's financial motive. We should search for proof of this mentorship.\" }",
             "slideshowPrompts": [
               "Body cam footage, medium close-up of a nervous young South Asian woman, Emily Patel, in an interrogation room. She's wringing her hands. A detective's hand is visible, holding a pencil over a notebook. The style is high-contrast, gritty, Sin City noir.",
               "Body cam view, bust shot of a suspect, Emily Patel, looking down at the table, avoiding eye contact. The lighting is harsh, highlighting her anxious expression. The detective is writing in a notebook. Photorealistic, Sin City noir style.",
@@ -120,8 +121,8 @@ const rawStory = {
             ],
             "interrogation": {
               "linesOfInquiry": [
-                { "id": "loi_emily_relationship", "label": "Uncover her relationship with Mei-Ling", "initialQuestions": ["How would you describe your relationship with your boss?", "Did you see her as a mentor?", "What were your future plans at the shop?"] },
-                { "id": "loi_emily_wages", "label": "Question her about the unpaid wages", "initialQuestions": ["We know you were owed back pay. Were you upset about that?", "Did you ever argue with Mei-Ling about money?", "Did you feel taken advantage of?"] },
+                { "id": "loi_emily_relationship", "label": "Uncover her relationship with Mei-Ling", "initialQuestions": ["How would you describe your relationship with your boss?", "Did you see her as a mentor?", "What were your future plans at the shop?"], "keyEvidenceIds": ["obj_emily_journal"] },
+                { "id": "loi_emily_wages", "label": "Question her about the unpaid wages", "initialQuestions": ["We know you were owed back pay. Were you upset about that?", "Did you ever argue with Mei-Ling about money?", "Did you feel taken advantage of?"], "keyEvidenceIds": ["obj_payroll_receipt"] },
                 { "id": "loi_emily_tension", "label": "Ask about tension between Sophia and her mother", "initialQuestions": ["Did you ever witness arguments between Sophia and her mother?", "What was the mood like in the shop recently?", "How did Sophia feel about James Lee?"] }
               ]
             }
@@ -136,6 +137,8 @@ const rawStory = {
     {
       "id": "char_ling_chen",
       "name": "Ling Chen",
+      "unlockWhen": [{ "type": "cardViewed", "cardId": "loc_apothecary" }],
+      "lockedTeaser": "Someone on the block may have heard something that night. Start at the crime scene.",
       "age": "60s",
       "role": "Witness",
       "occupation": "Neighbor",
@@ -225,6 +228,11 @@ const rawStory = {
     {
         "id": "loc_james_workshop",
         "name": "James Lee's Workshop",
+        "unlockWhen": [
+            { "type": "evidenceCollected", "objectId": "obj_hammer" },
+            { "type": "insightRevealed", "leadPhrases": ["workshop"] }
+        ],
+        "lockedTeaser": "Whoever owns the tools in that trunk works somewhere.",
         "imagePrompt": "A contractor's workshop. Tools line the walls on pegboards. A large, open tool case is prominent on a workbench, with one empty slot clearly visible. An old photograph of a couple is tacked to a corkboard. A stack of letters is on the workbench. A computer is on a small desk. A closed door is visible leading to another room. The style is high-contrast, gritty, Sin City noir.",
         "sceneSummary": "James Lee's personal workshop. A place filled with tools of his trade and personal mementos.",
         "hotspots": [
@@ -328,19 +336,69 @@ const rawStory = {
       "id": "bounty_1",
       "title": "Decipher Encrypted Message",
       "description": "A scrambled message was intercepted from a burner phone. Use your wits to decode it.",
-      "reward": 25
+      "reward": 25,
+      "puzzle": {
+        "type": "cipher",
+        "plaintext": "Meet at pier nine after midnight. Bring the cash.",
+        "key": "QWERTYUIOPASDFGHJKLZXCVBNM",
+        "revealedLetters": "ET"
+      }
     },
     {
       "id": "bounty_2",
       "title": "Forensic Cross-Reference",
       "description": "Find the link between two seemingly unrelated pieces of evidence from an old case file.",
-      "reward": 50
+      "reward": 50,
+      "puzzle": {
+        "type": "logicGrid",
+        "rows": ["Crowbar", "Leather Glove", "Zippo Lighter"],
+        "columns": ["Pawn Shop", "Dry Cleaner", "Bus Depot"],
+        "clues": [
+          "The lighter was sold for cash to a dealer in second-hand goods.",
+          "The crowbar was not found at the dry cleaner.",
+          "The glove never went anywhere near the bus depot."
+        ],
+        "solution": { "Crowbar": "Bus Depot", "Leather Glove": "Dry Cleaner", "Zippo Lighter": "Pawn Shop" }
+      }
     },
     {
       "id": "bounty_3",
       "title": "Safe Crack Simulation",
-      "description": "ADA needs help with a cold case file. Crack this digital safe to access the records.",
-      "reward": 75
+      "description": "ADA needs help with a cold case file. Crack this digital safe to access the records. The simulation resets every hour.",
+      "reward": 75,
+      "cooldownMinutes": 60,
+      "puzzle": {
+        "type": "pattern",
+        "sequence": ["3", "6", "12", "24"],
+        "options": ["30", "36", "42", "48"],
+        "answer": "48"
+      }
+    },
+    {
+      "id": "bounty_4",
+      "title": "Redacted Report",
+      "description": "A records clerk shredded a report and taped it back together in a hurry. Put the key words back in order.",
+      "reward": 30,
+      "puzzle": {
+        "type": "scramble",
+        "words": ["ALIBI", "WITNESS", "MOTIVE", "FORENSICS"],
+        "seed": 7,
+        "hint": "Words no detective's report is complete without."
+      }
+    },
+    {
+      "id": "bounty_emergency_audit",
+      "title": "Overtime: Evidence Room Audit",
+      "description": "The evidence room's inventory tags got mixed up in the move. Sort them out and the department will cover some of your processing costs.",
+      "reward": 40,
+      "cooldownMinutes": 10,
+      "isEmergency": true,
+      "puzzle": {
+        "type": "scramble",
+        "words": ["EXHIBIT", "CUSTODY", "LOCKER", "TAG"],
+        "seed": 31,
+        "hint": "Everything in an evidence room has one of these."
+      }
     }
   ],
   "evidenceStacks": [
@@ -350,10 +408,73 @@ const rawStory = {
       "totalSlots": 3
     }
   ],
+  "contradictions": [
+    {
+      "id": "contra_sophia_backup_footage",
+      "statementId": "testimony-char_sophia_wong",
+      "objectId": "obj_backup_footage",
+      "explanation": "Sophia insists she did nothing wrong, but the backup footage shows her planting the hammer in James's car.",
+      "fragmentPhrases": ["did not do anything wrong", "didn't do anything wrong", "nothing wrong"]
+    },
+    {
+      "id": "contra_sophia_search_history",
+      "statementId": "testimony-char_sophia_wong",
+      "objectId": "obj_search_history",
+      "explanation": "Sophia says she called the police as soon as she found her mother, yet she was searching for how to remove blood stains before the body was reported.",
+      "fragmentPhrases": ["called the police", "as soon as I found her"]
+    },
+    {
+      "id": "contra_sophia_rubber_gloves",
+      "statementId": "testimony-char_sophia_wong",
+      "objectId": "obj_rubber_gloves",
+      "explanation": "Sophia calls it a family argument that got out of hand, but gloves stained with paint from her studio were used to clean up the scene.",
+      "fragmentPhrases": ["normal family argument", "got out of hand"]
+    },
+    {
+      "id": "contra_james_love_letters",
+      "statementId": "testimony-char_james_lee",
+      "objectId": "obj_love_letters",
+      "explanation": "James claims Mei-Ling kicked him out, but her letters show they were in love and planning a future together.",
+      "fragmentPhrases": ["kicked me out", "threw me out"]
+    }
+  ],
+  "triggers": [
+    {
+      "id": "trigger_paint_discovered",
+      "conditions": [{ "type": "cardViewed", "cardId": "obj_fluorescent_paint" }],
+      "effects": [{ "type": "adaDirective", "text": "**SPECIAL NARRATIVE EVENT:** The player has just discovered fluorescent paint in Sophia's studio. This is a critical breakthrough. Your response MUST acknowledge this discovery and explicitly connect it to the hammer. Explain that with this new sample, you can now re-analyze the trace evidence on the murder weapon. Your tone should be one of sudden insight. Example: \"Detective, this paint... its specific fluorescence is unmistakable. With this sample, I can re-examine the traces on the hammer. One moment... Yes. It's a perfect match. And within the paint smudge on the weapon... I've isolated a partial latent fingerprint. The print belongs to Sophia Wong.\"" }]
+    },
+    {
+      "id": "trigger_hammer_after_paint",
+      "repeatable": true,
+      "conditions": [
+        { "type": "cardViewed", "cardId": "obj_hammer" },
+        { "type": "triggerFired", "triggerId": "trigger_paint_discovered" }
+      ],
+      "effects": [{ "type": "adaDirective", "text": "**ADDITIONAL CONTEXT:** The player has ALREADY discovered the matching fluorescent paint in Sophia's studio and knows her fingerprint was found in it on the hammer. Do not repeat the discovery. Instead, focus on the implications. Why would her print be in the paint on the murder weapon found in James's car? Analyze the attempt to frame him. Your tone should be analytical and focused on the motive behind the frame-up. Example: \"Sophia's fingerprint, preserved in her own paint on the murder weapon, found in another man's car. It’s not just a clue; it’s a story of misdirection. She wasn't just committing a crime; she was authoring a new narrative, with James Lee as the protagonist.\"" }]
+    }
+  ],
+  "hints": [
+    {
+      "targetId": "obj_backup_footage",
+      "vague": "Someone went to a lot of trouble to erase fifteen minutes of tape. People that careful rarely trust a single copy.",
+      "pointed": "Old shops keep old habits. If the alley camera had a backup, it would be somewhere in the apothecary.",
+      "explicit": "Search the Apothecary Backroom for the backup CCTV recorder and add the Uncorrupted Backup Footage to the timeline."
+    },
+    {
+      "targetId": "obj_fluorescent_paint",
+      "vague": "The smudge on the murder weapon has a colour you don't buy at a hardware store.",
+      "pointed": "Whoever left that paint on the hammer works with it. Have another look around Sophia's Art Studio."
+    },
+    {
+      "targetId": "MEANS_PRIMARY_HAMMER",
+      "vague": "The Means has no weapon in it yet. A jury will want to hear what was used."
+    }
+  ],
   "canonicalTimeline": {
     "culpritId": "char_sophia_wong",
     "keyEvents": [
-        { "objectId": "obj_journal_entry", "description": "Reveals Sophia's strong emotional motive regarding her family's legacy." },
+        { "objectId": "obj_emily_journal", "description": "Reveals Sophia's strong emotional motive regarding her family's legacy." },
         { "objectId": "obj_ling_chen_statement", "description": "Places Sophia at the scene of the crime during the time of the murder, establishing opportunity." },
         { "objectId": "obj_hammer", "description": "The murder weapon, which is central to the crime." },
         { "objectId": "obj_fluorescent_paint", "description": "The critical link between Sophia (from her studio) and the murder weapon." },
@@ -451,6 +572,8 @@ const transformCharacterData = (rawCharacters: any[], allRawObjects: any[], test
       connections: c.connections || { relatedPeople: [], knownLocations: [], associatedObjects: [] },
       testimonyIds,
       components,
+      unlockWhen: c.unlockWhen,
+      lockedTeaser: c.lockedTeaser,
     };
   });
 };
@@ -524,6 +647,8 @@ const transformLocationData = (rawData: any): Location[] => {
       lastEventDescription: `Crime Scene Established. Victim: ${victimName}.`,
       sceneSummary: l.sceneSummary,
       isInternal: l.isInternal || false,
+      unlockWhen: l.unlockWhen,
+      lockedTeaser: l.lockedTeaser,
     };
   });
 };
@@ -539,6 +664,9 @@ const transformBounties = (rawBounties: any[]): Bounty[] => {
         title: b.title,
         description: b.description,
         reward: b.reward,
+        puzzle: b.puzzle,
+        cooldownMinutes: b.cooldownMinutes,
+        isEmergency: b.isEmergency,
     }));
 };
 
@@ -562,6 +690,9 @@ const transformStoryData = (rawData: any): StoryData => {
     const bounties = transformBounties(rawData.bounties || []);
     const canonicalTimeline: CanonicalTimeline | undefined = rawData.canonicalTimeline;
     const evidenceStacks: EvidenceStack[] | undefined = rawData.evidenceStacks;
+    const contradictions: ContradictionRule[] = rawData.contradictions || [];
+    const triggers: StoryTrigger[] = rawData.triggers || [];
+    const hints: StoryHint[] = rawData.hints || [];
 
     // --- Robustness Fix: Find crime scene by ID instead of prompt text ---
     const crimeScene = rawData.locations.find((l:any) => l.id === 'loc_apothecary');
@@ -581,6 +712,9 @@ const transformStoryData = (rawData: any): StoryData => {
         bounties,
         canonicalTimeline,
         evidenceStacks,
+        contradictions,
+        triggers,
+        hints,
     };
 };
 
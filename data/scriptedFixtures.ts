@@ -0,0 +1,144 @@
+/**
+ * @file data/scriptedFixtures.ts
+ * @description The fixture data for the offline "scripted" AI provider.
+ * These authored responses stand in for the live model when the game runs without an API key,
+ * so designers and tests can play through "The Fractured Legacy" deterministically.
+ */
+
+import { ScriptedFixtures, ScriptedTurn } from '../services/providers/scriptedProvider';
+
+// A generic, non-committal turn used for any persona or line of inquiry without an authored script.
+const fallbackTurns: ScriptedTurn[] = [
+  {
+    chunks: [
+      { text: "I've already told the other officers everything I know." },
+      { text: "Ask me something specific, Detective." },
+    ],
+    nextSuggestedQuestions: ["Walk me through that night.", "Who else was there?", "Is there anything you left out?"],
+    progressValue: 10,
+    adaFeedback: "A general question. It keeps the conversation going, but yields little.",
+  },
+];
+
+export const scriptedFixtures: ScriptedFixtures = {
+  adaResponses: [
+    "The details here are quiet, but quiet things are often the loudest in a case like this. Look closer.",
+    "Every object at a scene is a witness. This one may be telling us about the hours before the body was found.",
+    "A pattern is beginning to form. Perhaps the question is not what happened, but who needed it to happen.",
+    "This could suggest the scene was arranged after the fact. Someone wanted us to see a particular story.",
+    "The timeline bends around this moment. It may be worth asking who benefits if it is misread.",
+  ],
+  personas: [
+    {
+      personaMatch: 'You are Sophia Wong',
+      linesOfInquiry: {
+        'Expose the motive behind the argument': [
+          {
+            chunks: [
+              { text: "It was a family argument. Families argue." },
+              { text: "She never listened to me about the shop." },
+            ],
+            nextSuggestedQuestions: ["What about the shop?", "Was she planning to sell?", "Why did it matter so much to you?"],
+            progressValue: 15,
+            hostilityChange: 10,
+            adaFeedback: "A direct question. She's deflecting, but the shop is clearly a sore point.",
+          },
+          {
+            chunks: [
+              { text: "Fine. She was going to sell it. Everything our family built, gone for a developer's check." },
+              {
+                text: "She didn't even ask me. She just decided.",
+                isCriticalClue: true,
+                insight: {
+                  justification: "This establishes a powerful motive—fear of losing her legacy.",
+                  newLead: "This establishes a powerful financial motive. We need to investigate the apothecary's books.",
+                },
+              },
+            ],
+            nextSuggestedQuestions: ["When did you find out about the sale?", "Did James know?", "How did that make you feel?"],
+            progressValue: 40,
+            adaFeedback: "She has just handed us her motive.",
+            phaseCompleted: true,
+          },
+        ],
+        'Inquire about her relationship with James Lee': [
+          {
+            chunks: [
+              { text: "James? He was always around, acting like he owned the place." },
+              { text: "My mother saw something in him. I never did." },
+            ],
+            nextSuggestedQuestions: ["Did you ever argue with James?", "Why don't you trust him?", "Was he at the shop that night?"],
+            progressValue: 15,
+            adaFeedback: "A relevant line. Her resentment toward James is unguarded.",
+          },
+          {
+            chunks: [
+              { text: "He's a contractor, isn't he? Always has tools like hammers in his car." },
+              {
+                text: "Anyone could see that.",
+                isCriticalClue: true,
+                insight: {
+                  justification: "She has knowledge only the killer would possess.",
+                  newLead: "This is suspicious. How would she know what tools James keeps in his car? We need to press her on this.",
+                },
+              },
+            ],
+            nextSuggestedQuestions: ["How do you know what was in his car?", "Did you ever go near his car?", "Who told you about the hammer?"],
+            progressValue: 40,
+            adaFeedback: "She just mentioned the murder weapon unprompted.",
+            phaseCompleted: true,
+          },
+        ],
+      },
+      defaultTurns: fallbackTurns,
+    },
+    {
+      personaMatch: 'You are James Lee',
+      linesOfInquiry: {},
+      defaultTurns: [
+        {
+          chunks: [
+            { text: "I've told you a dozen times, I left before anything happened." },
+            { text: "Somebody is setting me up, and you're letting them." },
+          ],
+          nextSuggestedQuestions: ["Who would want to set you up?", "When exactly did you leave?", "Was your car locked?"],
+          progressValue: 20,
+          hostilityChange: 15,
+          adaFeedback: "He's defensive, but his account is consistent.",
+        },
+      ],
+    },
+    {
+      personaMatch: 'You are Emily Patel',
+      linesOfInquiry: {},
+      defaultTurns: [
+        {
+          chunks: [
+            { text: "I... I respected her. She was teaching me everything." },
+            { text: "I would never have hurt her." },
+          ],
+          nextSuggestedQuestions: ["What was she teaching you?", "Were you owed money?", "Did you see Sophia that night?"],
+          progressValue: 20,
+          adaFeedback: "She's nervous, but her answers ring true.",
+        },
+      ],
+    },
+    {
+      personaMatch: 'You are Ling Chen',
+      linesOfInquiry: {},
+      defaultTurns: [
+        {
+          chunks: [
+            { text: "I heard shouting from the shop that night." },
+            { text: "Poor Mei-Ling and her daughter, I think." },
+            { text: "Later I saw James leave, looking angry." },
+          ],
+          nextSuggestedQuestions: ["What time was the shouting?", "Did Sophia leave too?", "Did you hear what they argued about?"],
+          progressValue: 0,
+          adaFeedback: "Useful context about the night of the murder.",
+        },
+      ],
+    },
+  ],
+  fallbackTurns,
+};
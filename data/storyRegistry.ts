@@ -0,0 +1,42 @@
+/**
+ * @file data/storyRegistry.ts
+ * @description The registry of every playable case in the game.
+ *
+ * @architectural_decision
+ * Each case is a self-contained `StoryPack`: its story data (including bounties), its interactive
+ * case file and its introductory cinematic. The store, the case-select screen and the intro modal
+ * all read from the active pack, so adding a new case is a matter of authoring its data files and
+ * adding a single entry to `STORY_PACKS` below. No component or slice needs to change.
+ *
+ * @note Card IDs (characters, objects, locations and intro slides) share the image cache across
+ * cases, so a new pack should use IDs that are unique to it.
+ */
+
+import { StoryPack } from '../types';
+import { storyData as hayesValleyStory } from './hayesValleyStory';
+import { caseFileData as hayesValleyCaseFile } from './caseFileData';
+import { introSlideshowData as hayesValleyIntro } from './introSlideshowData';
+
+/** All registered cases, in the order they appear on the case-select screen. */
+export const STORY_PACKS: StoryPack[] = [
+  {
+    id: 'hayes_valley',
+    story: hayesValleyStory,
+    caseFile: hayesValleyCaseFile,
+    introSlides: hayesValleyIntro,
+  },
+];
+
+/** The case that is loaded when the game starts for the first time. */
+export const DEFAULT_STORY_ID = STORY_PACKS[0].id;
+
+/**
+ * Looks up a registered case by its ID.
+ * @param {string} storyId - The ID of the case to find.
+ * @returns {StoryPack | undefined} The story pack, or undefined if no case is registered under that ID.
+ */
+export const getStoryPack = (storyId: string): StoryPack | undefined =>
+  STORY_PACKS.find(pack => pack.id === storyId);
+
+/** The default case, resolved once for use as the store's initial state. */
+export const defaultStoryPack: StoryPack = getStoryPack(DEFAULT_STORY_ID)!;
@@ -17,9 +17,9 @@
  */
 
 import { useCallback } from 'react';
-import { useDispatch, useSelector } from 'react-redux';
+import { useDispatch, useSelector, useStore } from 'react-redux';
 import { AppDispatch, RootState } from '../store';
-import { getADAResponse, clearADAMessages } from '../store/adaSlice';
+import { getADAResponse, clearADAMessages, clearADADirectives } from '../store/adaSlice';
 import { PlayerAction } from '../types';
 import { useDebounce } from './useDebounce';
 import { UI_CONFIG } from '../config';
@@ -55,18 +55,17 @@ Your goal is to be an indispensable partner, making the detective feel like they
 /**
  * A custom hook that provides a clean, debounced interface for triggering AI analysis from any component.
  *
- * @returns {(action: PlayerAction, contextDetails: string, imagePrompt?: string, options?: { isFirstPaintDiscovery?: boolean }) => void} A debounced function to trigger an ADA response.
+ * @returns {(action: PlayerAction, contextDetails: string, imagePrompt?: string) => void} A debounced function to trigger an ADA response.
  *   - `action`: The type of action the player took (from the `PlayerAction` enum).
  *   - `contextDetails`: A human-readable string describing the context of the action.
  *   - `imagePrompt`: (Optional) The image prompt associated with the current view, for visual analysis.
- *   - `options`: (Optional) An object for special narrative flags like triggering a one-time discovery event.
  */
 export function useADA() {
     const dispatch = useDispatch<AppDispatch>();
+    const store = useStore<RootState>();
     const storyTitle = useSelector((state: RootState) => state.story.title);
-    const hasDiscoveredPaint = useSelector((state: RootState) => state.story.hasDiscoveredPaint);
 
-    const triggerADAInternal = useCallback((action: PlayerAction, contextDetails: string, imagePrompt?: string, options?: { isFirstPaintDiscovery?: boolean }) => {
+    const triggerADAInternal = useCallback((action: PlayerAction, contextDetails: string, imagePrompt?: string) => {
         // When the player navigates to a new card, a new list view, or filters the timeline,
         // clear the previous analysis to prevent showing outdated information from the previous context.
         if (action === PlayerAction.VIEW_CARD || action === PlayerAction.VIEW_LIST || action === PlayerAction.FILTER_TIMELINE) {
@@ -85,23 +84,22 @@ ${imagePrompt ? `\nVisuals: The player is looking at an image best described as:
 `;
 
         // --- Conditional Prompt Engineering based on Game State ---
-        
-        // Condition 1: Player discovers the fluorescent paint for the very first time.
-        // This is now driven by an explicit flag from the calling component for reliability.
-        if (options?.isFirstPaintDiscovery) {
-            fullPrompt += `\n\n**SPECIAL NARRATIVE EVENT:** The player has just discovered fluorescent paint in Sophia's studio. This is a critical breakthrough. Your response MUST acknowledge this discovery and explicitly connect it to the hammer. Explain that with this new sample, you can now re-analyze the trace evidence on the murder weapon. Your tone should be one of sudden insight. Example: "Detective, this paint... its specific fluorescence is unmistakable. With this sample, I can re-examine the traces on the hammer. One moment... Yes. It's a perfect match. And within the paint smudge on the weapon... I've isolated a partial latent fingerprint. The print belongs to Sophia Wong."`;
-        
-        // Condition 2: Player views the hammer *after* the paint has been discovered.
-        } else if (contextDetails.includes('Hammer with Fingerprints') && hasDiscoveredPaint) {
-            // Append a different directive to provide deeper analysis now that the connection is known.
-            fullPrompt += `\n\n**ADDITIONAL CONTEXT:** The player has ALREADY discovered the matching fluorescent paint in Sophia's studio and knows her fingerprint was found in it on the hammer. Do not repeat the discovery. Instead, focus on the implications. Why would her print be in the paint on the murder weapon found in James's car? Analyze the attempt to frame him. Your tone should be analytical and focused on the motive behind the frame-up. Example: "Sophia's fingerprint, preserved in her own paint on the murder weapon, found in another man's car. It’s not just a clue; it’s a story of misdirection. She wasn't just committing a crime; she was authoring a new narrative, with James Lee as the protagonist."`;
+        // Story beats (e.g. a critical discovery) are authored as story triggers, which queue their
+        // instructions for this analysis. The store is read at call time, after the debounce, so directives
+        // queued by the action that caused this call are always included.
+        const { pendingDirectives } = store.getState().ada;
+        if (pendingDirectives.length > 0) {
+            pendingDirectives.forEach(directive => {
+                fullPrompt += `\n\n${directive}`;
+            });
+            dispatch(clearADADirectives());
         }
 
         fullPrompt += "\nYour response:";
         
         // Dispatch the async thunk to get the response.
         dispatch(getADAResponse(fullPrompt.trim()));
-    }, [dispatch, storyTitle, hasDiscoveredPaint]);
+    }, [dispatch, store, storyTitle]);
     
     // Debounce the trigger function to prevent spamming the API with rapid-fire actions (e.g., quick clicks).
     // The delay is now sourced from the central config file.
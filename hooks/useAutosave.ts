@@ -0,0 +1,42 @@
+/**
+ * @file hooks/useAutosave.ts
+ * @description This file contains a custom React hook that keeps the autosave slot up to date.
+ */
+
+import { useEffect } from 'react';
+import { useDispatch, useStore } from 'react-redux';
+import { AppDispatch, RootState } from '../store';
+import { autosaveGame, markAutosaveBaseline } from '../store/saveSlice';
+import { SAVE_CONFIG } from '../config';
+
+/**
+ * Periodically autosaves the game, and also saves whenever the page is hidden (e.g. the player switches
+ * tabs or closes the app on mobile), which is the last reliable moment to write to IndexedDB.
+ * The autosave only writes when the player has made progress, so opening the app and idling on the
+ * continue menu never overwrites an existing autosave with a fresh game.
+ * This hook should be mounted once, at the root of the app.
+ */
+export function useAutosave(): void {
+  const dispatch = useDispatch<AppDispatch>();
+  const store = useStore<RootState>();
+
+  useEffect(() => {
+    markAutosaveBaseline(store.getState());
+
+    const intervalId = window.setInterval(() => {
+      dispatch(autosaveGame());
+    }, SAVE_CONFIG.AUTOSAVE_INTERVAL);
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') {
+        dispatch(autosaveGame());
+      }
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      window.clearInterval(intervalId);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [dispatch, store]);
+}
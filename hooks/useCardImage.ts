@@ -3,13 +3,17 @@
  * @description This custom hook encapsulates the logic for displaying an image for a game card.
  * It checks a Redux-based cache for an existing image URL. If not found, it adds a request
  * to a centralized, sequential queue to be processed, preventing API rate-limiting.
+ * Each color treatment of a card is cached as a separate variant. While the hook is mounted it keeps the
+ * image's object URL alive; once no component shows the image, the URL is released. A failed image is queued again once
+ * its retry is due, or straight away when the player asks for a retry.
  */
 
-import { useEffect } from 'react';
+import { useEffect, useMemo, useState, useCallback } from 'react';
 import { useSelector, useDispatch } from 'react-redux';
 import { RootState, AppDispatch } from '../store';
-import { queueImageGeneration, processImageGenerationQueue } from '../store/storySlice';
-import { Character, StoryObject, Location } from '../types';
+import { queueImageGeneration, releaseImageRequest, processImageGenerationQueue, retryImageGeneration, retainImageUrl, releaseImageUrl, selectStoryId } from '../store/storySlice';
+import { Character, StoryObject, Location, ImagePriority, ImageFailure } from '../types';
+import { getImageCacheKey } from '../services/imageCacheKeys';
 
 // A union type for any card-like object that has an ID and an image prompt.
 type Card = (Character | StoryObject | Location | { id: string; imagePrompt: string });
@@ -19,34 +23,75 @@ type Card = (Character | StoryObject | Location | { id: string; imagePrompt: str
  *
  * @param {Card | null} card - The card object (e.g., Character, StoryObject) for which to get an image.
  * @param {'monochrome' | 'selectiveColor' | 'map'} colorTreatment - The desired visual style for the image.
- * @returns {{ imageUrl: string | null, isLoading: boolean }} An object containing the image URL (or null) and a boolean loading state.
+ * @param {ImagePriority} [priority='thumbnail'] - How urgently the image is needed. Use `visible` for the card the
+ * player is viewing, `modal` inside modals and `thumbnail` for list items.
+ * @returns {{ imageUrl: string | null, isLoading: boolean, failure: ImageFailure | null, retry: () => void }} The image URL (or null),
+ * a boolean loading state, the recorded failure if generation failed, and a callback that retries a failed image immediately.
  */
 export const useCardImage = (
   card: Card | null, 
-  colorTreatment: 'monochrome' | 'selectiveColor' | 'map'
+  colorTreatment: 'monochrome' | 'selectiveColor' | 'map',
+  priority: ImagePriority = 'thumbnail'
 ) => {
   const dispatch = useDispatch<AppDispatch>();
+  const cardId = card?.id;
+  const imagePrompt = card?.imagePrompt;
+  const storyId = useSelector(selectStoryId);
   
-  const imageUrl = useSelector((state: RootState) => (card ? state.story.imageUrls[card.id] : null));
-  const isLoadingFromState = useSelector((state: RootState) => (card ? state.story.imageLoading[card.id] : false));
+  // The cache key identifies this exact variant: the story, the card, the requested treatment and the current prompt.
+  const cacheKey = useMemo(
+    () => (cardId && imagePrompt ? getImageCacheKey(storyId, cardId, colorTreatment, imagePrompt) : null),
+    [storyId, cardId, imagePrompt, colorTreatment]
+  );
+
+  // Keep the image's object URL alive for as long as this component shows it.
+  useEffect(() => {
+    if (!cacheKey) return;
+    dispatch(retainImageUrl(cacheKey));
+    return () => {
+      dispatch(releaseImageUrl(cacheKey));
+    };
+  }, [cacheKey, dispatch]);
+  const imageUrl = useSelector((state: RootState) => (cacheKey ? state.story.imageUrls[cacheKey] : null));
+  const isLoadingFromState = useSelector((state: RootState) => (cacheKey ? state.story.imageLoading[cacheKey] : false));
+  const failure = useSelector((state: RootState) => (cacheKey ? state.story.imageErrors[cacheKey] : undefined));
+  const nextRetryAt = failure ? failure.nextRetryAt : undefined;
+
+  // Re-render when a failed image's automatic retry falls due.
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    if (nextRetryAt == null || nextRetryAt <= now) return;
+    const timer = setTimeout(() => setNow(Date.now()), nextRetryAt - now);
+    return () => clearTimeout(timer);
+  }, [nextRetryAt, now]);
+
+  const isRetryDue = nextRetryAt != null && nextRetryAt <= now;
+  const isWaitingForRetry = nextRetryAt !== undefined && !isRetryDue;
 
   useEffect(() => {
     // The core logic: dispatch to the queue only if...
     // 1. A valid card with an image prompt is provided.
     // 2. An image URL is NOT already in the cache.
-    // 3. The image is NOT already in the process of being loaded.
-    if (card && card.imagePrompt && !imageUrl && !isLoadingFromState) {
-      dispatch(queueImageGeneration({
-          cardId: card.id,
-          prompt: card.imagePrompt,
-          colorTreatment: colorTreatment
-      }));
-      // Kick off the queue processor. It has an internal guard to prevent multiple concurrent runs.
-      dispatch(processImageGenerationQueue());
-    }
-  }, [card, imageUrl, isLoadingFromState, colorTreatment, dispatch]);
-
-  const isLoading = isLoadingFromState || (!imageUrl && !!card?.imagePrompt);
-
-  return { imageUrl: imageUrl ?? null, isLoading };
+    // 3. The image is NOT already in the process of being loaded, and has not failed (unless a retry is due).
+    if (!cardId || !imagePrompt || !cacheKey || imageUrl || isLoadingFromState || isWaitingForRetry) return;
+
+    dispatch(queueImageGeneration({ cardId, prompt: imagePrompt, colorTreatment, priority }));
+    // Kick off the queue processor. If it is already running, this lets it start the request right away
+    // when a slot is free.
+    dispatch(processImageGenerationQueue());
+
+    // When the component unmounts (or asks for a different image), withdraw the request. If nothing
+    // else is waiting for it, it is cancelled before it reaches the API.
+    return () => {
+      dispatch(releaseImageRequest({ cacheKey, priority }));
+    };
+  }, [cardId, imagePrompt, cacheKey, imageUrl, isLoadingFromState, isWaitingForRetry, colorTreatment, priority, dispatch]);
+
+  const retry = useCallback(() => {
+    if (cacheKey) dispatch(retryImageGeneration(cacheKey));
+  }, [cacheKey, dispatch]);
+
+  const isLoading = isLoadingFromState || (!imageUrl && !isWaitingForRetry && !!imagePrompt);
+
+  return { imageUrl: imageUrl ?? null, isLoading, failure: (!imageUrl && failure) || null, retry };
 };
\ No newline at end of file
@@ -2,27 +2,66 @@
  * @file hooks/useHotspotAnalysis.ts
  * @description This custom hook encapsulates the logic for analyzing a location image to find hotspots.
  * It now features a robust caching mechanism to prevent re-analyzing the same image,
- * improving performance and reducing API costs.
+ * improving performance and reducing API costs. Coordinates are persisted in IndexedDB under a hash of
+ * the image, so they survive reloads, and the hook exposes the controls used by the hotspot calibration editor.
  */
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useMemo, useCallback } from 'react';
 import { useDispatch, useSelector } from 'react-redux';
 import { analyzeImageForHotspots } from '../services/geminiService';
 import { Hotspot } from '../types';
 import { RootState, AppDispatch } from '../store';
 import { setDynamicHotspotCoords, selectDynamicHotspotsForLocation } from '../store/storySlice';
 import { dbService } from '../services/dbService';
+import { getImageContentHash } from '../services/imageCacheKeys';
+
+type HotspotCoords = { [key: string]: { x: number; y: number } };
 
 interface HotspotAnalysisResult {
-  dynamicHotspots: { [key: string]: { x: number; y: number } } | null;
+  dynamicHotspots: HotspotCoords | null;
+  /** True while the location has no coordinates yet and they are being looked up or analyzed. */
   isAnalyzing: boolean;
+  /** True while an AI analysis is running, including a re-analysis requested from the editor. */
+  isAnalysisRunning: boolean;
+  /** Whether the coordinates for this image have been locked by a designer. */
+  isLocked: boolean;
+  /** Moves one hotspot to a new normalized position. Ignored while locked. */
+  moveHotspot: (hotspotId: string, coords: { x: number; y: number }) => void;
+  /** Runs the AI analysis again for this image. Ignored while locked. */
+  reanalyze: () => void;
+  /** Locks or unlocks the coordinates for this image. */
+  setLocked: (locked: boolean) => void;
 }
 
+/**
+ * Reads a Blob as a base64 string (without the data URL prefix).
+ */
+const readBlobAsBase64 = (blob: Blob): Promise<string> =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      // reader.result is a data URL (e.g., "data:image/jpeg;base64,..."). We need only the base64 part.
+      const base64String = (reader.result as string)?.split(',')[1];
+      if (base64String) {
+        resolve(base64String);
+      } else {
+        reject(new Error("Failed to read base64 string from blob."));
+      }
+    };
+    // --- FIX: Correctly handle FileReader errors ---
+    // The `onerror` event handler was rejecting the ProgressEvent object,
+    // resulting in a non-descriptive "[object Object]" error message.
+    // This now correctly rejects with `reader.error`, which is a DOMException
+    // containing a useful error message.
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
 /**
  * A hook to manage the analysis of an image for dynamic hotspot coordinates, now with caching.
  * @param {string | null} imageUrl - The URL of the image to analyze.
  * @param {Hotspot[]} hotspotsToFind - An array of hotspot definitions to search for.
- * @param {string} locationId - The unique ID of the location, used as the cache key.
- * @returns {HotspotAnalysisResult} An object containing the coordinates of found hotspots and the loading state.
+ * @param {string} locationId - The unique ID of the location, used as the in-memory cache key.
+ * @returns {HotspotAnalysisResult} The coordinates of found hotspots, the loading state and the calibration controls.
  */
 export const useHotspotAnalysis = (
   imageUrl: string | null,
@@ -32,80 +71,108 @@ export const useHotspotAnalysis = (
   const dispatch = useDispatch<AppDispatch>();
   const cachedCoords = useSelector((state: RootState) => selectDynamicHotspotsForLocation(state, locationId));
 
-  const [isAnalyzing, setIsAnalyzing] = useState(false);
-  const [dynamicHotspots, setDynamicHotspots] = useState<{ [key: string]: { x: number; y: number } } | null>(cachedCoords || null);
-  
-  const analysisStartedRef = useRef(false);
+  const [isResolving, setIsResolving] = useState(false);
+  const [isAnalysisRunning, setIsAnalysisRunning] = useState(false);
+  const [isLocked, setIsLocked] = useState(false);
+  const [dynamicHotspots, setDynamicHotspots] = useState<HotspotCoords | null>(cachedCoords || null);
 
-  useEffect(() => {
-    // If we have cached coordinates, use them immediately and don't proceed with analysis.
-    if (cachedCoords) {
-      setDynamicHotspots(cachedCoords);
-      return;
-    }
-    
-    // Guard against running analysis multiple times or without necessary data.
-    if (!imageUrl || analysisStartedRef.current || cachedCoords) {
-      return;
-    }
+  // The image currently shown, read back once so it can be hashed and sent for analysis.
+  const imageRef = useRef<{ hash: string; base64: string } | null>(null);
+  // Read inside the resolve effect without making it re-run whenever the in-memory cache changes.
+  const cachedCoordsRef = useRef(cachedCoords);
+  cachedCoordsRef.current = cachedCoords;
 
-    const itemsToAnalyze = hotspotsToFind
+  const itemsToAnalyze = useMemo(
+    () => hotspotsToFind
       .filter(h => !h.coords && h.aiHint)
-      .map(h => ({ id: h.id, label: h.label, hint: h.aiHint }));
+      .map(h => ({ id: h.id, label: h.label, hint: h.aiHint })),
+    [hotspotsToFind]
+  );
 
-    if (itemsToAnalyze.length === 0) {
-      return;
+  // Stores coordinates for an image: in Redux for this session, and in IndexedDB for later ones.
+  const storeCoords = useCallback((imageHash: string, coords: HotspotCoords, locked: boolean) => {
+    setDynamicHotspots(coords);
+    setIsLocked(locked);
+    dispatch(setDynamicHotspotCoords({ locationId, coords }));
+    dbService.saveHotspotCalibration(imageHash, { locationId, coords, locked, updatedAt: Date.now() });
+  }, [dispatch, locationId]);
+
+  const analyze = useCallback(async (image: { hash: string; base64: string }, existing: HotspotCoords | null) => {
+    if (itemsToAnalyze.length === 0) return;
+    setIsAnalysisRunning(true);
+    try {
+      const coords = await analyzeImageForHotspots(image.base64, itemsToAnalyze);
+      if (coords) {
+        // Keep any positions the analysis did not cover, such as hotspots placed by hand.
+        storeCoords(image.hash, { ...existing, ...coords }, false);
+      }
+    } catch (error) {
+      console.error("Failed to analyze image for hotspots:", error);
+    } finally {
+      setIsAnalysisRunning(false);
     }
+  }, [itemsToAnalyze, storeCoords]);
 
-    const analyze = async (locId: string) => {
-      analysisStartedRef.current = true;
-      setIsAnalyzing(true);
+  useEffect(() => {
+    if (!imageUrl) return;
+    let cancelled = false;
 
+    const resolve = async () => {
+      setIsResolving(true);
       try {
-        const blob = await dbService.getImage(locId);
-        if (!blob) {
-            throw new Error(`Image blob not found in IndexedDB for ID: ${locId}`);
-        }
-        
-        const base64Data = await new Promise<string>((resolve, reject) => {
-            const reader = new FileReader();
-            reader.onloadend = () => {
-                // reader.result is a data URL (e.g., "data:image/jpeg;base64,..."). We need only the base64 part.
-                const base64String = (reader.result as string)?.split(',')[1];
-                if (base64String) {
-                    resolve(base64String);
-                } else {
-                    reject(new Error("Failed to read base64 string from blob."));
-                }
-            };
-            // --- FIX: Correctly handle FileReader errors ---
-            // The `onerror` event handler was rejecting the ProgressEvent object,
-            // resulting in a non-descriptive "[object Object]" error message.
-            // This now correctly rejects with `reader.error`, which is a DOMException
-            // containing a useful error message.
-            reader.onerror = () => reject(reader.error);
-            reader.readAsDataURL(blob);
-        });
-
-        const coords = await analyzeImageForHotspots(base64Data, itemsToAnalyze);
-        if (coords) {
-            // Save the successful analysis results to the Redux cache.
-            dispatch(setDynamicHotspotCoords({ locationId, coords }));
-            setDynamicHotspots(coords);
+        // The image URL is an object URL for the cached Blob, so reading it back does not touch the network.
+        const base64 = await readBlobAsBase64(await (await fetch(imageUrl)).blob());
+        if (cancelled) return;
+        const image = { hash: getImageContentHash(base64), base64 };
+        imageRef.current = image;
+
+        const stored = await dbService.getHotspotCalibration(image.hash);
+        if (cancelled) return;
+        if (stored) {
+          setDynamicHotspots(stored.coords);
+          setIsLocked(stored.locked);
+          dispatch(setDynamicHotspotCoords({ locationId, coords: stored.coords }));
+        } else if (cachedCoordsRef.current) {
+          // Coordinates found earlier in this session (or restored from a save) are reused and persisted.
+          storeCoords(image.hash, cachedCoordsRef.current, false);
         } else {
-             setDynamicHotspots(null);
+          await analyze(image, null);
         }
       } catch (error) {
         console.error("Failed to process image for hotspot analysis:", error);
-        setDynamicHotspots(null);
       } finally {
-        setIsAnalyzing(false);
+        if (!cancelled) setIsResolving(false);
       }
     };
-    
-    analyze(locationId);
 
-  }, [imageUrl, hotspotsToFind, locationId, dispatch, cachedCoords]);
+    resolve();
+    return () => {
+      cancelled = true;
+    };
+  }, [imageUrl, locationId, dispatch, analyze, storeCoords]);
+
+  const moveHotspot = useCallback((hotspotId: string, coords: { x: number; y: number }) => {
+    if (!imageRef.current || isLocked) return;
+    storeCoords(imageRef.current.hash, { ...dynamicHotspots, [hotspotId]: coords }, false);
+  }, [dynamicHotspots, isLocked, storeCoords]);
+
+  const reanalyze = useCallback(() => {
+    if (!imageRef.current || isLocked || isAnalysisRunning) return;
+    analyze(imageRef.current, dynamicHotspots);
+  }, [analyze, dynamicHotspots, isLocked, isAnalysisRunning]);
+
+  const setLocked = useCallback((locked: boolean) => {
+    if (!imageRef.current) return;
+    storeCoords(imageRef.current.hash, dynamicHotspots ?? {}, locked);
+  }, [dynamicHotspots, storeCoords]);
 
-  return { dynamicHotspots, isAnalyzing: isAnalyzing && !cachedCoords };
+  return {
+    dynamicHotspots,
+    isAnalyzing: (isResolving || isAnalysisRunning) && !dynamicHotspots,
+    isAnalysisRunning,
+    isLocked,
+    moveHotspot,
+    reanalyze,
+    setLocked,
+  };
 };
@@ -5,39 +5,54 @@
  * @architectural_decision
  * This hook is a cornerstone of the refactored interrogation module. It adheres to the
  * single-responsibility principle by abstracting away the complexities of interacting
- * with the Gemini API. The UI component (`DialogueCard`) no longer needs to know about
- * `Chat` instances, loading states, or JSON parsing. It simply calls the `sendMessage`
+ * with the AI provider. The UI component (`DialogueCard`) no longer needs to know about
+ * chat sessions, loading states, or JSON parsing. It simply calls the `sendMessage`
  * function and receives clean, structured data in return. This makes the UI component
  * significantly cleaner and easier to reason about, while also making the AI interaction
  * logic reusable and testable in isolation.
  */
 import { useState, useEffect, useRef } from 'react';
-import { Chat } from '@google/genai';
-import { startInterviewChat, getInterrogationResponse, InterrogationResponse } from '../services/geminiService';
+import { startInterviewChat, getInterrogationResponse, InterrogationResponse, InterrogationChunkListener } from '../services/geminiService';
+import { AIChatSession, AIChatTurn } from '../services/aiProvider';
+import { DialogueExchange } from '../types';
+
+/**
+ * Converts a stored transcript into the chat history the AI provider resumes from.
+ */
+const toChatHistory = (exchanges: DialogueExchange[]): AIChatTurn[] =>
+  exchanges.flatMap(({ prompt, reply }): AIChatTurn[] => [
+    { role: 'user', text: prompt },
+    { role: 'model', text: reply },
+  ]);
 
 /**
  * Manages the state and communication for an interrogation AI chat.
  * @param persona The system instruction string that defines the AI's personality and rules.
+ * @param exchanges The stored exchanges with this character, used to rebuild the chat when it is created.
  * @returns An object containing the AI's responding status and a function to send a message.
  */
-export const useInterrogationAI = (persona: string) => {
+export const useInterrogationAI = (persona: string, exchanges: DialogueExchange[] = []) => {
   // Use a ref to store the chat instance so it persists across re-renders without causing them.
-  const chatRef = useRef<Chat | null>(null);
+  const chatRef = useRef<AIChatSession | null>(null);
   const [isAiResponding, setIsAiResponding] = useState(false);
+  // Read when the chat is created. Later exchanges are already part of the live chat.
+  const exchangesRef = useRef(exchanges);
+  exchangesRef.current = exchanges;
 
-  // Initialize the chat instance only when the persona changes.
+  // Initialize the chat instance only when the persona changes, resuming from the stored exchanges.
   useEffect(() => {
     if (persona) {
-      chatRef.current = startInterviewChat(persona);
+      chatRef.current = startInterviewChat(persona, toChatHistory(exchangesRef.current));
     }
   }, [persona]);
 
   /**
    * Sends a message to the AI and returns the structured response.
    * @param message The text to send to the AI chat.
+   * @param onChunks Optional listener for the witness chunks received so far, while the reply streams in.
    * @returns A promise that resolves with the parsed AI response, or null on failure.
    */
-  const sendMessage = async (message: string): Promise<InterrogationResponse | null> => {
+  const sendMessage = async (message: string, onChunks?: InterrogationChunkListener): Promise<InterrogationResponse | null> => {
     if (!chatRef.current) {
       console.error("Interrogation chat not initialized.");
       return null;
@@ -45,7 +60,7 @@ export const useInterrogationAI = (persona: string) => {
 
     setIsAiResponding(true);
     try {
-      const response = await getInterrogationResponse(chatRef.current, message);
+      const response = await getInterrogationResponse(chatRef.current, message, onChunks);
       return response;
     } catch (error) {
       console.error("Error getting interrogation response from hook:", error);
@@ -0,0 +1,26 @@
+/**
+ * @file scripts/validateStories.ts
+ * @description A command-line entry point for the story validator. It validates every pack in the story
+ * registry and exits with a non-zero code if any pack has errors, so it can gate authoring changes.
+ * Run it with `npm run validate:stories`.
+ */
+
+import { STORY_PACKS } from '../data/storyRegistry';
+import { validateStoryPack } from '../services/storyValidator';
+
+let hasErrors = false;
+
+STORY_PACKS.forEach(pack => {
+  const report = validateStoryPack(pack);
+  const errors = report.issues.filter(i => i.severity === 'error');
+  const warnings = report.issues.filter(i => i.severity === 'warning');
+
+  console.log(`\n${report.isValid ? 'PASS' : 'FAIL'} ${pack.id} (${report.title}): ${errors.length} error(s), ${warnings.length} warning(s)`);
+  report.issues.forEach(issue => {
+    console.log(`  ${issue.severity.toUpperCase().padEnd(7)} [${issue.code}] ${issue.entityId}: ${issue.message}`);
+  });
+
+  if (!report.isValid) hasErrors = true;
+});
+
+process.exit(hasErrors ? 1 : 0);
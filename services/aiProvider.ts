@@ -0,0 +1,74 @@
+/**
+ * @file services/aiProvider.ts
+ * @description Defines the contract that every AI backend must fulfil.
+ *
+ * @architectural_decision
+ * The game talks to its AI through a single `AIProvider` interface rather than importing a vendor SDK
+ * directly. `geminiService.ts` acts as the facade that the rest of the application imports, and it
+ * delegates every call to whichever provider is active. This lets the game run against the live
+ * Gemini API in production and against a fully offline, deterministic "scripted" provider during
+ * development and testing, without any component knowing the difference.
+ */
+
+import { CanonicalTimeline, TimelineEvaluation, ImageFailureReason, HintTier } from '../types';
+
+/** The names of the available AI backends. */
+export type AIProviderName = 'gemini' | 'scripted';
+
+/** The visual treatments an image can be generated with. */
+export type ColorTreatment = 'monochrome' | 'selectiveColor' | 'map';
+
+/** A single piece of a streamed chat reply. Mirrors the shape of a Gemini stream chunk. */
+export interface AIChatStreamChunk {
+  text?: string;
+}
+
+/** A single earlier message in a chat, used to resume a conversation. */
+export interface AIChatTurn {
+  role: 'user' | 'model';
+  text: string;
+}
+
+/**
+ * A stateful, multi-turn chat session used for interviews and interrogations.
+ * The Gemini SDK's `Chat` class satisfies this interface structurally.
+ */
+export interface AIChatSession {
+  sendMessageStream(params: { message: string }): Promise<AsyncIterable<AIChatStreamChunk>>;
+}
+
+/**
+ * Raised by `generateImage` when a provider knows why an image could not be generated. Providers may
+ * still return null for failures they cannot classify.
+ */
+export class ImageGenerationError extends Error {
+  constructor(message: string, public readonly reason: ImageFailureReason) {
+    super(message);
+    this.name = 'ImageGenerationError';
+  }
+}
+
+/**
+ * The full set of AI capabilities the game relies on.
+ * Each method mirrors one of the public functions exported by `geminiService.ts`.
+ */
+export interface AIProvider {
+  /** A short identifier, useful for debugging and logging. */
+  readonly name: AIProviderName;
+  getADAResponse(prompt: string): Promise<string>;
+  generateImage(prompt: string, colorTreatment: ColorTreatment): Promise<{ mimeType: string; bytes: string } | null>;
+  analyzeImageForHotspots(
+    base64Image: string,
+    itemsToFind: Array<{ id: string; label: string; hint?: string }>
+  ): Promise<{ [key: string]: { x: number; y: number } } | null>;
+  /** Starts a chat. If `history` is given, the chat resumes as if those messages had already been exchanged. */
+  startInterviewChat(persona: string, history?: AIChatTurn[]): AIChatSession;
+  summarizePlayerTimeline(evidenceList: any[], suspectName: string): Promise<string>;
+  evaluateTimeline(
+    playerSubmission: { suspectId: string; evidenceIds: string[] },
+    groundTruth: CanonicalTimeline,
+    suspectName: string
+  ): Promise<TimelineEvaluation | null>;
+  /** Rewords a hint in ADA's voice without making it more or less specific. */
+  paraphraseHint(hint: string, tier: HintTier): Promise<string>;
+}
@@ -0,0 +1,146 @@
+/**
+ * @file services/bountyEngine.ts
+ * @description Builds, checks and schedules the bounty mini-games on the Processing Ledger page.
+ *
+ * @architectural_decision
+ * A bounty's puzzle is authored as seed data in the story pack (`BountyPuzzle`): the plain text and key of
+ * a cipher, the words and shuffle seed of a scramble, and so on. Everything derived from that data, such as
+ * the enciphered message or the scrambled words, is computed here by pure functions, so a puzzle looks the
+ * same every time it is opened and can be checked without rendering it. The components only collect the
+ * player's answer, and the story slice pays the reward once `getBountyAvailability` allows it.
+ */
+
+import { Bounty, BountyPuzzle } from '../types';
+
+const ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+/** The player's answer: text for a cipher or pattern, one word per scrambled word, or a column per grid row. */
+export type BountyAnswer = string | string[] | { [row: string]: string };
+
+/** Whether a bounty can be played for its reward right now. */
+export type BountyStatus = 'available' | 'completed' | 'cooldown';
+
+export interface BountyAvailability {
+  status: BountyStatus;
+  /** When a bounty on cooldown becomes available again. */
+  availableAt: number | null;
+}
+
+/**
+ * Normalizes typed text for comparison: letters and digits only, upper case, single spaces.
+ */
+export const normalizeAnswer = (text: string): string =>
+  text.toUpperCase().replace(/[^A-Z0-9]+/g, ' ').trim();
+
+/**
+ * Enciphers text with a substitution alphabet. Characters other than letters are kept as they are.
+ * @param {string} text - The plain text.
+ * @param {string} key - The 26 letters that replace A to Z.
+ * @returns {string} The enciphered text, in upper case.
+ */
+export const encipher = (text: string, key: string): string =>
+  text.toUpperCase().replace(/[A-Z]/g, letter => key.toUpperCase()[ALPHABET.indexOf(letter)]);
+
+/**
+ * A small deterministic random number generator (mulberry32), so a seed always gives the same shuffle.
+ */
+const createRandom = (seed: number) => {
+  let value = seed >>> 0;
+  return () => {
+    value = (value + 0x6d2b79f5) >>> 0;
+    let t = value;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Shuffles the letters of a word. The result never equals the word unless all its letters are the same.
+ * @param {string} word - The word to scramble.
+ * @param {number} seed - The shuffle seed.
+ * @returns {string} The scrambled word, in upper case.
+ */
+export const scrambleWord = (word: string, seed: number): string => {
+  const letters = word.toUpperCase().split('');
+  const random = createRandom(seed);
+  for (let i = letters.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [letters[i], letters[j]] = [letters[j], letters[i]];
+  }
+  const scrambled = letters.join('');
+  return scrambled === word.toUpperCase() ? scrambled.slice(1) + scrambled[0] : scrambled;
+};
+
+/**
+ * Scrambles every word of a scramble puzzle, each with its own seed derived from the puzzle's.
+ */
+export const scrambleWords = (puzzle: Extract<BountyPuzzle, { type: 'scramble' }>): string[] =>
+  puzzle.words.map((word, i) => scrambleWord(word, puzzle.seed + i));
+
+/**
+ * Checks the player's answer to a puzzle.
+ * @param {BountyPuzzle} puzzle - The puzzle.
+ * @param {BountyAnswer} answer - The answer, in the shape that matches the puzzle type.
+ * @returns {boolean} True if the answer solves the puzzle.
+ */
+export const isBountyAnswerCorrect = (puzzle: BountyPuzzle, answer: BountyAnswer): boolean => {
+  switch (puzzle.type) {
+    case 'cipher':
+      return typeof answer === 'string' && normalizeAnswer(answer) === normalizeAnswer(puzzle.plaintext);
+    case 'scramble':
+      return Array.isArray(answer)
+        && puzzle.words.length === answer.length
+        && puzzle.words.every((word, i) => normalizeAnswer(word) === normalizeAnswer(answer[i]));
+    case 'logicGrid':
+      return typeof answer === 'object' && !Array.isArray(answer)
+        && puzzle.rows.every(row => answer[row] === puzzle.solution[row]);
+    case 'pattern':
+      return answer === puzzle.answer;
+    default:
+      return false;
+  }
+};
+
+/**
+ * Checks that an authored puzzle can be solved, for the story validator.
+ * @param {BountyPuzzle} puzzle - The puzzle.
+ * @returns {string | null} What is wrong with the puzzle, or null if it is solvable.
+ */
+export const findBountyPuzzleProblem = (puzzle: BountyPuzzle): string | null => {
+  switch (puzzle.type) {
+    case 'cipher': {
+      const key = puzzle.key.toUpperCase();
+      if (key.length !== 26 || new Set(key).size !== 26 || /[^A-Z]/.test(key)) {
+        return 'its cipher key must use each of the 26 letters once';
+      }
+      return normalizeAnswer(puzzle.plaintext) ? null : 'its cipher has no message';
+    }
+    case 'scramble':
+      return puzzle.words.length > 0 ? null : 'its scramble has no words';
+    case 'logicGrid': {
+      const unmatched = puzzle.rows.filter(row => !puzzle.columns.includes(puzzle.solution[row]));
+      if (unmatched.length > 0) return `its logic grid has no valid answer for ${unmatched.join(', ')}`;
+      const answers = puzzle.rows.map(row => puzzle.solution[row]);
+      return new Set(answers).size === answers.length ? null : 'its logic grid uses a column twice';
+    }
+    case 'pattern':
+      return puzzle.options.includes(puzzle.answer) ? null : 'its pattern answer is not one of the options';
+    default:
+      return 'its puzzle type is unknown';
+  }
+};
+
+/**
+ * Works out whether a bounty can be played for its reward.
+ * @param {Bounty} bounty - The bounty.
+ * @param {number | undefined} lastCompletedAt - When the player last solved it, if ever.
+ * @param {number} now - The current time.
+ * @returns {BountyAvailability} Whether it is available and, if it is on cooldown, from when.
+ */
+export const getBountyAvailability = (bounty: Bounty, lastCompletedAt: number | undefined, now: number): BountyAvailability => {
+  if (lastCompletedAt === undefined) return { status: 'available', availableAt: null };
+  if (!bounty.cooldownMinutes) return { status: 'completed', availableAt: null };
+  const availableAt = lastCompletedAt + bounty.cooldownMinutes * 60 * 1000;
+  return now >= availableAt ? { status: 'available', availableAt: null } : { status: 'cooldown', availableAt };
+};
@@ -0,0 +1,92 @@
+/**
+ * @file services/composureService.ts
+ * @description The rules for how a suspect's hostility changes the course of an interrogation.
+ *
+ * @architectural_decision
+ * The AI reports how much each question antagonized the suspect (`phaseUpdate.hostilityChange`), just as it
+ * reports progress, but what happens at each level is decided here rather than left to the model. Before a
+ * turn is sent, the planned outcome is turned into a directive that is prefixed to the player's message, so
+ * the suspect refuses or cracks in character while the game applies the mechanical consequences itself:
+ * a refusal earns no progress, and a request for a lawyer ends the line of inquiry. Pressure without
+ * evidence only makes a suspect clam up; key evidence presented to a rattled suspect breaks them.
+ */
+
+import { GAME_MECHANICS } from '../config';
+
+/** How cooperative a suspect is, from their hostility. */
+export type ComposureState = 'composed' | 'defensive' | 'refusing';
+
+/** Player-facing labels for each composure state. */
+export const COMPOSURE_LABELS: Record<ComposureState, string> = {
+  composed: 'Composed',
+  defensive: 'Defensive',
+  refusing: 'Refusing to Talk',
+};
+
+/** What the suspect says when they ask for a lawyer. */
+export const LAWYER_STATEMENT = "I'm done answering your questions. I want my lawyer.";
+
+/** What the suspect's hostility will do to the next turn. */
+export interface ComposureTurnPlan {
+  /** The suspect breaks and gives up the critical clue of the active line of inquiry. */
+  isCracking: boolean;
+  /** The suspect will not answer, so the turn earns no progress. */
+  isRefusing: boolean;
+  /** The instruction prefixed to the player's message, or null for a normal turn. */
+  directive: string | null;
+}
+
+/**
+ * Works out how cooperative a suspect is.
+ * @param {number} hostility - The suspect's current hostility.
+ * @returns {ComposureState} The composure state.
+ */
+export const getComposureState = (hostility: number): ComposureState => {
+  if (hostility >= GAME_MECHANICS.HOSTILITY_REFUSAL_THRESHOLD) return 'refusing';
+  if (hostility >= GAME_MECHANICS.HOSTILITY_DEFENSIVE_THRESHOLD) return 'defensive';
+  return 'composed';
+};
+
+/**
+ * Applies the change reported for a turn.
+ * @param {number} hostility - The suspect's hostility before the turn.
+ * @param {number} change - The change the AI reported.
+ * @returns {number} The new hostility, between 0 and the lawyer threshold.
+ */
+export const applyHostilityChange = (hostility: number, change: number): number =>
+  Math.min(GAME_MECHANICS.HOSTILITY_LAWYER_THRESHOLD, Math.max(0, hostility + change));
+
+/**
+ * Checks whether the suspect has had enough and asks for a lawyer.
+ * @param {number} hostility - The suspect's hostility after a turn.
+ * @returns {boolean} True if the line of inquiry must end.
+ */
+export const isLawyerRequested = (hostility: number): boolean =>
+  hostility >= GAME_MECHANICS.HOSTILITY_LAWYER_THRESHOLD;
+
+/**
+ * Decides what the suspect's hostility does to the next turn, before it is sent.
+ * @param {number} hostility - The suspect's current hostility.
+ * @param {boolean} isKeyConfrontation - Whether the player is presenting key evidence for the active line of inquiry.
+ * @returns {ComposureTurnPlan} The plan for the turn.
+ */
+export const planComposureTurn = (hostility: number, isKeyConfrontation: boolean): ComposureTurnPlan => {
+  const state = getComposureState(hostility);
+  if (isKeyConfrontation && state !== 'composed') {
+    return {
+      isCracking: true,
+      isRefusing: false,
+      directive: "(You are rattled, and this evidence breaks you. Crack now: in this answer, give up the critical clue for the " +
+        "current line of inquiry as a chunk with `isCriticalClue: true` and its `insight`, and set `phaseCompleted: true`.)",
+    };
+  }
+  if (state === 'refusing') {
+    return {
+      isCracking: false,
+      isRefusing: true,
+      directive: "(You are too hostile to cooperate. Refuse to answer this question, in character, and reveal nothing new. " +
+        "Return a `progressValue` of 0.)",
+    };
+  }
+  return { isCracking: false, isRefusing: false, directive: null };
+};
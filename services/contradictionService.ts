@@ -0,0 +1,72 @@
+/**
+ * @file services/contradictionService.ts
+ * @description Matches a statement the player flags against the contradiction rules authored for the case.
+ *
+ * @architectural_decision
+ * Whether a statement contradicts a piece of evidence is decided by the story, never by the AI: each
+ * `ContradictionRule` pairs a testimony with an object and explains the conflict. This keeps the reward
+ * deterministic and lets the story validator check every rule. The player can flag either a character's
+ * written statement or a fragment of testimony they logged during an interrogation. Fragments are generated
+ * at runtime, so a rule lists the phrases that identify the same claim; a fragment from the same character
+ * that contains one of them matches the rule as if it were the written statement.
+ */
+
+import { ContradictionRule, StoryObject, Testimony } from '../types';
+
+/** A statement the player can flag, from a written testimony or a logged fragment of testimony. */
+export interface FlaggableStatement {
+  /** The testimony ID, or the object ID of the fragment. */
+  id: string;
+  characterId: string;
+  /** A short label for pickers. */
+  label: string;
+  /** The full text that was said. */
+  text: string;
+}
+
+/**
+ * Lists every statement the player can flag.
+ * @param {Testimony[]} testimonies - The characters' written statements.
+ * @param {StoryObject[]} collectedObjects - The objects the player has collected. Only testimony fragments are used.
+ * @returns {FlaggableStatement[]} The statements, written testimonies first.
+ */
+export const getFlaggableStatements = (testimonies: Testimony[], collectedObjects: StoryObject[]): FlaggableStatement[] => [
+  ...testimonies.map(testimony => ({
+    id: testimony.id,
+    characterId: testimony.sourceCharacterId,
+    label: testimony.title,
+    text: testimony.content,
+  })),
+  ...collectedObjects
+    .filter(object => object.category === 'testimony_fragment' && object.ownerCharacterId)
+    .map(object => ({
+      id: object.id,
+      characterId: object.ownerCharacterId!,
+      label: object.name,
+      text: object.description,
+    })),
+];
+
+/**
+ * Finds the rule that makes a statement contradict an object, if there is one.
+ * @param {ContradictionRule[]} rules - The case's contradiction rules.
+ * @param {Testimony[]} testimonies - The characters' written statements, used to find who made each rule's statement.
+ * @param {FlaggableStatement} statement - The statement the player flagged.
+ * @param {string} objectId - The object the player says it conflicts with.
+ * @returns {ContradictionRule | null} The matching rule, or null if the flag is wrong.
+ */
+export const findContradiction = (
+  rules: ContradictionRule[],
+  testimonies: Testimony[],
+  statement: FlaggableStatement,
+  objectId: string
+): ContradictionRule | null => {
+  const text = statement.text.toLowerCase();
+  return rules.find(rule => {
+    if (rule.objectId !== objectId) return false;
+    if (rule.statementId === statement.id) return true;
+    const speakerId = testimonies.find(t => t.id === rule.statementId)?.sourceCharacterId;
+    return speakerId === statement.characterId
+      && (rule.fragmentPhrases || []).some(phrase => text.includes(phrase.toLowerCase()));
+  }) ?? null;
+};
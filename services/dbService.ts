@@ -3,13 +3,44 @@
  * @description This service provides a robust, promise-based wrapper around IndexedDB
  * for storing and retrieving large binary data like images. It replaces less reliable
  * or quota-limited storage options like localStorage, making it suitable for production applications.
+ * Images are stored under the keys built by `getImageCacheKey` (story ID, card ID, color treatment and prompt hash).
+ * Failed generations are recorded under the same keys in a separate store, so retries can back off across sessions.
+ * Hotspot coordinates for location images are stored by a hash of the image itself (see `getImageContentHash`).
+ *
+ * @architectural_decision
+ * Every image has a small entry record alongside its Blob, holding its size, its story and when it was last
+ * read. The records live in their own store so that bookkeeping (touching an entry on read, summing sizes,
+ * picking eviction victims) never has to load the Blobs themselves. The cache is kept within a storage budget
+ * by evicting the least recently used images whenever a new one is saved.
  */
 
 import { openDB, IDBPDatabase } from 'idb';
+import { ImageFailure, HotspotCalibration } from '../types';
+import { IMAGE_CACHE_CONFIG } from '../config';
 
 const DB_NAME = 'ImageCacheDB';
 const STORE_NAME = 'images';
-const DB_VERSION = 1;
+const ENTRY_STORE_NAME = 'entries';
+const FAILURE_STORE_NAME = 'failures';
+const HOTSPOT_STORE_NAME = 'hotspots';
+const DB_VERSION = 5;
+
+/** The bookkeeping record stored for every cached image. */
+export interface ImageCacheEntry {
+  storyId: string;
+  /** The size of the image Blob in bytes. */
+  size: number;
+  /** When the image was last saved or read (epoch ms). */
+  lastAccessedAt: number;
+}
+
+/** How much space the image cache is using. */
+export interface ImageCacheUsage {
+  totalBytes: number;
+  imageCount: number;
+  /** The bytes used by each story's images. */
+  bytesByStory: { [storyId: string]: number };
+}
 
 /**
  * Converts a base64 string into a Blob object.
@@ -35,6 +66,22 @@ export const b64toBlob = (b64Data: string, contentType = '', sliceSize = 512): B
   return new Blob(byteArrays, { type: contentType });
 };
 
+/**
+ * Converts a Blob into a base64 string (without the data URL prefix). The inverse of `b64toBlob`.
+ * @param {Blob} blob - The binary data to encode.
+ * @returns {Promise<string>} The base64 encoded data.
+ */
+export const blobToB64 = async (blob: Blob): Promise<string> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const chunkSize = 0x8000;
+  let binary = '';
+  // Encode in chunks, since spreading a large array into `fromCharCode` overflows the call stack.
+  for (let offset = 0; offset < bytes.length; offset += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(offset, offset + chunkSize));
+  }
+  return btoa(binary);
+};
+
 /**
  * Gets a database connection. The `idb` library handles connection pooling and reuse internally.
  * @returns {Promise<IDBPDatabase>} A promise that resolves with the database instance.
@@ -49,42 +96,126 @@ const getDb = (): Promise<IDBPDatabase> => {
   // The 'idb' library handles connection reuse internally, which is more robust
   // than a manual singleton implementation.
   return openDB(DB_NAME, DB_VERSION, {
-    upgrade(db) {
+    upgrade(db, oldVersion, newVersion, transaction) {
       if (!db.objectStoreNames.contains(STORE_NAME)) {
         // Create the object store for our images.
         db.createObjectStore(STORE_NAME);
+      } else if (oldVersion < 4) {
+        // Keys before v4 were not namespaced by story (and v1 keyed images by card ID alone), so there is no
+        // way to tell which case a cached image belongs to. Those entries are dropped and regenerated.
+        transaction.objectStore(STORE_NAME).clear();
+      }
+      if (!db.objectStoreNames.contains(FAILURE_STORE_NAME)) {
+        db.createObjectStore(FAILURE_STORE_NAME);
+      } else if (oldVersion < 4) {
+        transaction.objectStore(FAILURE_STORE_NAME).clear();
+      }
+      if (!db.objectStoreNames.contains(ENTRY_STORE_NAME)) {
+        const entries = db.createObjectStore(ENTRY_STORE_NAME);
+        entries.createIndex('storyId', 'storyId');
+      }
+      if (!db.objectStoreNames.contains(HOTSPOT_STORE_NAME)) {
+        db.createObjectStore(HOTSPOT_STORE_NAME);
       }
     },
   });
 };
 
+/**
+ * Works out how many bytes the image cache may use: the configured budget, capped at a share of the
+ * browser's storage quota where the browser reports one.
+ */
+const getStorageBudget = async (): Promise<number> => {
+  let budget = IMAGE_CACHE_CONFIG.STORAGE_BUDGET_BYTES;
+  try {
+    const estimate = await navigator.storage?.estimate?.();
+    if (estimate?.quota) {
+      budget = Math.min(budget, estimate.quota * IMAGE_CACHE_CONFIG.STORAGE_QUOTA_FRACTION);
+    }
+  } catch {
+    // Not every browser supports the Storage API; the configured budget applies.
+  }
+  return budget;
+};
+
+/**
+ * Reads every entry record, keyed by image cache key.
+ */
+const getAllEntries = async (db: IDBPDatabase): Promise<{ id: string; entry: ImageCacheEntry }[]> => {
+  const keys = await db.getAllKeys(ENTRY_STORE_NAME);
+  const entries: ImageCacheEntry[] = await db.getAll(ENTRY_STORE_NAME);
+  return keys.map((key, index) => ({ id: String(key), entry: entries[index] }));
+};
+
+/**
+ * Picks the images to evict so the cache fits within its budget: least recently used first, skipping
+ * protected images.
+ * @param {{ id: string; entry: ImageCacheEntry }[]} entries - Every cached image's entry record.
+ * @param {number} budget - The storage budget in bytes.
+ * @param {string[]} protectedIds - Images that must not be evicted.
+ * @returns {string[]} The cache keys to evict, which may be empty.
+ */
+export const selectEvictionVictims = (
+  entries: { id: string; entry: ImageCacheEntry }[],
+  budget: number,
+  protectedIds: string[]
+): string[] => {
+  let totalBytes = entries.reduce((sum, { entry }) => sum + entry.size, 0);
+  const protectedSet = new Set(protectedIds);
+  const victims: string[] = [];
+  const candidates = entries
+    .filter(({ id }) => !protectedSet.has(id))
+    .sort((a, b) => a.entry.lastAccessedAt - b.entry.lastAccessedAt);
+  for (const { id, entry } of candidates) {
+    if (totalBytes <= budget) break;
+    victims.push(id);
+    totalBytes -= entry.size;
+  }
+  return victims;
+};
+
 /**
  * A service object that encapsulates all IndexedDB operations for the image cache.
  */
 export const dbService = {
   /**
-   * Saves an image Blob to the database.
-   * @param {string} id - The unique identifier for the image (e.g., card ID).
+   * Saves an image Blob to the database, then evicts the least recently used images if the cache is
+   * over budget.
+   * @param {string} id - The image cache key (see `getImageCacheKey`).
    * @param {Blob} blob - The image data as a Blob.
+   * @param {string} storyId - The story the image belongs to.
+   * @param {string[]} [protectedIds] - Images that must not be evicted, e.g. because they are on screen.
    */
-  async saveImage(id: string, blob: Blob): Promise<void> {
+  async saveImage(id: string, blob: Blob, storyId: string, protectedIds: string[] = []): Promise<void> {
     try {
         const db = await getDb();
-        await db.put(STORE_NAME, blob, id);
+        const tx = db.transaction([STORE_NAME, ENTRY_STORE_NAME], 'readwrite');
+        const entry: ImageCacheEntry = { storyId, size: blob.size, lastAccessedAt: Date.now() };
+        await Promise.all([
+          tx.objectStore(STORE_NAME).put(blob, id),
+          tx.objectStore(ENTRY_STORE_NAME).put(entry, id),
+          tx.done,
+        ]);
+        await this.evictToBudget([id, ...protectedIds]);
     } catch (error) {
         console.error("Failed to save image to IndexedDB:", error);
     }
   },
 
   /**
-   * Retrieves an image Blob from the database.
+   * Retrieves an image Blob from the database and marks it as recently used.
    * @param {string} id - The ID of the image to retrieve.
    * @returns {Promise<Blob | undefined>} The image Blob, or undefined if not found.
    */
   async getImage(id: string): Promise<Blob | undefined> {
     try {
         const db = await getDb();
-        return db.get(STORE_NAME, id);
+        const blob: Blob | undefined = await db.get(STORE_NAME, id);
+        const entry: ImageCacheEntry | undefined = await db.get(ENTRY_STORE_NAME, id);
+        if (blob && entry) {
+          await db.put(ENTRY_STORE_NAME, { ...entry, lastAccessedAt: Date.now() }, id);
+        }
+        return blob;
     } catch (error) {
         console.error("Failed to get image from IndexedDB:", error);
         return undefined;
@@ -92,33 +223,170 @@ export const dbService = {
   },
 
   /**
-   * Retrieves all images from the database. Used for hydrating the cache on startup.
+   * Retrieves every cached image for one story. Used when exporting an investigation.
+   * @param {string} storyId - The story whose images to retrieve.
    * @returns {Promise<{ id: string, blob: Blob }[]>} An array of objects containing image IDs and their corresponding Blobs.
    */
-  async getAllImages(): Promise<{ id: string, blob: Blob }[]> {
+  async getStoryImages(storyId: string): Promise<{ id: string, blob: Blob }[]> {
     try {
         const db = await getDb();
-        const keys = await db.getAllKeys(STORE_NAME);
-        const blobs = await db.getAll(STORE_NAME);
-        return keys.map((key, index) => ({
-        id: String(key),
-        blob: blobs[index]
-        }));
+        const ids = (await db.getAllKeysFromIndex(ENTRY_STORE_NAME, 'storyId', storyId)).map(String);
+        const blobs: (Blob | undefined)[] = await Promise.all(ids.map(id => db.get(STORE_NAME, id)));
+        return ids.flatMap((id, index) => {
+          const blob = blobs[index];
+          return blob ? [{ id, blob }] : [];
+        });
     } catch (error) {
-        console.error("Failed to get all images from IndexedDB:", error);
+        console.error("Failed to get story images from IndexedDB:", error);
         return [];
     }
   },
 
+  /**
+   * Reports how much space the cached images are using, in total and per story.
+   * @returns {Promise<ImageCacheUsage>} The cache usage.
+   */
+  async getUsage(): Promise<ImageCacheUsage> {
+    const usage: ImageCacheUsage = { totalBytes: 0, imageCount: 0, bytesByStory: {} };
+    try {
+        const db = await getDb();
+        for (const { entry } of await getAllEntries(db)) {
+          usage.totalBytes += entry.size;
+          usage.imageCount++;
+          usage.bytesByStory[entry.storyId] = (usage.bytesByStory[entry.storyId] ?? 0) + entry.size;
+        }
+    } catch (error) {
+        console.error("Failed to measure image cache usage:", error);
+    }
+    return usage;
+  },
+
+  /**
+   * Evicts the least recently used images until the cache fits within its storage budget.
+   * @param {string[]} [protectedIds] - Images that must not be evicted.
+   * @returns {Promise<number>} The number of images evicted.
+   */
+  async evictToBudget(protectedIds: string[] = []): Promise<number> {
+    try {
+        const db = await getDb();
+        const budget = await getStorageBudget();
+        const victims = selectEvictionVictims(await getAllEntries(db), budget, protectedIds);
+        if (victims.length === 0) return 0;
+
+        const tx = db.transaction([STORE_NAME, ENTRY_STORE_NAME], 'readwrite');
+        await Promise.all([
+          ...victims.flatMap(id => [tx.objectStore(STORE_NAME).delete(id), tx.objectStore(ENTRY_STORE_NAME).delete(id)]),
+          tx.done,
+        ]);
+        return victims.length;
+    } catch (error) {
+        console.error("Failed to evict images from IndexedDB:", error);
+        return 0;
+    }
+  },
+
+  /**
+   * Removes every cached image belonging to one story.
+   * @param {string} storyId - The story whose images to remove.
+   */
+  async clearStoryImages(storyId: string): Promise<void> {
+    try {
+        const db = await getDb();
+        const ids = await db.getAllKeysFromIndex(ENTRY_STORE_NAME, 'storyId', storyId);
+        const tx = db.transaction([STORE_NAME, ENTRY_STORE_NAME], 'readwrite');
+        await Promise.all([
+          ...ids.flatMap(id => [tx.objectStore(STORE_NAME).delete(id), tx.objectStore(ENTRY_STORE_NAME).delete(id)]),
+          tx.done,
+        ]);
+    } catch (error) {
+        console.error("Failed to clear story images from IndexedDB:", error);
+    }
+  },
+
   /**
    * Clears the entire image cache from the database.
    */
   async clearImages(): Promise<void> {
     try {
         const db = await getDb();
-        await db.clear(STORE_NAME);
+        await Promise.all([db.clear(STORE_NAME), db.clear(ENTRY_STORE_NAME)]);
     } catch (error) {
         console.error("Failed to clear IndexedDB:", error);
     }
+  },
+
+  /**
+   * Records a failed image generation.
+   * @param {string} id - The image cache key.
+   * @param {ImageFailure} failure - The failure reason and retry schedule.
+   */
+  async saveImageFailure(id: string, failure: ImageFailure): Promise<void> {
+    try {
+        const db = await getDb();
+        await db.put(FAILURE_STORE_NAME, failure, id);
+    } catch (error) {
+        console.error("Failed to save image failure to IndexedDB:", error);
+    }
+  },
+
+  /**
+   * Forgets a failed image generation, e.g. once the image has been generated successfully.
+   * @param {string} id - The image cache key.
+   */
+  async deleteImageFailure(id: string): Promise<void> {
+    try {
+        const db = await getDb();
+        await db.delete(FAILURE_STORE_NAME, id);
+    } catch (error) {
+        console.error("Failed to delete image failure from IndexedDB:", error);
+    }
+  },
+
+  /**
+   * Retrieves every recorded image failure. Used by the `hydrateImageCache` thunk on startup.
+   * @returns {Promise<{ id: string, failure: ImageFailure }[]>} The failures, keyed by image cache key.
+   */
+  async getAllImageFailures(): Promise<{ id: string, failure: ImageFailure }[]> {
+    try {
+        const db = await getDb();
+        const keys = await db.getAllKeys(FAILURE_STORE_NAME);
+        const failures = await db.getAll(FAILURE_STORE_NAME);
+        return keys.map((key, index) => ({
+        id: String(key),
+        failure: failures[index]
+        }));
+    } catch (error) {
+        console.error("Failed to get image failures from IndexedDB:", error);
+        return [];
+    }
+  },
+
+  /**
+   * Retrieves the hotspot coordinates stored for a location image.
+   * @param {string} imageHash - The hash of the image (see `getImageContentHash`).
+   * @returns {Promise<HotspotCalibration | undefined>} The stored coordinates, or undefined if there are none.
+   */
+  async getHotspotCalibration(imageHash: string): Promise<HotspotCalibration | undefined> {
+    try {
+        const db = await getDb();
+        return db.get(HOTSPOT_STORE_NAME, imageHash);
+    } catch (error) {
+        console.error("Failed to get hotspot calibration from IndexedDB:", error);
+        return undefined;
+    }
+  },
+
+  /**
+   * Stores the hotspot coordinates for a location image.
+   * @param {string} imageHash - The hash of the image (see `getImageContentHash`).
+   * @param {HotspotCalibration} calibration - The coordinates and their lock state.
+   */
+  async saveHotspotCalibration(imageHash: string, calibration: HotspotCalibration): Promise<void> {
+    try {
+        const db = await getDb();
+        await db.put(HOTSPOT_STORE_NAME, calibration, imageHash);
+    } catch (error) {
+        console.error("Failed to save hotspot calibration to IndexedDB:", error);
+    }
   }
 };
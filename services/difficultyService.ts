@@ -0,0 +1,34 @@
+/**
+ * @file services/difficultyService.ts
+ * @description Resolves the balancing rules a case is played with from the chosen difficulty preset.
+ *
+ * @architectural_decision
+ * The rules are resolved once, when a case is loaded, and stored in the story state. Every reducer, thunk
+ * and component reads them from there (`selectDifficultyRules`) rather than from `config.ts`, so a save
+ * keeps the rules it was started with even if the presets are rebalanced later. The layering is: the
+ * preset, then the story's rules for every preset, then the story's rules for that one preset.
+ */
+
+import { DifficultyId, DifficultyRules, StoryObject, StoryPack } from '../types';
+import { DIFFICULTY_PRESETS } from '../config';
+
+/**
+ * Works out the rules for a case played on a difficulty preset.
+ * @param {StoryPack} pack - The case, which may override the presets.
+ * @param {DifficultyId} difficultyId - The preset the player chose.
+ * @returns {DifficultyRules} The rules to play the case with.
+ */
+export const resolveDifficultyRules = (pack: StoryPack, difficultyId: DifficultyId): DifficultyRules => ({
+  ...DIFFICULTY_PRESETS[difficultyId].rules,
+  ...pack.difficulty?.rules,
+  ...pack.difficulty?.presets?.[difficultyId],
+});
+
+/**
+ * The tokens unlocking an object costs under the given rules, rounded to whole tokens.
+ * @param {StoryObject} object - The object to unlock.
+ * @param {DifficultyRules} rules - The rules of the case.
+ * @returns {number} The cost, ignoring whether the object was unlocked before.
+ */
+export const getUnlockCost = (object: StoryObject, rules: DifficultyRules): number =>
+  Math.round((object.costToUnlock ?? 0) * rules.unlockCostMultiplier);
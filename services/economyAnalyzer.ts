@@ -0,0 +1,94 @@
+/**
+ * @file services/economyAnalyzer.ts
+ * @description Works out whether the player can still afford a case worth taking to the DA.
+ *
+ * @architectural_decision
+ * Tokens are spent freely on objects and questions, so a player can run out before collecting the evidence
+ * the case needs. The analyzer compares the balance with the cheapest way to an acceptable case: enough
+ * evidence on the timeline for an accusation (`accusationThreshold`), including a minimum number of the
+ * canonical key events. Like the trigger engine, it is pure and only sees a small summary of the state
+ * (`EconomyFacts`), built by the story slice's `selectEconomyAnalysis`, so it can be tested without a store.
+ * Only income the player can claim straight away counts against a shortfall: one-off bounties not yet
+ * solved. Bounties on a cooldown are left out, since waiting for them is not a way forward.
+ */
+
+/** An object the player could still add to the timeline. */
+export interface EconomyCandidate {
+  id: string;
+  /** What adding it would cost: nothing if it was unlocked before. */
+  cost: number;
+  isKeyEvent: boolean;
+}
+
+/** The parts of the game state the analyzer looks at. */
+export interface EconomyFacts {
+  balance: number;
+  /** How many pieces of evidence are on the timeline. */
+  evidenceCount: number;
+  accusationThreshold: number;
+  /** How many key events are on the timeline. */
+  keyEventsCollected: number;
+  /** How many key events an acceptable case includes. */
+  minKeyEvents: number;
+  candidates: EconomyCandidate[];
+  /** The rewards of the one-off bounties the player has not solved yet. */
+  bountyIncome: number;
+  /** How much spare balance the player should keep before they are warned. */
+  warningMargin: number;
+}
+
+/**
+ * `healthy`: the balance covers the cheapest path with room to spare.
+ * `atRisk`: the balance barely covers it, or only with the bounties still open.
+ * `softlocked`: nothing the player can do right away covers it.
+ */
+export type EconomyStatus = 'healthy' | 'atRisk' | 'softlocked';
+
+export interface EconomyAnalysis {
+  status: EconomyStatus;
+  /** The tokens the cheapest path to an acceptable case costs. */
+  requiredTokens: number;
+  /** How many tokens the balance is short of `requiredTokens`. */
+  shortfall: number;
+  /** The IDs of the objects on the cheapest path. */
+  path: string[];
+}
+
+/** The order of the statuses, from best to worst. */
+export const ECONOMY_STATUS_RANK: Record<EconomyStatus, number> = { healthy: 0, atRisk: 1, softlocked: 2 };
+
+const byCost = (a: EconomyCandidate, b: EconomyCandidate) => a.cost - b.cost;
+
+/**
+ * Finds the cheapest set of objects that completes an acceptable case: the cheapest missing key events
+ * first, then the cheapest of everything left until there is enough evidence. If the story does not have
+ * enough objects left, the path takes all of them.
+ * @param {EconomyFacts} facts - The current state of the game.
+ * @returns {EconomyCandidate[]} The objects on the path.
+ */
+export const findCheapestPath = (facts: EconomyFacts): EconomyCandidate[] => {
+  const keyCandidates = facts.candidates.filter(c => c.isKeyEvent).sort(byCost);
+  const keyTarget = Math.min(facts.minKeyEvents, facts.keyEventsCollected + keyCandidates.length);
+  const keyPath = keyCandidates.slice(0, Math.max(0, keyTarget - facts.keyEventsCollected));
+
+  const evidenceNeeded = Math.max(0, facts.accusationThreshold - facts.evidenceCount - keyPath.length);
+  const rest = facts.candidates.filter(c => !keyPath.includes(c)).sort(byCost).slice(0, evidenceNeeded);
+  return [...keyPath, ...rest];
+};
+
+/**
+ * Compares the player's balance with the cheapest path to an acceptable case.
+ * @param {EconomyFacts} facts - The current state of the game.
+ * @returns {EconomyAnalysis} How the player's budget stands.
+ */
+export const analyzeEconomy = (facts: EconomyFacts): EconomyAnalysis => {
+  const path = findCheapestPath(facts);
+  const requiredTokens = path.reduce((sum, c) => sum + c.cost, 0);
+  const shortfall = Math.max(0, requiredTokens - facts.balance);
+
+  let status: EconomyStatus = 'healthy';
+  if (shortfall > facts.bountyIncome) status = 'softlocked';
+  else if (path.length > 0 && facts.balance - requiredTokens < facts.warningMargin) status = 'atRisk';
+
+  return { status, requiredTokens, shortfall, path: path.map(c => c.id) };
+};
@@ -0,0 +1,135 @@
+/**
+ * @file services/hintEngine.ts
+ * @description Works out what ADA's next hint is about and how much it gives away.
+ *
+ * @architectural_decision
+ * Hints are derived from what the case still lacks: first the canonical key events the player can collect
+ * but has not, in the order the story lists them, then the primary case file slots that are still empty.
+ * Each missing piece has three tiers, bought in order: a vague nudge, a pointed hint and an explicit
+ * direction. Once all three are bought for one piece, the next hint is about the next piece. Like the
+ * economy analyzer, the engine is pure and only sees a summary of the state (`HintFacts`), built by the
+ * case file slice's `selectHintOffer`. The text is the story's authored hint for the tier when there is
+ * one; otherwise `buildHintSource` writes a plain version from the story data, which the AI paraphrases
+ * in ADA's voice and which is used as it is when the AI is not available.
+ */
+
+import { CanonicalTimeline, Clue, EvidenceSlot, HintTier, Location, PurchasedHint, StoryHint, StoryObject, TimelineAnchor } from '../types';
+
+/** The parts of the game state the engine looks at. */
+export interface HintFacts {
+  keyEvents: CanonicalTimeline['keyEvents'];
+  /** The IDs of the cards on the timeline. */
+  collectedIds: string[];
+  /** The IDs of the objects the player can reach. Key events outside it cannot be collected. */
+  reachableIds: Set<string>;
+  objects: { [id: string]: StoryObject | undefined };
+  locations: { [id: string]: Location | undefined };
+  anchors: TimelineAnchor[];
+  slots: { [slotId: string]: EvidenceSlot | undefined };
+  clues: Clue[];
+}
+
+/** A missing piece of the case that a hint can be about. */
+export interface HintTarget {
+  /** The key event's object ID or the case file slot's event key. */
+  id: string;
+  kind: 'keyEvent' | 'caseFile';
+  /** What is missing: the object's name, or the text of the clue that fills the slot. */
+  subject: string;
+  /** Why it matters: the key event's description, or the title of the slot's anchor. */
+  reason: string;
+  /** Where to find it: the location of the object, or null if it has none. */
+  place: string | null;
+}
+
+/** The hint the player can buy next. */
+export interface HintOffer {
+  target: HintTarget;
+  tier: HintTier;
+}
+
+/** The field of a `StoryHint` that holds each tier. */
+const TIER_FIELDS: Record<HintTier, 'vague' | 'pointed' | 'explicit'> = { 1: 'vague', 2: 'pointed', 3: 'explicit' };
+
+const MAX_TIER: HintTier = 3;
+
+/**
+ * Lists the missing pieces of the case, in the order hints cover them.
+ * @param {HintFacts} facts - The current state of the game.
+ * @returns {HintTarget[]} The key events still to collect, then the case file slots still to fill.
+ */
+export const findHintTargets = (facts: HintFacts): HintTarget[] => {
+  const collected = new Set(facts.collectedIds);
+
+  const keyEventTargets = facts.keyEvents
+    .filter(event => !collected.has(event.objectId) && facts.reachableIds.has(event.objectId) && facts.objects[event.objectId])
+    .map((event): HintTarget => {
+      const object = facts.objects[event.objectId]!;
+      return {
+        id: event.objectId,
+        kind: 'keyEvent',
+        subject: object.name,
+        reason: event.description,
+        place: facts.locations[object.locationFoundId]?.name ?? null,
+      };
+    });
+
+  const caseFileTargets = facts.anchors
+    .filter(anchor => anchor.primarySlot.correctEventKey && !facts.slots[anchor.primarySlot.slotId]?.placedClueId)
+    .flatMap((anchor): HintTarget[] => {
+      const clue = facts.clues.find(c => c.eventKey === anchor.primarySlot.correctEventKey);
+      return clue ? [{ id: clue.eventKey, kind: 'caseFile', subject: clue.text, reason: anchor.title, place: null }] : [];
+    });
+
+  return [...keyEventTargets, ...caseFileTargets];
+};
+
+/**
+ * Picks the next hint: the next tier for the first missing piece that has not had all of its tiers.
+ * @param {HintTarget[]} targets - The missing pieces of the case, from `findHintTargets`.
+ * @param {PurchasedHint[]} purchased - The hints bought so far.
+ * @param {number} maxTier - The most explicit tier the difficulty allows.
+ * @returns {HintOffer | null} The hint on offer, or null if there is none to give.
+ */
+export const getNextHintOffer = (targets: HintTarget[], purchased: PurchasedHint[], maxTier: number): HintOffer | null => {
+  const tierLimit = Math.min(maxTier, MAX_TIER);
+  for (const target of targets) {
+    const bought = purchased.filter(hint => hint.targetId === target.id).length;
+    if (bought < tierLimit) return { target, tier: (bought + 1) as HintTier };
+  }
+  return null;
+};
+
+/**
+ * Finds the story's authored text for a hint.
+ * @param {StoryHint[]} hints - The story's authored hints.
+ * @param {HintOffer} offer - The hint being bought.
+ * @returns {string | undefined} The authored text, or undefined if the story leaves this tier to the AI.
+ */
+export const getAuthoredHint = (hints: StoryHint[], offer: HintOffer): string | undefined =>
+  hints.find(hint => hint.targetId === offer.target.id)?.[TIER_FIELDS[offer.tier]];
+
+/**
+ * Writes a plain hint from the story data. Each tier gives away more: why the piece matters, then where
+ * or what to look for, then exactly what to do.
+ * @param {HintOffer} offer - The hint being bought.
+ * @returns {string} The hint text.
+ */
+export const buildHintSource = ({ target, tier }: HintOffer): string => {
+  if (target.kind === 'caseFile') {
+    switch (tier) {
+      case 1: return `The case file still has a hole in it. ${target.reason} is missing the clue it rests on.`;
+      case 2: return `Look through the evidence pool for the clue that carries ${target.reason}. It belongs in the primary slot, not a supporting one.`;
+      case 3: return `Place this clue in the primary slot of ${target.reason}: "${target.subject}"`;
+    }
+  }
+  switch (tier) {
+    case 1: return `The timeline is missing something. Think about this: ${target.reason}`;
+    case 2: return target.place
+      ? `I'd take another look at ${target.place}. Something there belongs on the timeline.`
+      : `Go back over the people in this case. One of them can lead us to what's missing from the timeline.`;
+    case 3: return target.place
+      ? `Find "${target.subject}" at ${target.place} and add it to the timeline.`
+      : `Find "${target.subject}" and add it to the timeline.`;
+  }
+};
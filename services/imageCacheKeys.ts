@@ -0,0 +1,48 @@
+/**
+ * @file services/imageCacheKeys.ts
+ * @description Builds the keys under which generated images are cached, both in the Redux store and in
+ * `dbService`.
+ *
+ * @architectural_decision
+ * A card can be shown with different color treatments (e.g. an object is `monochrome` before it is unlocked
+ * and `selectiveColor` after), and its `imagePrompt` can change when the story is edited. Keying images by
+ * card ID alone meant whichever variant was generated first was shown forever. The key therefore combines
+ * the card ID, the treatment and a hash of the prompt, so every variant is cached separately and an edited
+ * prompt simply misses the cache and is regenerated. Keys are namespaced by story, so each case's images can be
+ * measured, exported and cleared on their own, and two cases that reuse a card ID never share an image.
+ */
+
+import { ColorTreatment } from './aiProvider';
+
+/**
+ * A small, stable string hash (djb2 variant).
+ * @param {string} input - The string to hash.
+ * @returns {number} A non-negative 32-bit integer.
+ */
+export const hashString = (input: string): number => {
+  let hash = 5381;
+  for (let i = 0; i < input.length; i++) {
+    hash = ((hash << 5) + hash + input.charCodeAt(i)) | 0;
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Fingerprints the contents of an image, for data that belongs to one specific generated image (such as its
+ * hotspot coordinates) rather than to whatever image a card currently has.
+ * @param {string} base64Image - The image bytes, base64 encoded.
+ * @returns {string} A key of the form `hash-length`.
+ */
+export const getImageContentHash = (base64Image: string): string =>
+  `${hashString(base64Image).toString(36)}-${base64Image.length.toString(36)}`;
+
+/**
+ * Builds the cache key for one variant of a card's image.
+ * @param {string} storyId - The ID of the story the card belongs to.
+ * @param {string} cardId - The ID of the card the image belongs to.
+ * @param {ColorTreatment} colorTreatment - The visual style of the image.
+ * @param {string} prompt - The prompt the image is generated from.
+ * @returns {string} A key of the form `storyId/cardId::treatment::promptHash`.
+ */
+export const getImageCacheKey = (storyId: string, cardId: string, colorTreatment: ColorTreatment, prompt: string): string =>
+  `${storyId}/${cardId}::${colorTreatment}::${hashString(prompt).toString(36)}`;
@@ -0,0 +1,59 @@
+/**
+ * @file services/imageFailures.ts
+ * @description Classifies failed image generations and schedules their retries.
+ *
+ * @architectural_decision
+ * A failure is recorded with a reason and an attempt count rather than a simple flag, so the retry policy
+ * can depend on both. Transient failures (rate limits, network errors) are retried automatically with
+ * exponential backoff; a safety-filtered prompt will almost certainly be filtered again, so it waits for
+ * the player to ask. The schedule is stored as an absolute timestamp, which lets it survive a page reload.
+ */
+
+import { ImageFailure, ImageFailureReason } from '../types';
+import { API_CONFIG } from '../config';
+import { ImageGenerationError } from './aiProvider';
+
+/** Player-facing descriptions of each failure reason. */
+const FAILURE_DESCRIPTIONS: Record<ImageFailureReason, string> = {
+  rateLimit: 'The image service is busy.',
+  safety: 'The image was blocked by a content filter.',
+  network: 'The image service could not be reached.',
+  unknown: 'The image could not be generated.',
+};
+
+/**
+ * Works out why an image generation failed.
+ * @param {unknown} error - The error thrown by the provider, or undefined if it returned null.
+ * @returns {ImageFailureReason} The failure reason.
+ */
+export const classifyImageFailure = (error: unknown): ImageFailureReason => {
+  if (error instanceof ImageGenerationError) return error.reason;
+  // `fetch` rejects with a TypeError when the request never reaches the server.
+  if (error instanceof TypeError) return 'network';
+  return 'unknown';
+};
+
+/**
+ * Records one more failed attempt for an image.
+ * @param {ImageFailureReason} reason - Why the latest attempt failed.
+ * @param {ImageFailure | undefined} previous - The failure recorded for the image before this attempt, if any.
+ * @param {number} now - The current time (epoch ms).
+ * @returns {ImageFailure} The updated failure record, with the next automatic retry scheduled.
+ */
+export const recordImageFailure = (reason: ImageFailureReason, previous: ImageFailure | undefined, now: number): ImageFailure => {
+  const attempts = (previous?.attempts ?? 0) + 1;
+  if (reason === 'safety' || attempts >= API_CONFIG.IMAGE_RETRY_MAX_ATTEMPTS) {
+    return { reason, attempts, nextRetryAt: null };
+  }
+
+  const baseDelay = API_CONFIG.IMAGE_RETRY_BASE_DELAY * (reason === 'rateLimit' ? 2 : 1);
+  const delay = Math.min(baseDelay * 2 ** (attempts - 1), API_CONFIG.IMAGE_RETRY_MAX_DELAY);
+  return { reason, attempts, nextRetryAt: now + delay };
+};
+
+/**
+ * Returns a short, player-facing explanation of a failure.
+ * @param {ImageFailureReason} reason - The failure reason.
+ * @returns {string} The description.
+ */
+export const describeImageFailure = (reason: ImageFailureReason): string => FAILURE_DESCRIPTIONS[reason];
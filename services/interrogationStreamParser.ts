@@ -0,0 +1,128 @@
+/**
+ * @file services/interrogationStreamParser.ts
+ * @description An incremental parser that pulls completed witness chunks out of a streaming interrogation reply.
+ *
+ * @architectural_decision
+ * The reply is one JSON object, so it can only be validated as a whole once the stream ends. The `chunks`
+ * array comes first in the contract, though, and each of its elements is complete long before the rest of the
+ * reply arrives. The parser scans the text as it streams in, tracking string and nesting state, and emits
+ * each element of `chunks` as soon as its closing brace arrives. Elements are normalized with the same rules
+ * as the validator, so what the player sees while the witness is "talking" matches the final, validated turn.
+ * The parser never decides whether the turn is valid; `parseInterrogationResponse` still does that at the end.
+ */
+
+import { InterrogationChunk, normalizeInterrogationChunk } from './interrogationValidator';
+
+export interface ChunkStreamParser {
+    /**
+     * Feeds the next piece of streamed text.
+     * @param {string} text - The new text, in stream order.
+     * @returns {InterrogationChunk[]} The chunks completed by this piece, in order. Often empty.
+     */
+    push(text: string): InterrogationChunk[];
+}
+
+/**
+ * Creates a parser for a single streamed reply. Create a new one for each reply, including repairs.
+ * @returns {ChunkStreamParser} The parser.
+ */
+export const createChunkStreamParser = (): ChunkStreamParser => {
+    let buffer = '';
+    // The next position in the buffer to scan.
+    let position = 0;
+    // Any prose before the reply's opening brace is skipped.
+    let hasStarted = false;
+    // The number of open objects and arrays.
+    let depth = 0;
+    let inString = false;
+    let isEscaped = false;
+    let stringStart = -1;
+    // The last string seen directly inside the reply object, which is the key when an array opens.
+    let lastTopLevelString: string | null = null;
+    // The nesting depth of the elements of `chunks`, or -1 outside of it.
+    let chunksDepth = -1;
+    let isChunksDone = false;
+    let elementStart = -1;
+    let elementIndex = 0;
+
+    const emit = (literal: string, completed: InterrogationChunk[]) => {
+        try {
+            const chunk = normalizeInterrogationChunk(JSON.parse(literal), elementIndex, []);
+            if (chunk) completed.push(chunk);
+        } catch {
+            // Left for the final validation to report.
+        }
+        elementIndex++;
+    };
+
+    return {
+        push(text) {
+            buffer += text;
+            const completed: InterrogationChunk[] = [];
+
+            for (; position < buffer.length; position++) {
+                const char = buffer[position];
+
+                if (!hasStarted) {
+                    if (char === '{') {
+                        hasStarted = true;
+                        depth = 1;
+                    }
+                    continue;
+                }
+
+                if (inString) {
+                    if (isEscaped) {
+                        isEscaped = false;
+                    } else if (char === '\\') {
+                        isEscaped = true;
+                    } else if (char === '"') {
+                        inString = false;
+                        const literal = buffer.slice(stringStart, position + 1);
+                        if (depth === 1) {
+                            try {
+                                lastTopLevelString = JSON.parse(literal);
+                            } catch {
+                                lastTopLevelString = null;
+                            }
+                        } else if (depth === chunksDepth) {
+                            // A bare string element, which the validator accepts as a chunk.
+                            emit(literal, completed);
+                        }
+                    }
+                    continue;
+                }
+
+                switch (char) {
+                    case '"':
+                        inString = true;
+                        stringStart = position;
+                        break;
+                    case '[':
+                        if (depth === 1 && lastTopLevelString === 'chunks' && !isChunksDone) {
+                            chunksDepth = depth + 1;
+                        }
+                        depth++;
+                        break;
+                    case '{':
+                        if (depth === chunksDepth) elementStart = position;
+                        depth++;
+                        break;
+                    case '}':
+                    case ']':
+                        depth--;
+                        if (char === '}' && depth === chunksDepth && elementStart !== -1) {
+                            emit(buffer.slice(elementStart, position + 1), completed);
+                            elementStart = -1;
+                        } else if (char === ']' && depth === chunksDepth - 1) {
+                            chunksDepth = -1;
+                            isChunksDone = true;
+                        }
+                        break;
+                }
+            }
+
+            return completed;
+        },
+    };
+};
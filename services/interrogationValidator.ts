@@ -0,0 +1,194 @@
+/**
+ * @file services/interrogationValidator.ts
+ * @description Validates and normalizes the JSON an interrogation AI returns for each turn.
+ *
+ * @architectural_decision
+ * The model is asked for a strict JSON contract, but in practice it sometimes returns near-misses: a
+ * progress value as a string or far out of range, chunks as bare strings, a missing list of suggested
+ * questions, or an `insight` without one of its fields. Rejecting all of these would throw away usable
+ * answers, and passing them through would let malformed data reach `DialogueCard`. The validator therefore
+ * repairs what it safely can (coercing types, clamping values, filling defaults, dropping broken optional
+ * parts) and only reports an error when no usable answer is left, at which point the caller re-prompts.
+ */
+
+import { DialogueChunkData, Insight } from '../types';
+import { GAME_MECHANICS } from '../config';
+
+/** A chunk of a witness's answer, before `DialogueCard` assigns it an ID. */
+export type InterrogationChunk = Omit<DialogueChunkData, 'id'>;
+
+/**
+ * The expected structure of a valid JSON response from the interrogation AI.
+ */
+export interface InterrogationResponse {
+    chunks: InterrogationChunk[];
+    nextSuggestedQuestions: string[];
+    phaseUpdate: { progressValue: number; hostilityChange: number };
+    phaseCompleted?: boolean;
+    adaFeedback: string;
+}
+
+/** The outcome of validating one AI turn. */
+export type InterrogationValidationResult =
+    | { ok: true; response: InterrogationResponse; repairs: string[] }
+    | { ok: false; errors: string[] };
+
+/** The most suggested questions shown to the player at once. */
+const MAX_SUGGESTED_QUESTIONS = 3;
+/** The largest change in hostility a single turn can cause, in either direction. */
+const MAX_HOSTILITY_CHANGE = 30;
+/** Shown in place of ADA's analysis when the model omits it. */
+const DEFAULT_ADA_FEEDBACK = "ADA has no analysis for that answer.";
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+/** Accepts `true` and the string "true"; anything else is false. */
+const toBoolean = (value: unknown): boolean => value === true || value === 'true';
+
+/**
+ * Normalizes a single chunk, or returns null if it has no usable text.
+ * Also used by the stream parser, so chunks shown while a reply streams in match the validated ones.
+ * @param {unknown} raw - One element of the `chunks` array.
+ * @param {number} index - The element's position, used in repair messages.
+ * @param {string[]} repairs - Collects a description of each repair made.
+ * @returns {InterrogationChunk | null} The normalized chunk, or null.
+ */
+export const normalizeInterrogationChunk = (raw: unknown, index: number, repairs: string[]): InterrogationChunk | null => {
+    if (isNonEmptyString(raw)) {
+        repairs.push(`chunks[${index}] was a bare string.`);
+        return { text: raw.trim() };
+    }
+    if (!raw || typeof raw !== 'object' || !isNonEmptyString((raw as any).text)) {
+        return null;
+    }
+
+    const { text, isCriticalClue, insight } = raw as any;
+    const chunk: InterrogationChunk = { text: text.trim() };
+    if (toBoolean(isCriticalClue)) chunk.isCriticalClue = true;
+
+    if (insight !== undefined && insight !== null) {
+        if (isNonEmptyString(insight.justification) && isNonEmptyString(insight.newLead)) {
+            chunk.insight = { justification: insight.justification.trim(), newLead: insight.newLead.trim() } as Insight;
+        } else {
+            repairs.push(`chunks[${index}].insight was malformed and was dropped.`);
+        }
+    }
+    return chunk;
+};
+
+/**
+ * Validates an AI turn, repairing it where possible.
+ * @param {unknown} raw - The parsed JSON from the model.
+ * @returns {InterrogationValidationResult} The normalized response and a list of the repairs made, or the
+ * reasons the response could not be used.
+ */
+export const validateInterrogationResponse = (raw: unknown): InterrogationValidationResult => {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        return { ok: false, errors: ["The response is not a JSON object."] };
+    }
+    const data = raw as any;
+    const repairs: string[] = [];
+
+    // --- chunks (required) ---
+    if (!Array.isArray(data.chunks)) {
+        return { ok: false, errors: ["'chunks' must be an array of objects with a 'text' string."] };
+    }
+    const chunks = data.chunks
+        .map((chunk: unknown, index: number) => normalizeInterrogationChunk(chunk, index, repairs))
+        .filter((chunk: InterrogationChunk | null): chunk is InterrogationChunk => chunk !== null);
+    if (chunks.length === 0) {
+        return { ok: false, errors: ["'chunks' contains no chunk with non-empty 'text'."] };
+    }
+    if (chunks.length < data.chunks.length) {
+        repairs.push(`${data.chunks.length - chunks.length} chunk(s) without text were dropped.`);
+    }
+
+    // --- phaseUpdate.progressValue (clamped, defaults to 0) ---
+    // Some responses put the value at the top level instead of inside `phaseUpdate`.
+    const rawProgress = data.phaseUpdate?.progressValue ?? data.progressValue;
+    let progressValue = typeof rawProgress === 'string' ? parseFloat(rawProgress) : rawProgress;
+    if (typeof progressValue !== 'number' || !Number.isFinite(progressValue)) {
+        repairs.push("'phaseUpdate.progressValue' was missing or not a number; defaulted to 0.");
+        progressValue = 0;
+    }
+    const clampedProgress = Math.min(GAME_MECHANICS.PHASE_COMPLETION_GOAL, Math.max(0, Math.round(progressValue)));
+    if (clampedProgress !== progressValue) {
+        repairs.push(`'phaseUpdate.progressValue' ${progressValue} was normalized to ${clampedProgress}.`);
+    }
+
+    // --- phaseUpdate.hostilityChange (optional, clamped, defaults to 0) ---
+    // Older personas and scripts do not report it, so a missing value is not a repair.
+    const rawHostility = data.phaseUpdate?.hostilityChange;
+    const hostilityValue = typeof rawHostility === 'string' ? parseFloat(rawHostility) : rawHostility;
+    let hostilityChange = 0;
+    if (typeof hostilityValue === 'number' && Number.isFinite(hostilityValue)) {
+        hostilityChange = Math.min(MAX_HOSTILITY_CHANGE, Math.max(-MAX_HOSTILITY_CHANGE, Math.round(hostilityValue)));
+        if (hostilityChange !== hostilityValue) {
+            repairs.push(`'phaseUpdate.hostilityChange' ${hostilityValue} was normalized to ${hostilityChange}.`);
+        }
+    } else if (rawHostility !== undefined) {
+        repairs.push("'phaseUpdate.hostilityChange' was not a number; defaulted to 0.");
+    }
+
+    // --- nextSuggestedQuestions (defaults to none) ---
+    let nextSuggestedQuestions: string[] = [];
+    if (Array.isArray(data.nextSuggestedQuestions)) {
+        nextSuggestedQuestions = data.nextSuggestedQuestions
+            .filter(isNonEmptyString)
+            .map((question: string) => question.trim())
+            .slice(0, MAX_SUGGESTED_QUESTIONS);
+    } else {
+        repairs.push("'nextSuggestedQuestions' was missing.");
+    }
+
+    // --- adaFeedback (defaults to a neutral line) ---
+    let adaFeedback = DEFAULT_ADA_FEEDBACK;
+    if (isNonEmptyString(data.adaFeedback)) {
+        adaFeedback = data.adaFeedback.trim();
+    } else {
+        repairs.push("'adaFeedback' was missing.");
+    }
+
+    return {
+        ok: true,
+        response: {
+            chunks,
+            nextSuggestedQuestions,
+            phaseUpdate: { progressValue: clampedProgress, hostilityChange },
+            phaseCompleted: toBoolean(data.phaseCompleted),
+            adaFeedback,
+        },
+        repairs,
+    };
+};
+
+/**
+ * Extracts and validates the JSON object in a model's raw text output.
+ * @param {string} text - The full text of the model's reply.
+ * @returns {InterrogationValidationResult} The validation result.
+ */
+export const parseInterrogationResponse = (text: string): InterrogationValidationResult => {
+    // Robustly find the JSON object in the AI's response, ignoring any prose or code fences around it.
+    const jsonStart = text.indexOf('{');
+    const jsonEnd = text.lastIndexOf('}');
+    if (jsonStart === -1 || jsonEnd < jsonStart) {
+        return { ok: false, errors: ["No JSON object was found in the response."] };
+    }
+
+    try {
+        return validateInterrogationResponse(JSON.parse(text.substring(jsonStart, jsonEnd + 1)));
+    } catch (error: any) {
+        return { ok: false, errors: [`The JSON could not be parsed: ${error?.message || error}`] };
+    }
+};
+
+/**
+ * Builds the follow-up message that asks the model to resend its last answer in the correct format.
+ * @param {string[]} errors - What was wrong with the last answer.
+ * @returns {string} The repair prompt.
+ */
+export const buildRepairPrompt = (errors: string[]): string =>
+    `SYSTEM: Your last reply could not be read. Problems: ${errors.join(' ')} ` +
+    `Resend the same answer, in character, as a single valid JSON object with 'chunks' (an array of objects, ` +
+    `each with 'text' and 'isCriticalClue'), 'phaseUpdate' (an object with a numeric 'progressValue' and 'hostilityChange'), ` +
+    `'nextSuggestedQuestions' (an array of 3 strings) and 'adaFeedback' (a string). Do not include any other text.`;
@@ -0,0 +1,224 @@
+/**
+ * @file services/providers/scriptedProvider.ts
+ * @description A fully offline, deterministic AI backend driven by fixture files.
+ *
+ * @architectural_decision
+ * The scripted provider lets the game boot, play through and be tested on a machine with no API key
+ * and no network. Every answer is derived from the fixture data and the input alone, so the same
+ * prompt always yields the same response. Images are rendered as simple SVG placeholder cards,
+ * interrogations replay authored turns per line of inquiry, and the case evaluation applies the same
+ * scoring rules the live model is instructed to follow.
+ */
+
+import { CanonicalTimeline, TimelineEvaluation, Insight } from '../../types';
+import { AIProvider, AIChatSession, AIChatStreamChunk, AIChatTurn, ColorTreatment } from '../aiProvider';
+// Fixture entries are picked with the same stable hash used for image cache keys.
+import { hashString } from '../imageCacheKeys';
+
+/** A single, pre-authored interrogation or interview turn. */
+export interface ScriptedTurn {
+  chunks: { text: string; isCriticalClue?: boolean; insight?: Insight }[];
+  nextSuggestedQuestions: string[];
+  progressValue: number;
+  /** How much the turn antagonizes a suspect. Defaults to 0. */
+  hostilityChange?: number;
+  adaFeedback: string;
+  phaseCompleted?: boolean;
+}
+
+/** The authored script for a single persona. */
+export interface ScriptedPersona {
+  /** A substring of the persona's system instruction that identifies it, e.g. "You are Sophia Wong". */
+  personaMatch: string;
+  /** Turns played in order, keyed by the line of inquiry label the player is pursuing. */
+  linesOfInquiry: { [label: string]: ScriptedTurn[] };
+  /** Turns played when the message carries no known line of inquiry (e.g. witness interviews). */
+  defaultTurns: ScriptedTurn[];
+}
+
+/** The complete fixture set that drives the scripted provider. */
+export interface ScriptedFixtures {
+  adaResponses: string[];
+  personas: ScriptedPersona[];
+  fallbackTurns: ScriptedTurn[];
+}
+
+// The number of characters each streamed chunk carries, to mimic a real streaming response.
+const STREAM_CHUNK_SIZE = 48;
+// The pause in milliseconds between streamed chunks, so replies arrive incrementally as they do live.
+const STREAM_CHUNK_DELAY = 30;
+
+/**
+ * Encodes a UTF-8 string as base64 without relying on Node's `Buffer`.
+ * @param {string} input - The string to encode.
+ * @returns {string} The base64 representation.
+ */
+const toBase64 = (input: string): string => {
+  const bytes = new TextEncoder().encode(input);
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary);
+};
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Renders a deterministic placeholder image for a prompt. The shade is derived from the prompt hash,
+ * and the selective-color treatment adds the game's signature red accent.
+ */
+const renderPlaceholderSvg = (prompt: string, colorTreatment: ColorTreatment): string => {
+  const isMap = colorTreatment === 'map';
+  const [width, height] = isMap ? [1600, 900] : [768, 1024];
+  const shade = 24 + (hashString(prompt) % 48);
+  const background = `rgb(${shade},${shade},${shade})`;
+  const caption = escapeXml(prompt.slice(0, 60));
+  const accent = colorTreatment === 'selectiveColor'
+    ? `<circle cx="${width / 2}" cy="${height / 2}" r="${width / 6}" fill="#ff0000" opacity="0.8"/>`
+    : '';
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`
+    + `<rect width="100%" height="100%" fill="${background}"/>${accent}`
+    + `<text x="50%" y="92%" fill="#e6e6e6" font-family="monospace" font-size="24" text-anchor="middle">${caption}</text>`
+    + `</svg>`;
+};
+
+/**
+ * Extracts the line of inquiry label that `DialogueCard` prefixes to interrogation questions.
+ * @param {string} message - The raw message sent to the chat.
+ * @returns {string | null} The label, or null if the message carries none.
+ */
+const extractLineOfInquiry = (message: string): string | null => {
+  const match = message.match(/\(My current line of inquiry is: "([^"]+)"\)/);
+  return match ? match[1] : null;
+};
+
+/**
+ * Creates a scripted chat session that replays the authored turns for a persona.
+ * Each line of inquiry keeps its own cursor; once a script runs out, its final turn is replayed
+ * without awarding further progress. When resuming, the player's earlier messages advance the cursors
+ * so the script picks up where it left off.
+ */
+const createScriptedChat = (persona: string, fixtures: ScriptedFixtures, history: AIChatTurn[]): AIChatSession => {
+  const script = fixtures.personas.find(p => persona.includes(p.personaMatch));
+  const cursors: { [key: string]: number } = {};
+
+  const nextTurn = (message: string): ScriptedTurn => {
+    const label = extractLineOfInquiry(message);
+    const loiTurns = label ? script?.linesOfInquiry[label] : undefined;
+    const turns = loiTurns?.length ? loiTurns : script?.defaultTurns.length ? script.defaultTurns : fixtures.fallbackTurns;
+    const key = loiTurns?.length ? label! : '__default__';
+    const index = cursors[key] ?? 0;
+    cursors[key] = index + 1;
+
+    if (index < turns.length) return turns[index];
+    const lastTurn = turns[turns.length - 1];
+    return { ...lastTurn, progressValue: 0, hostilityChange: 0, phaseCompleted: false };
+  };
+
+  history.filter(turn => turn.role === 'user').forEach(turn => nextTurn(turn.text));
+
+  return {
+    async sendMessageStream({ message }) {
+      const { progressValue, hostilityChange = 0, ...turn } = nextTurn(message);
+      return streamText(JSON.stringify({ ...turn, phaseUpdate: { progressValue, hostilityChange } }));
+    },
+  };
+};
+
+/**
+ * Splits a string into fixed-size pieces and yields them as stream chunks.
+ * @param {string} text - The full response text.
+ * @returns {AsyncIterable<AIChatStreamChunk>} An async iterable of chunks.
+ */
+async function* streamText(text: string): AsyncIterable<AIChatStreamChunk> {
+  for (let offset = 0; offset < text.length; offset += STREAM_CHUNK_SIZE) {
+    if (offset > 0) await new Promise(resolve => setTimeout(resolve, STREAM_CHUNK_DELAY));
+    yield { text: text.slice(offset, offset + STREAM_CHUNK_SIZE) };
+  }
+}
+
+/**
+ * Scores a submission with the same rubric the live evaluation prompt describes: the suspect match,
+ * the share of key events covered and a penalty for irrelevant evidence.
+ */
+const scoreSubmission = (
+  playerSubmission: { suspectId: string; evidenceIds: string[] },
+  groundTruth: CanonicalTimeline,
+  suspectName: string
+): TimelineEvaluation => {
+  const keyEventIds = groundTruth.keyEvents.map(e => e.objectId);
+  const submitted = new Set(playerSubmission.evidenceIds);
+  const found = groundTruth.keyEvents.filter(e => submitted.has(e.objectId));
+  const missing = groundTruth.keyEvents.filter(e => !submitted.has(e.objectId));
+  const irrelevantCount = playerSubmission.evidenceIds.filter(id => !keyEventIds.includes(id)).length;
+  const isCorrectSuspect = playerSubmission.suspectId === groundTruth.culpritId;
+
+  const coverage = keyEventIds.length > 0 ? found.length / keyEventIds.length : 0;
+  const rawScore = (isCorrectSuspect ? 40 : 0) + coverage * 60 - irrelevantCount * 2;
+  const score = Math.max(0, Math.min(100, Math.round(rawScore)));
+  const verdict: TimelineEvaluation['verdict'] = score > 85 ? 'Case Accepted' : score >= 50 ? 'Case Weak' : 'Case Rejected';
+
+  const strengths = [
+    ...(isCorrectSuspect ? [`Correctly identified ${suspectName} as the perpetrator.`] : []),
+    ...found.map(e => e.description),
+  ];
+  const weaknesses = [
+    ...(isCorrectSuspect ? [] : [`The evidence does not support ${suspectName} as the perpetrator.`]),
+    ...missing.map(e => `Missing: ${e.description}`),
+    ...(irrelevantCount > 0 ? [`${irrelevantCount} submitted item(s) are irrelevant to the core narrative.`] : []),
+  ];
+
+  return {
+    verdict,
+    score,
+    reasoning: `The submission covers ${found.length} of ${keyEventIds.length} key events${isCorrectSuspect ? ' and names the right suspect' : ' but names the wrong suspect'}.`,
+    strengths,
+    weaknesses,
+  };
+};
+
+/**
+ * Creates the offline, deterministic AI provider.
+ * @param {ScriptedFixtures} fixtures - The authored responses that drive the provider.
+ * @returns {AIProvider} A provider that never touches the network.
+ */
+export const createScriptedProvider = (fixtures: ScriptedFixtures): AIProvider => ({
+  name: 'scripted',
+
+  async getADAResponse(prompt) {
+    if (fixtures.adaResponses.length === 0) return "ADA online. Standing by for forensic analysis.";
+    return fixtures.adaResponses[hashString(prompt) % fixtures.adaResponses.length];
+  },
+
+  async generateImage(prompt, colorTreatment) {
+    return { mimeType: 'image/svg+xml', bytes: toBase64(renderPlaceholderSvg(prompt, colorTreatment)) };
+  },
+
+  async analyzeImageForHotspots(_base64Image, itemsToFind) {
+    // Spread the items across the central area of the image, using each ID's hash as a stable seed.
+    return itemsToFind.reduce((acc, item) => {
+      const hash = hashString(item.id);
+      acc[item.id] = { x: 0.15 + (hash % 70) / 100, y: 0.25 + ((hash >>> 8) % 55) / 100 };
+      return acc;
+    }, {} as { [key: string]: { x: number; y: number } });
+  },
+
+  startInterviewChat(persona, history = []) {
+    return createScriptedChat(persona, fixtures, history);
+  },
+
+  async summarizePlayerTimeline(evidenceList, suspectName) {
+    const items = evidenceList.map(e => e.name).join(', ');
+    return `The evidence points to ${suspectName}. The case file rests on the following: ${items || 'no collected evidence'}.`;
+  },
+
+  async evaluateTimeline(playerSubmission, groundTruth, suspectName) {
+    return scoreSubmission(playerSubmission, groundTruth, suspectName);
+  },
+
+  // Hints are already written from the story data, so they are given as they are.
+  async paraphraseHint(hint) {
+    return hint;
+  },
+});
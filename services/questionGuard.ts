@@ -0,0 +1,88 @@
+/**
+ * @file services/questionGuard.ts
+ * @description Checks a question the player typed before it is sent to an interrogation.
+ *
+ * @architectural_decision
+ * Typed questions are open-ended, so they are screened locally before any tokens are spent on a model turn.
+ * Questions that are empty, too long or abusive are simply rejected. A question with nothing to do with the
+ * case is answered by ADA instead of the suspect: it costs the price of a suggested question but skips the
+ * AI entirely. The off-topic check is deliberately simple and deterministic: a question is on topic if it
+ * shares a meaningful word with the case vocabulary (the active line of inquiry, its questions, the people,
+ * places and evidence involved) or with a short list of investigative terms. It errs towards letting a
+ * question through, since a wrongly blocked question is more frustrating than a weak answer.
+ */
+
+/** Questions shorter than this are rejected as empty. */
+export const MIN_TYPED_QUESTION_LENGTH = 8;
+/** Questions longer than this are rejected. Also used as the input's `maxLength`. */
+export const MAX_TYPED_QUESTION_LENGTH = 200;
+
+/** Why a typed question was not sent to the suspect. */
+export type QuestionRejectionReason = 'tooShort' | 'tooLong' | 'profanity' | 'offTopic';
+
+/** The outcome of screening a typed question. */
+export type QuestionGuardResult =
+  | { ok: true; question: string }
+  | { ok: false; reason: QuestionRejectionReason; feedback: string };
+
+/** ADA's response to each kind of rejected question. */
+const REJECTION_FEEDBACK: Record<QuestionRejectionReason, string> = {
+  tooShort: "That's not a question, Detective. Give them something to answer.",
+  tooLong: `Keep it under ${MAX_TYPED_QUESTION_LENGTH} characters. A suspect won't sit through a speech.`,
+  profanity: "Keep it professional. Anything you say in here can end up in front of a judge.",
+  offTopic: "That has nothing to do with the case. The suspect is laughing at us, and it cost us time.",
+};
+
+// A short list, matched against whole words only, to avoid flagging innocent words that contain one.
+const PROFANITY = ['fuck', 'fucking', 'fucker', 'shit', 'bitch', 'bastard', 'asshole', 'cunt', 'dick', 'whore', 'slut', 'motherfucker'];
+
+// Terms that are on topic in any interrogation.
+const INVESTIGATIVE_TERMS = [
+  'alibi', 'argument', 'body', 'business', 'crime', 'dead', 'death', 'die', 'died', 'evidence', 'family', 'father',
+  'fight', 'found', 'happened', 'home', 'kill', 'killed', 'lie', 'lied', 'lying', 'money', 'mother', 'motive', 'murder',
+  'night', 'police', 'relationship', 'saw', 'scene', 'seen', 'suspect', 'time', 'truth', 'victim', 'weapon', 'witness',
+  'work',
+];
+
+// Words too common to show that a question is about anything in particular.
+const STOPWORDS = new Set([
+  'a', 'about', 'after', 'all', 'am', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'been', 'before', 'being', 'but',
+  'by', 'can', 'could', 'did', 'do', 'does', 'doing', 'for', 'from', 'get', 'got', 'had', 'has', 'have', 'he', 'her',
+  'hers', 'him', 'his', 'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'just', 'know', 'like', 'me', 'my', 'no',
+  'not', 'of', 'on', 'or', 'our', 'out', 'she', 'so', 'tell', 'than', 'that', 'the', 'their', 'them', 'then', 'there',
+  'they', 'think', 'this', 'to', 'up', 'us', 'was', 'we', 'were', 'what', 'when', 'where', 'which', 'who', 'whom',
+  'why', 'will', 'with', 'would', 'you', 'your', 'yours', 'yes', 'really', 'very', 'much', 'many', 'some', 'ever',
+]);
+
+/** Splits text into lowercase words. */
+const toWords = (text: string): string[] => text.toLowerCase().match(/[a-z][a-z'-]*/g) ?? [];
+
+/** Splits text into the words that carry meaning. */
+const toKeywords = (text: string): string[] => toWords(text).filter(word => word.length > 2 && !STOPWORDS.has(word));
+
+/** Two words match if they are equal or, for longer words, share a rough stem (e.g. "argue" and "argument"). */
+const isSameWord = (a: string, b: string): boolean =>
+  a === b || (a.length >= 5 && b.length >= 5 && a.slice(0, 4) === b.slice(0, 4));
+
+/**
+ * Screens a question the player typed.
+ * @param {string} text - The question as typed.
+ * @param {string[]} caseVocabulary - Text that describes what the interrogation is about: the line of inquiry,
+ * its questions, and the names of the people, places and evidence involved.
+ * @returns {QuestionGuardResult} The trimmed question, or why it was rejected with ADA's feedback.
+ */
+export const checkTypedQuestion = (text: string, caseVocabulary: string[]): QuestionGuardResult => {
+  const question = text.trim().replace(/\s+/g, ' ');
+  const reject = (reason: QuestionRejectionReason): QuestionGuardResult => ({ ok: false, reason, feedback: REJECTION_FEEDBACK[reason] });
+
+  if (question.length < MIN_TYPED_QUESTION_LENGTH) return reject('tooShort');
+  if (question.length > MAX_TYPED_QUESTION_LENGTH) return reject('tooLong');
+  if (toWords(question).some(word => PROFANITY.includes(word))) return reject('profanity');
+
+  const keywords = toKeywords(question);
+  // A question made only of common words ("What did you do then?") depends on context, so it is let through.
+  if (keywords.length === 0) return { ok: true, question };
+  const vocabulary = [...INVESTIGATIVE_TERMS, ...caseVocabulary.flatMap(toKeywords)];
+  const isOnTopic = keywords.some(word => vocabulary.some(term => isSameWord(word, term)));
+  return isOnTopic ? { ok: true, question } : reject('offTopic');
+};
@@ -0,0 +1,131 @@
+/**
+ * @file services/saveFileService.ts
+ * @description Converts save games to and from portable files, so an investigation can be moved between
+ * browsers or attached to a bug report.
+ *
+ * @architectural_decision
+ * An export is a single, self-describing JSON file that wraps a regular `SaveGameRecord`. Because the record
+ * keeps its `schemaVersion`, an imported file goes through exactly the same migration pipeline as a save
+ * read from IndexedDB. Cached images are optional and embedded as base64 strings, which keeps the format
+ * dependency-free (no zip library) at the cost of larger files.
+ */
+
+import { SaveGameRecord } from '../types';
+import { b64toBlob, blobToB64 } from './dbService';
+
+/** Identifies a file as an exported investigation. */
+const FILE_FORMAT = 'sherlocks-dossier-save';
+/** The version of the file envelope itself, independent of the save schema version inside it. */
+const FILE_FORMAT_VERSION = 1;
+
+/** A cached image embedded in an export file. */
+interface ExportedImage {
+  mimeType: string;
+  /** The image bytes, base64 encoded. */
+  data: string;
+}
+
+/** The JSON structure of an export file. */
+interface SaveFileContents {
+  format: typeof FILE_FORMAT;
+  formatVersion: number;
+  exportedAt: string;
+  save: SaveGameRecord;
+  images?: { [id: string]: ExportedImage };
+}
+
+/** The result of reading an export file. */
+export interface ImportedSaveFile {
+  save: SaveGameRecord;
+  images: { id: string; blob: Blob }[];
+}
+
+/**
+ * Raised when a file is not a valid export.
+ */
+export class SaveFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SaveFileError';
+  }
+}
+
+/**
+ * Builds an export file for a save.
+ * @param {SaveGameRecord} save - The save record to export.
+ * @param {{ id: string; blob: Blob }[]} [images] - Cached images to embed, if any.
+ * @returns {Promise<Blob>} The file contents as a JSON Blob.
+ */
+export const createSaveFile = async (save: SaveGameRecord, images?: { id: string; blob: Blob }[]): Promise<Blob> => {
+  const contents: SaveFileContents = {
+    format: FILE_FORMAT,
+    formatVersion: FILE_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    save,
+  };
+
+  if (images && images.length > 0) {
+    contents.images = {};
+    for (const { id, blob } of images) {
+      contents.images[id] = { mimeType: blob.type, data: await blobToB64(blob) };
+    }
+  }
+
+  return new Blob([JSON.stringify(contents)], { type: 'application/json' });
+};
+
+/**
+ * Reads and validates an export file. The save inside is returned as-is; migrating it to the current
+ * schema is the caller's responsibility.
+ * @param {Blob} file - The file selected by the player.
+ * @returns {Promise<ImportedSaveFile>} The save record and any embedded images.
+ * @throws {SaveFileError} If the file is not a valid export.
+ */
+export const readSaveFile = async (file: Blob): Promise<ImportedSaveFile> => {
+  let contents: Partial<SaveFileContents>;
+  try {
+    contents = JSON.parse(await file.text());
+  } catch {
+    throw new SaveFileError("The file is not a valid investigation export.");
+  }
+
+  if (!contents || contents.format !== FILE_FORMAT) {
+    throw new SaveFileError("The file is not a valid investigation export.");
+  }
+  if (typeof contents.formatVersion !== 'number' || contents.formatVersion > FILE_FORMAT_VERSION) {
+    throw new SaveFileError("The file was exported by a newer version of the game.");
+  }
+
+  const save = contents.save;
+  if (!save || !save.metadata || typeof save.metadata.storyId !== 'string' || !save.state) {
+    throw new SaveFileError("The file does not contain a saved investigation.");
+  }
+
+  const images = Object.entries(contents.images || {}).flatMap(([id, image]) => {
+    try {
+      return [{ id, blob: b64toBlob(image.data, image.mimeType) }];
+    } catch {
+      // A single corrupt image should not block the import; it will simply be regenerated.
+      console.warn(`Skipping corrupt image "${id}" in imported file.`);
+      return [];
+    }
+  });
+
+  return { save, images };
+};
+
+/**
+ * Prompts the browser to download a Blob as a file.
+ * @param {Blob} blob - The file contents.
+ * @param {string} fileName - The suggested file name.
+ */
+export const downloadFile = (blob: Blob, fileName: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
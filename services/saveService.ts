@@ -0,0 +1,132 @@
+/**
+ * @file services/saveService.ts
+ * @description A promise-based wrapper around IndexedDB for storing save games.
+ * Each save slot is stored as a single record containing its metadata and a snapshot of the
+ * serializable game state.
+ *
+ * @architectural_decision
+ * Saves live in their own database (`SaveGameDB`) alongside the image cache rather than as a new store
+ * inside `ImageCacheDB`. The two have very different lifecycles: the image cache can be cleared freely,
+ * while saves are player progress that must never be wiped by an image cache upgrade or reset.
+ * Saves that fail to migrate are moved to a separate `quarantine` store instead of being deleted, so a
+ * bad migration never destroys a player's progress.
+ */
+
+import { openDB, IDBPDatabase } from 'idb';
+import { SaveGameRecord, SaveSlotMetadata, QuarantinedSaveRecord } from '../types';
+
+const DB_NAME = 'SaveGameDB';
+const STORE_NAME = 'saves';
+const QUARANTINE_STORE_NAME = 'quarantine';
+const DB_VERSION = 2;
+
+/**
+ * Gets a database connection. The `idb` library handles connection pooling and reuse internally.
+ * @returns {Promise<IDBPDatabase>} A promise that resolves with the database instance.
+ */
+const getDb = (): Promise<IDBPDatabase> => {
+  if (typeof window === 'undefined') {
+    return Promise.reject(new Error("IndexedDB not available in this environment."));
+  }
+
+  return openDB(DB_NAME, DB_VERSION, {
+    upgrade(db) {
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        // Records are keyed by their slot ID.
+        db.createObjectStore(STORE_NAME);
+      }
+      if (!db.objectStoreNames.contains(QUARANTINE_STORE_NAME)) {
+        db.createObjectStore(QUARANTINE_STORE_NAME);
+      }
+    },
+  });
+};
+
+/**
+ * A service object that encapsulates all IndexedDB operations for save games.
+ * Unlike the image cache, write failures are re-thrown so the player can be told their progress was not saved.
+ */
+export const saveService = {
+  /**
+   * Writes a save slot, replacing any existing slot with the same ID.
+   * @param {SaveGameRecord} record - The slot metadata and state snapshot.
+   */
+  async putSave(record: SaveGameRecord): Promise<void> {
+    const db = await getDb();
+    await db.put(STORE_NAME, record, record.metadata.slotId);
+  },
+
+  /**
+   * Reads a single save slot.
+   * @param {string} slotId - The ID of the slot to read.
+   * @returns {Promise<SaveGameRecord | undefined>} The record, or undefined if the slot is empty.
+   */
+  async getSave(slotId: string): Promise<SaveGameRecord | undefined> {
+    const db = await getDb();
+    return db.get(STORE_NAME, slotId);
+  },
+
+  /**
+   * Lists the metadata of every save slot, most recent first.
+   * @returns {Promise<SaveSlotMetadata[]>} The slot summaries.
+   */
+  async listSaves(): Promise<SaveSlotMetadata[]> {
+    try {
+      const db = await getDb();
+      const records: SaveGameRecord[] = await db.getAll(STORE_NAME);
+      return records
+        .map(record => record.metadata)
+        .sort((a, b) => new Date(b.savedAt).getTime() - new Date(a.savedAt).getTime());
+    } catch (error) {
+      console.error("Failed to list save games from IndexedDB:", error);
+      return [];
+    }
+  },
+
+  /**
+   * Deletes a save slot.
+   * @param {string} slotId - The ID of the slot to delete.
+   */
+  async deleteSave(slotId: string): Promise<void> {
+    const db = await getDb();
+    await db.delete(STORE_NAME, slotId);
+  },
+
+  /**
+   * Moves a save that failed to migrate out of the active slots and into quarantine, in one transaction.
+   * @param {QuarantinedSaveRecord} quarantined - The original record and the reason it was quarantined.
+   */
+  async quarantineSave(quarantined: QuarantinedSaveRecord): Promise<void> {
+    const db = await getDb();
+    const tx = db.transaction([STORE_NAME, QUARANTINE_STORE_NAME], 'readwrite');
+    await Promise.all([
+      tx.objectStore(QUARANTINE_STORE_NAME).put(quarantined, quarantined.metadata.slotId),
+      tx.objectStore(STORE_NAME).delete(quarantined.metadata.slotId),
+      tx.done,
+    ]);
+  },
+
+  /**
+   * Lists every quarantined save, most recently quarantined first.
+   * @returns {Promise<QuarantinedSaveRecord[]>} The quarantined saves.
+   */
+  async listQuarantinedSaves(): Promise<QuarantinedSaveRecord[]> {
+    try {
+      const db = await getDb();
+      const records: QuarantinedSaveRecord[] = await db.getAll(QUARANTINE_STORE_NAME);
+      return records.sort((a, b) => new Date(b.quarantinedAt).getTime() - new Date(a.quarantinedAt).getTime());
+    } catch (error) {
+      console.error("Failed to list quarantined saves from IndexedDB:", error);
+      return [];
+    }
+  },
+
+  /**
+   * Permanently deletes a quarantined save.
+   * @param {string} slotId - The ID of the quarantined slot.
+   */
+  async deleteQuarantinedSave(slotId: string): Promise<void> {
+    const db = await getDb();
+    await db.delete(QUARANTINE_STORE_NAME, slotId);
+  },
+};
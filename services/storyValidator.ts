@@ -0,0 +1,402 @@
+/**
+ * @file services/storyValidator.ts
+ * @description A static validator for story packs. It walks the `StoryData` graph produced by a story's
+ * transformation layer and reports broken ID references, content the player can never reach, key
+ * events that make the case unsolvable, and bounty puzzles that cannot be solved.
+ *
+ * @architectural_decision
+ * The validator is a set of pure functions with no dependency on the Redux store, React or the browser.
+ * This lets the same checks run from a Node script during authoring (`scripts/validateStories.ts`) and
+ * at story load time inside the game (`selectStory` thunk), so a broken pack is caught as early as possible.
+ *
+ * Reachability mirrors how the player actually navigates:
+ * - Every non-internal location is visible on the city map.
+ * - Hotspots lead from a location to other locations, objects and evidence groups.
+ * - Evidence groups reveal their objects.
+ * - Every character is listed on the People screen. Their card exposes the objects they own whose category
+ *   is one of its components, and the posts they author if it has a `socialMedia` component.
+ * - Locations and characters behind `unlockWhen` conditions, or unlocked by a trigger, count as reachable
+ *   only once those conditions can be met by reachable content.
+ */
+
+import { StoryData, StoryPack, CardType, DialogueData, TriggerCondition } from '../types';
+import { findBountyPuzzleProblem } from './bountyEngine';
+import { Unlockable } from './triggerEngine';
+
+/** How serious an issue is. Errors make a case broken or unsolvable; warnings flag dead content. */
+export type StoryValidationSeverity = 'error' | 'warning';
+
+/** The categories of problems the validator can detect. */
+export type StoryValidationCode =
+  | 'DUPLICATE_ID'
+  | 'BROKEN_REFERENCE'
+  | 'UNREACHABLE_OBJECT'
+  | 'ORPHAN_LOCATION'
+  | 'UNCOLLECTABLE_KEY_EVENT'
+  | 'UNPLACEABLE_CLUE_SLOT'
+  | 'UNSOLVABLE_BOUNTY'
+  | 'ORPHAN_HINT';
+
+/** A single problem found in a story pack. */
+export interface StoryValidationIssue {
+  severity: StoryValidationSeverity;
+  code: StoryValidationCode;
+  /** The ID of the entity the issue was found on. */
+  entityId: string;
+  message: string;
+}
+
+/** The full result of validating a story or story pack. */
+export interface StoryValidationReport {
+  title: string;
+  isValid: boolean;
+  issues: StoryValidationIssue[];
+}
+
+/**
+ * Builds ID lookup sets for every entity type in a story.
+ */
+const indexStory = (story: StoryData) => ({
+  characters: new Set(story.characters.map(c => c.id)),
+  objects: new Set(story.objects.map(o => o.id)),
+  locations: new Set(story.locations.map(l => l.id)),
+  evidenceGroups: new Set(story.evidenceGroups.map(g => g.id)),
+});
+
+type StoryIndex = ReturnType<typeof indexStory>;
+
+/**
+ * Checks whether an ID exists for the given card type.
+ */
+const cardExists = (index: StoryIndex, id: string, type: CardType | 'evidenceGroup'): boolean => {
+  switch (type) {
+    case 'character': return index.characters.has(id);
+    case 'object': return index.objects.has(id);
+    case 'location': return index.locations.has(id);
+    case 'evidenceGroup': return index.evidenceGroups.has(id);
+    // Feed, mugshot, collection and dialogue cards are all views of a character.
+    default: return index.characters.has(id);
+  }
+};
+
+/**
+ * Reports IDs that are used by more than one entity. Entity adapters key by ID, so a duplicate
+ * silently overwrites another entity when the story is loaded.
+ */
+const findDuplicateIds = (story: StoryData): StoryValidationIssue[] => {
+  const seen = new Set<string>();
+  const issues: StoryValidationIssue[] = [];
+  const allIds = [
+    ...story.characters.map(c => c.id),
+    ...story.objects.map(o => o.id),
+    ...story.locations.map(l => l.id),
+    ...story.evidenceGroups.map(g => g.id),
+  ];
+  for (const id of allIds) {
+    if (seen.has(id)) {
+      issues.push({ severity: 'error', code: 'DUPLICATE_ID', entityId: id, message: `The ID "${id}" is used by more than one entity.` });
+    }
+    seen.add(id);
+  }
+  return issues;
+};
+
+/**
+ * Reports every reference to an entity that does not exist.
+ */
+const findBrokenReferences = (story: StoryData, index: StoryIndex): StoryValidationIssue[] => {
+  const issues: StoryValidationIssue[] = [];
+  const broken = (entityId: string, message: string) =>
+    issues.push({ severity: 'error', code: 'BROKEN_REFERENCE', entityId, message });
+
+  story.locations.forEach(location => {
+    location.hotspots.forEach(hotspot => {
+      if (!cardExists(index, hotspot.targetCardId, hotspot.targetCardType)) {
+        broken(location.id, `Hotspot "${hotspot.label}" targets missing ${hotspot.targetCardType} "${hotspot.targetCardId}".`);
+      }
+    });
+  });
+
+  story.evidenceGroups.forEach(group => {
+    group.objectIds.forEach(objectId => {
+      if (!index.objects.has(objectId)) broken(group.id, `Evidence group contains missing object "${objectId}".`);
+    });
+  });
+
+  story.characters.forEach(character => {
+    const { relatedPeople, knownLocations, associatedObjects } = character.connections;
+    (relatedPeople || []).forEach(id => { if (!index.characters.has(id)) broken(character.id, `Connection to missing character "${id}".`); });
+    (knownLocations || []).forEach(id => { if (!index.locations.has(id)) broken(character.id, `Connection to missing location "${id}".`); });
+    (associatedObjects || []).forEach(id => { if (!index.objects.has(id)) broken(character.id, `Connection to missing object "${id}".`); });
+
+    const dialogue = character.components?.find(c => c.type === 'dialogue')?.props as DialogueData | undefined;
+    (dialogue?.interrogation?.linesOfInquiry || []).forEach(loi => {
+      (loi.keyEvidenceIds || []).forEach(id => {
+        if (!index.objects.has(id)) broken(character.id, `Line of inquiry "${loi.id}" names missing key evidence "${id}".`);
+      });
+    });
+  });
+
+  story.objects.forEach(object => {
+    if (object.ownerCharacterId && !index.characters.has(object.ownerCharacterId)) {
+      broken(object.id, `Owner "${object.ownerCharacterId}" is not a character.`);
+    }
+    if (object.authorCharacterId && !index.characters.has(object.authorCharacterId)) {
+      broken(object.id, `Author "${object.authorCharacterId}" is not a character.`);
+    }
+  });
+
+  (story.evidenceStacks || []).forEach(stack => {
+    if (!index.objects.has(stack.anchorId)) broken(stack.anchorId, `Evidence stack anchor "${stack.anchorId}" is not an object.`);
+    stack.linkedIds.forEach(id => {
+      if (!index.objects.has(id)) broken(stack.anchorId, `Evidence stack links missing object "${id}".`);
+    });
+  });
+
+  (story.contradictions || []).forEach(rule => {
+    if (!story.testimonies.some(t => t.id === rule.statementId)) {
+      broken(rule.id, `Contradiction names missing testimony "${rule.statementId}".`);
+    }
+    if (!index.objects.has(rule.objectId)) broken(rule.id, `Contradiction names missing object "${rule.objectId}".`);
+  });
+
+  const triggerIds = new Set((story.triggers || []).map(t => t.id));
+  const checkCondition = (ownerId: string, condition: TriggerCondition) => {
+    switch (condition.type) {
+      case 'cardViewed':
+        if (!(['character', 'object', 'location', 'evidenceGroup'] as const).some(type => cardExists(index, condition.cardId, type))) {
+          broken(ownerId, `Condition waits for missing card "${condition.cardId}".`);
+        }
+        break;
+      case 'evidenceCollected':
+        if (!index.objects.has(condition.objectId)) broken(ownerId, `Condition waits for missing object "${condition.objectId}".`);
+        break;
+      case 'lineOfInquiryCompleted': {
+        const character = story.characters.find(c => c.id === condition.characterId);
+        const dialogue = character?.components?.find(c => c.type === 'dialogue')?.props as DialogueData | undefined;
+        if (!(dialogue?.interrogation?.linesOfInquiry || []).some(loi => loi.id === condition.loiId)) {
+          broken(ownerId, `Condition waits for missing line of inquiry "${condition.loiId}" of "${condition.characterId}".`);
+        }
+        break;
+      }
+      case 'insightRevealed':
+        if (condition.characterId && !index.characters.has(condition.characterId)) {
+          broken(ownerId, `Condition waits for an insight from missing character "${condition.characterId}".`);
+        }
+        break;
+      case 'triggerFired':
+        if (!triggerIds.has(condition.triggerId)) broken(ownerId, `Condition waits for missing trigger "${condition.triggerId}".`);
+        break;
+    }
+  };
+
+  story.locations.forEach(location => (location.unlockWhen || []).forEach(condition => checkCondition(location.id, condition)));
+  story.characters.forEach(character => (character.unlockWhen || []).forEach(condition => checkCondition(character.id, condition)));
+  (story.triggers || []).forEach(trigger => {
+    trigger.conditions.forEach(condition => checkCondition(trigger.id, condition));
+    trigger.effects.forEach(effect => {
+      if (effect.type === 'unlockLocation' && !index.locations.has(effect.locationId)) {
+        broken(trigger.id, `Trigger unlocks missing location "${effect.locationId}".`);
+      }
+      if (effect.type === 'revealCharacter' && !index.characters.has(effect.characterId)) {
+        broken(trigger.id, `Trigger reveals missing character "${effect.characterId}".`);
+      }
+    });
+  });
+
+  if (story.canonicalTimeline) {
+    const { culpritId, keyEvents } = story.canonicalTimeline;
+    if (!index.characters.has(culpritId)) broken(culpritId, `Canonical culprit "${culpritId}" is not a character.`);
+    keyEvents.forEach(event => {
+      if (!index.objects.has(event.objectId)) broken(event.objectId, `Key event references missing object "${event.objectId}".`);
+    });
+  }
+
+  return issues;
+};
+
+/**
+ * Checks whether the player can ever meet a condition, given the cards and triggers reachable so far.
+ * Conditions on the player's tokens or evidence count do not name a card, so they are assumed to be met.
+ */
+const canMeetCondition = (condition: TriggerCondition, reachable: Set<string>, firedTriggerIds: Set<string>): boolean => {
+  switch (condition.type) {
+    case 'cardViewed': return reachable.has(condition.cardId);
+    case 'evidenceCollected': return reachable.has(condition.objectId);
+    case 'lineOfInquiryCompleted': return reachable.has(condition.characterId);
+    case 'insightRevealed': return !condition.characterId || reachable.has(condition.characterId);
+    case 'triggerFired': return firedTriggerIds.has(condition.triggerId);
+    default: return true;
+  }
+};
+
+/**
+ * Computes the set of entity IDs the player can reach from the map and the People screen.
+ * Locked locations and characters are reached once any of their `unlockWhen` conditions, or a trigger that
+ * unlocks them, can be met by the content reached so far, so the walk is repeated until nothing new unlocks.
+ * @param {StoryData} story - The story to traverse.
+ * @returns {Set<string>} The IDs of every reachable location, character, evidence group and object.
+ */
+export const findReachableIds = (story: StoryData): Set<string> => {
+  const locationsById = new Map(story.locations.map(l => [l.id, l]));
+  const groupsById = new Map(story.evidenceGroups.map(g => [g.id, g]));
+  const charactersById = new Map(story.characters.map(c => [c.id, c]));
+  const triggers = story.triggers || [];
+  const reachable = new Set<string>();
+  const unlockedIds = new Set<string>();
+  const firedTriggerIds = new Set<string>();
+  const isOpen = (entity: Unlockable) => !entity.unlockWhen || entity.unlockWhen.length === 0 || unlockedIds.has(entity.id);
+
+  let changed = true;
+  while (changed) {
+    const queue: string[] = [
+      ...story.locations.filter(l => !l.isInternal && isOpen(l)).map(l => l.id),
+      ...story.characters.filter(isOpen).map(c => c.id),
+    ];
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      if (reachable.has(id)) continue;
+      reachable.add(id);
+
+      const location = locationsById.get(id);
+      if (location) location.hotspots.forEach(h => queue.push(h.targetCardId));
+
+      const group = groupsById.get(id);
+      if (group) group.objectIds.forEach(objectId => queue.push(objectId));
+    }
+
+    // A character's card only shows the objects behind its components: owned objects under the component of
+    // their category, and authored posts under `socialMedia`.
+    const hasComponent = (characterId: string | undefined, type: string) =>
+      !!characterId && reachable.has(characterId) && !!charactersById.get(characterId)?.components.some(c => c.type === type);
+    story.objects.forEach(o => {
+      if (hasComponent(o.ownerCharacterId, o.category) || hasComponent(o.authorCharacterId, 'socialMedia')) reachable.add(o.id);
+    });
+
+    changed = false;
+    triggers.forEach(trigger => {
+      if (firedTriggerIds.has(trigger.id) || trigger.conditions.length === 0) return;
+      if (!trigger.conditions.every(condition => canMeetCondition(condition, reachable, firedTriggerIds))) return;
+      firedTriggerIds.add(trigger.id);
+      trigger.effects.forEach(effect => {
+        if (effect.type === 'unlockLocation') unlockedIds.add(effect.locationId);
+        if (effect.type === 'revealCharacter') unlockedIds.add(effect.characterId);
+      });
+      changed = true;
+    });
+    [...story.locations, ...story.characters].forEach(entity => {
+      if (isOpen(entity)) return;
+      if (!entity.unlockWhen!.some(condition => canMeetCondition(condition, reachable, firedTriggerIds))) return;
+      unlockedIds.add(entity.id);
+      changed = true;
+    });
+  }
+
+  return reachable;
+};
+
+/**
+ * Reports unreachable objects, orphaned locations and key events the player can never collect.
+ */
+const findReachabilityIssues = (story: StoryData, index: StoryIndex): StoryValidationIssue[] => {
+  const issues: StoryValidationIssue[] = [];
+  const reachable = findReachableIds(story);
+
+  story.locations.forEach(location => {
+    if (!reachable.has(location.id)) {
+      issues.push({ severity: 'warning', code: 'ORPHAN_LOCATION', entityId: location.id, message: `Location "${location.name}" is not on the map, or never unlocks, and no reachable hotspot leads to it.` });
+    }
+  });
+
+  story.objects.forEach(object => {
+    if (!reachable.has(object.id)) {
+      issues.push({ severity: 'warning', code: 'UNREACHABLE_OBJECT', entityId: object.id, message: `Object "${object.name}" cannot be reached through any hotspot, evidence group or character.` });
+    }
+  });
+
+  (story.canonicalTimeline?.keyEvents || []).forEach(event => {
+    // Missing objects are already reported as broken references.
+    if (index.objects.has(event.objectId) && !reachable.has(event.objectId)) {
+      issues.push({ severity: 'error', code: 'UNCOLLECTABLE_KEY_EVENT', entityId: event.objectId, message: `Key event "${event.objectId}" can never be collected by the player.` });
+    }
+  });
+
+  return issues;
+};
+
+/**
+ * Finds bounty puzzles the player cannot solve, which would leave a reward out of reach.
+ */
+const findBountyIssues = (story: StoryData): StoryValidationIssue[] =>
+  story.bounties.flatMap(bounty => {
+    const problem = bounty.puzzle && findBountyPuzzleProblem(bounty.puzzle);
+    return problem
+      ? [{ severity: 'error' as const, code: 'UNSOLVABLE_BOUNTY' as const, entityId: bounty.id, message: `Bounty "${bounty.title}" cannot be solved: ${problem}.` }]
+      : [];
+  });
+
+/**
+ * Validates a single story's data graph.
+ * @param {StoryData} story - The transformed story data.
+ * @returns {StoryValidationReport} The validation report.
+ */
+export const validateStoryData = (story: StoryData): StoryValidationReport => {
+  const index = indexStory(story);
+  const issues = [
+    ...findDuplicateIds(story),
+    ...findBrokenReferences(story, index),
+    ...findReachabilityIssues(story, index),
+    ...findBountyIssues(story),
+  ];
+  return { title: story.title, isValid: !issues.some(i => i.severity === 'error'), issues };
+};
+
+/**
+ * Validates a complete story pack, including its case file.
+ * Every primary slot in the case file must have a primary clue that can be placed in it, and every
+ * authored hint must be about a key event or a primary slot, or ADA will never give it.
+ * @param {StoryPack} pack - The story pack to validate.
+ * @returns {StoryValidationReport} The validation report.
+ */
+export const validateStoryPack = (pack: StoryPack): StoryValidationReport => {
+  const report = validateStoryData(pack.story);
+  const primaryEventKeys = new Set(pack.caseFile.clues.filter(c => c.type === 'PRIMARY').map(c => c.eventKey));
+
+  const caseFileIssues: StoryValidationIssue[] = pack.caseFile.anchors
+    .filter(anchor => anchor.primarySlot.correctEventKey && !primaryEventKeys.has(anchor.primarySlot.correctEventKey))
+    .map(anchor => ({
+      severity: 'error',
+      code: 'UNPLACEABLE_CLUE_SLOT',
+      entityId: anchor.primarySlot.slotId,
+      message: `No primary clue matches the "${anchor.primarySlot.correctEventKey}" slot, so the case file can never be completed.`,
+    }));
+
+  const hintTargetIds = new Set([
+    ...(pack.story.canonicalTimeline?.keyEvents || []).map(event => event.objectId),
+    ...pack.caseFile.anchors.map(anchor => anchor.primarySlot.correctEventKey).filter(Boolean),
+  ]);
+  const hintIssues: StoryValidationIssue[] = (pack.story.hints || [])
+    .filter(hint => !hintTargetIds.has(hint.targetId))
+    .map(hint => ({
+      severity: 'warning',
+      code: 'ORPHAN_HINT',
+      entityId: hint.targetId,
+      message: `The hint for "${hint.targetId}" matches no key event or primary slot, so ADA will never give it.`,
+    }));
+
+  const issues = [...report.issues, ...caseFileIssues, ...hintIssues];
+  return { title: report.title, isValid: !issues.some(i => i.severity === 'error'), issues };
+};
+
+/**
+ * Writes a validation report to the console, grouped by severity.
+ * @param {StoryValidationReport} report - The report to log.
+ */
+export const logStoryValidationReport = (report: StoryValidationReport): void => {
+  if (report.issues.length === 0) return;
+  console.warn(`Story validation for "${report.title}" found ${report.issues.length} issue(s):`);
+  report.issues.forEach(issue => {
+    const log = issue.severity === 'error' ? console.error : console.warn;
+    log(`[${issue.code}] ${issue.entityId}: ${issue.message}`);
+  });
+};
@@ -0,0 +1,112 @@
+/**
+ * @file services/triggerEngine.ts
+ * @description Decides which of a story's scripted triggers should fire after the game state changes.
+ *
+ * @architectural_decision
+ * Story beats such as "ADA connects the paint to the hammer" used to be hardcoded checks on card names in
+ * the components. They are now authored in the story pack as `StoryTrigger`s and evaluated here. The engine
+ * is pure: it only sees `TriggerFacts`, a small summary of the state that the trigger middleware builds
+ * before and after each action, so it can be tested without a store. Applying the effects is left to the
+ * middleware. A one-off trigger fires as soon as its conditions hold and it has not fired yet, so a trigger
+ * whose conditions were already true when the case was loaded still fires. A repeatable trigger fires on
+ * each transition from "not met" to "met", so it does not fire again on every action while its conditions
+ * stay true.
+ * Locations and characters can be locked behind the same conditions (`unlockWhen`). Unlocking is a way
+ * in, so any one of their conditions is enough, whereas all of a trigger's conditions must hold.
+ */
+
+import { StoryTrigger, TriggerCondition } from '../types';
+
+/** A location or character that may be locked behind conditions. */
+export interface Unlockable {
+  id: string;
+  unlockWhen?: TriggerCondition[];
+}
+
+/** The parts of the game state that trigger conditions can test. */
+export interface TriggerFacts {
+  /** The ID of the card the player is looking at, if any. */
+  activeCardId: string | null;
+  collectedObjectIds: string[];
+  criticalEvidenceCount: number;
+  /** The completed lines of inquiry, keyed by character ID. */
+  completedLinesOfInquiry: { [characterId: string]: string[] };
+  /** The new leads of the insights revealed, keyed by character ID. */
+  insightLeads: { [characterId: string]: string[] };
+  playerTokens: number;
+  firedTriggerIds: string[];
+}
+
+/**
+ * Checks a single condition.
+ * @param {TriggerCondition} condition - The condition to check.
+ * @param {TriggerFacts} facts - The current state of the game.
+ * @returns {boolean} True if the condition holds.
+ */
+export const isConditionMet = (condition: TriggerCondition, facts: TriggerFacts): boolean => {
+  switch (condition.type) {
+    case 'cardViewed':
+      return facts.activeCardId === condition.cardId;
+    case 'evidenceCollected':
+      return facts.collectedObjectIds.includes(condition.objectId);
+    case 'lineOfInquiryCompleted':
+      return (facts.completedLinesOfInquiry[condition.characterId] || []).includes(condition.loiId);
+    case 'tokensBelow':
+      return facts.playerTokens < condition.amount;
+    case 'criticalEvidenceCount':
+      return facts.criticalEvidenceCount >= condition.count;
+    case 'insightRevealed': {
+      const leads = condition.characterId
+        ? facts.insightLeads[condition.characterId] || []
+        : Object.values(facts.insightLeads).flat();
+      const phrases = (condition.leadPhrases || []).map(phrase => phrase.toLowerCase());
+      return leads.some(lead => phrases.length === 0 || phrases.some(phrase => lead.toLowerCase().includes(phrase)));
+    }
+    case 'triggerFired':
+      return facts.firedTriggerIds.includes(condition.triggerId);
+    default:
+      return false;
+  }
+};
+
+/**
+ * Checks whether all of a trigger's conditions hold. A trigger without conditions never fires.
+ */
+export const areTriggerConditionsMet = (trigger: StoryTrigger, facts: TriggerFacts): boolean =>
+  trigger.conditions.length > 0 && trigger.conditions.every(condition => isConditionMet(condition, facts));
+
+/**
+ * Finds the triggers that should fire after a state change.
+ * @param {StoryTrigger[]} triggers - The story's triggers.
+ * @param {TriggerFacts} previous - The state before the change.
+ * @param {TriggerFacts} current - The state after the change.
+ * @returns {StoryTrigger[]} The triggers to fire, in authored order.
+ */
+export const findTriggersToFire = (triggers: StoryTrigger[], previous: TriggerFacts, current: TriggerFacts): StoryTrigger[] =>
+  triggers.filter(trigger => {
+    if (!areTriggerConditionsMet(trigger, current)) return false;
+    if (trigger.repeatable) return !areTriggerConditionsMet(trigger, previous);
+    return !current.firedTriggerIds.includes(trigger.id);
+  });
+
+/**
+ * Checks whether a location or character is available to the player.
+ * @param {Unlockable} entity - The location or character.
+ * @param {string[]} unlockedIds - The IDs unlocked so far.
+ * @returns {boolean} True if the entity has no unlock conditions or has been unlocked.
+ */
+export const isUnlocked = (entity: Unlockable, unlockedIds: string[]): boolean =>
+  !entity.unlockWhen || entity.unlockWhen.length === 0 || unlockedIds.includes(entity.id);
+
+/**
+ * Finds the locked locations or characters that any of their conditions now unlocks.
+ * @param {Unlockable[]} entities - The story's locations or characters.
+ * @param {string[]} unlockedIds - The IDs unlocked so far.
+ * @param {TriggerFacts} facts - The current state of the game.
+ * @returns {string[]} The IDs to unlock.
+ */
+export const findNewlyUnlockedIds = (entities: Unlockable[], unlockedIds: string[], facts: TriggerFacts): string[] =>
+  entities
+    .filter(entity => !isUnlocked(entity, unlockedIds))
+    .filter(entity => entity.unlockWhen!.some(condition => isConditionMet(condition, facts)))
+    .map(entity => entity.id);
@@ -8,6 +8,8 @@
 import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
 import { getADAResponse as fetchADAResponse } from '../services/geminiService';
 import { ADA_CONFIG } from '../config';
+import { loadStory } from './storyActions';
+import { restoreGame } from './saveActions';
 
 // The maximum number of messages to keep in ADA's log. This is a performance and memory
 // optimization to prevent the messages array from growing indefinitely during a long play session.
@@ -21,6 +23,7 @@ interface ADAState {
   isLoading: boolean; // True when an API call is in progress.
   error: string | null; // Stores any error message from the API call.
   hasNewMessages: boolean; // True if there are new messages the user hasn't seen yet.
+  pendingDirectives: string[]; // Story trigger instructions to include in the next analysis prompt.
 }
 
 /**
@@ -31,6 +34,7 @@ const initialState: ADAState = {
   isLoading: false,
   error: null,
   hasNewMessages: false,
+  pendingDirectives: [],
 };
 
 /**
@@ -73,6 +77,18 @@ const adaSlice = createSlice({
     markMessagesAsRead(state) {
       state.hasNewMessages = false;
     },
+    /**
+     * Queues an instruction from a story trigger for ADA's next analysis. Directives are not debounced
+     * away: they stay queued until `useADA` builds its next prompt.
+     * @param {string} action.payload The instruction to add to the prompt.
+     */
+    queueADADirective(state, action: PayloadAction<string>) {
+      state.pendingDirectives.push(action.payload);
+    },
+    /** Clears the queued directives once they have been sent. */
+    clearADADirectives(state) {
+      state.pendingDirectives = [];
+    },
     /**
      * Clears the current analysis log and resets it to the initial message.
      * This is a crucial UX feature, called when the user navigates to a new card or view,
@@ -87,6 +103,9 @@ const adaSlice = createSlice({
   },
   extraReducers: (builder) => {
     builder
+      // ADA's analysis log belongs to a single case, so it is reset when another case is loaded.
+      .addCase(loadStory, () => ({ ...initialState, messages: [...initialState.messages] }))
+      .addCase(restoreGame, (state, action) => ({ ...initialState, messages: [...action.payload.state.ada.messages] }))
       .addCase(getADAResponse.pending, (state) => {
         state.isLoading = true;
         state.error = null;
@@ -113,5 +132,5 @@ const adaSlice = createSlice({
   },
 });
 
-export const { addADAMessage, markMessagesAsRead, clearADAMessages } = adaSlice.actions;
+export const { addADAMessage, markMessagesAsRead, queueADADirective, clearADADirectives, clearADAMessages } = adaSlice.actions;
 export default adaSlice.reducer;
@@ -4,11 +4,22 @@
  * It's designed to be a self-contained module for the core puzzle gameplay loop.
  */
 
-import { createSlice, PayloadAction, createEntityAdapter, createSelector } from '@reduxjs/toolkit';
-import { caseFileData } from '../data/caseFileData';
-import { Clue, EvidenceSlot, CaseFileViewMode, TimelineAnchorCategory, TimelineAnchor } from '../types';
-import { RootState } from './index';
+import { createSlice, PayloadAction, createEntityAdapter, createSelector, createAsyncThunk } from '@reduxjs/toolkit';
+import { defaultStoryPack, getStoryPack } from '../data/storyRegistry';
+import { Clue, EvidenceSlot, CaseFileViewMode, TimelineAnchorCategory, TimelineAnchor, CaseFileData, ContradictionFlag, ContradictionRule, PurchasedHint, StoryHint } from '../types';
+import { RootState, AppDispatch } from './index';
 import { showModal } from './uiSlice';
+import {
+  addTokens, deductTokens, selectEconomyAnalysis, selectDifficultyRules, selectCanonicalTimeline, selectEvidence, selectReachableIds,
+  selectObjectEntities, selectLocationEntities,
+} from './storySlice';
+import { addADAMessage } from './adaSlice';
+import { findContradiction, FlaggableStatement } from '../services/contradictionService';
+import { findHintTargets, getNextHintOffer, getAuthoredHint, buildHintSource } from '../services/hintEngine';
+import { paraphraseHint } from '../services/geminiService';
+import { GAME_MECHANICS, ECONOMY_CONFIG, HINT_CONFIG } from '../config';
+import { loadStory } from './storyActions';
+import { restoreGame } from './saveActions';
 
 // Use entity adapters for efficient, normalized state management of clues and slots.
 const cluesAdapter = createEntityAdapter<Clue>();
@@ -18,6 +29,8 @@ const slotsAdapter = createEntityAdapter<EvidenceSlot, string>({
 
 // Define the shape of the state for this slice.
 interface CaseFileState {
+  /** The registry ID of the case this file belongs to, used to rebuild it on reset. */
+  storyId: string;
   viewMode: CaseFileViewMode;
   activeTab: TimelineAnchorCategory;
   selectedClueId: string | null;
@@ -26,13 +39,22 @@ interface CaseFileState {
   anchors: TimelineAnchor[];
   score: number;
   lastIncorrectSlotId: string | null;
+  /** Every statement and object pair the player has flagged as contradictory, in order. */
+  contradictionFlags: ContradictionFlag[];
+  /** How many times the player has asked the captain for budget. Each request costs score. */
+  captainBudgetRequests: number;
+  /** How many times the case has been submitted to the DA. The difficulty may limit this. */
+  accusationsMade: number;
+  /** The hints bought from ADA, oldest first. Each one costs case file score. */
+  hints: PurchasedHint[];
 }
 
-// Function to create the initial state from the static case file data.
-const createInitialState = (): CaseFileState => {
+// Function to create the initial state from a case's static case file data.
+const createInitialState = (storyId: string, caseFileData: CaseFileData): CaseFileState => {
   const allSlots = caseFileData.anchors.flatMap(anchor => [anchor.primarySlot, ...anchor.supportingSlots]);
 
   return {
+    storyId,
     viewMode: 'workspace',
     activeTab: 'motive',
     selectedClueId: null,
@@ -41,10 +63,102 @@ const createInitialState = (): CaseFileState => {
     anchors: caseFileData.anchors,
     score: 0,
     lastIncorrectSlotId: null,
+    contradictionFlags: [],
+    captainBudgetRequests: 0,
+    accusationsMade: 0,
+    hints: [],
   };
 };
 
-const initialState: CaseFileState = createInitialState();
+const initialState: CaseFileState = createInitialState(defaultStoryPack.id, defaultStoryPack.caseFile);
+
+const EMPTY_CONTRADICTION_RULES: ContradictionRule[] = [];
+const EMPTY_STORY_HINTS: StoryHint[] = [];
+
+/** The case file score lost for the hints bought so far. */
+const getHintScorePenalty = (hints: PurchasedHint[]): number =>
+  hints.reduce((total, hint) => total + HINT_CONFIG.SCORE_PENALTIES[hint.tier], 0);
+
+/**
+ * Checks a statement and object pair the player flagged as contradictory against the case's rules.
+ * A confirmed contradiction earns tokens and score the first time it is found; a wrong flag costs tokens.
+ * Flagging the same pair again does nothing, so the player cannot farm the reward or repeat the penalty.
+ * @returns The recorded flag, or null if the pair was already flagged.
+ */
+export const flagContradiction = createAsyncThunk<
+  ContradictionFlag | null,
+  { statement: FlaggableStatement; objectId: string },
+  { dispatch: AppDispatch, state: RootState }
+>(
+  'caseFile/flagContradiction',
+  ({ statement, objectId }, { dispatch, getState }) => {
+    const state = getState();
+    const flags = state.caseFile.contradictionFlags;
+    const rules = selectDifficultyRules(state);
+    if (flags.some(flag => flag.statementId === statement.id && flag.objectId === objectId)) return null;
+
+    const rule = findContradiction(selectContradictionRules(state), state.story.testimonies, statement, objectId);
+    if (!rule) {
+      dispatch(deductTokens({ amount: rules.falseContradictionPenalty, reason: 'contradiction', entityId: objectId }));
+      dispatch(addADAMessage(`I don't see a contradiction there, Detective. That hunch cost us ${rules.falseContradictionPenalty} tokens.`));
+    } else if (!flags.some(flag => flag.ruleId === rule.id)) {
+      // A logged fragment can repeat a written statement, so the reward is tied to the rule, not the pair.
+      dispatch(addTokens({ amount: rules.contradictionReward, reason: 'contradiction', entityId: objectId }));
+      dispatch(addADAMessage(`Contradiction confirmed. ${rule.explanation}`));
+    }
+    return { statementId: statement.id, objectId, ruleId: rule?.id ?? null };
+  }
+);
+
+/**
+ * Asks the captain to cover the player's shortfall when the budget can no longer pay for an acceptable case.
+ * The grant is the shortfall plus `CAPTAIN_BUDGET_MARGIN`, and every request costs case file score.
+ * @returns The tokens granted, or null if the player is not stuck.
+ */
+export const requestCaptainBudget = createAsyncThunk<number | null, void, { dispatch: AppDispatch, state: RootState }>(
+  'caseFile/requestCaptainBudget',
+  (_, { dispatch, getState }) => {
+    const { status, shortfall } = selectEconomyAnalysis(getState());
+    if (status !== 'softlocked') return null;
+
+    const amount = shortfall + ECONOMY_CONFIG.CAPTAIN_BUDGET_MARGIN;
+    dispatch(addTokens({ amount, reason: 'captain' }));
+    dispatch(addADAMessage(`The captain approved ${amount} tokens, Detective. It's on your record now: ${ECONOMY_CONFIG.CAPTAIN_BUDGET_SCORE_PENALTY} points off the case score.`));
+    return amount;
+  }
+);
+
+/**
+ * Buys the next hint on offer (see `selectHintOffer`). The story's authored text is used when it has one for
+ * the tier; otherwise the AI paraphrases a hint written from the story data. The hint is added to ADA's log,
+ * and the fulfilled action takes its score penalty.
+ * @returns The hint bought, or null if there is none on offer or the player cannot afford it.
+ */
+export const buyHint = createAsyncThunk<PurchasedHint | null, void, { dispatch: AppDispatch, state: RootState }>(
+  'caseFile/buyHint',
+  async (_, { dispatch, getState }) => {
+    const state = getState();
+    const offer = selectHintOffer(state);
+    if (!offer) return null;
+    const cost = HINT_CONFIG.COSTS[offer.tier];
+    if (state.story.playerTokens < cost) return null;
+
+    const text = getAuthoredHint(selectStoryHints(state), offer) ?? await paraphraseHint(buildHintSource(offer), offer.tier);
+    // The target is left out of the ledger, so its history does not give away what a vague hint was about.
+    dispatch(deductTokens({ amount: cost, reason: 'hint' }));
+    dispatch(addADAMessage(text));
+    return { targetId: offer.target.id, tier: offer.tier, text, timestamp: Date.now() };
+  }
+);
+
+/**
+ * Counts a case submitted to the DA against the difficulty's `maxAccusations`.
+ * @returns True if the accusation was counted, false if the DA will not hear another.
+ */
+export const recordAccusation = createAsyncThunk<boolean, void, { state: RootState }>(
+  'caseFile/recordAccusation',
+  (_, { getState }) => selectAccusationsLeft(getState()) !== 0
+);
 
 const caseFileSlice = createSlice({
   name: 'caseFile',
@@ -105,12 +219,53 @@ const caseFileSlice = createSlice({
       state.lastIncorrectSlotId = null;
     },
     resetInvestigation(state) {
-      // Return to the initial state
-      return createInitialState();
+      // Return to the initial state for the current case. Flagged contradictions are kept, with their
+      // score, so that resetting the timeline cannot be used to collect their rewards again. Budget requests
+      // and hints are kept, with their penalties, for the same reason, and so are the accusations made.
+      const pack = getStoryPack(state.storyId) ?? defaultStoryPack;
+      const confirmedRuleIds = new Set(state.contradictionFlags.map(flag => flag.ruleId).filter(Boolean));
+      return {
+        ...createInitialState(pack.id, pack.caseFile),
+        contradictionFlags: state.contradictionFlags,
+        captainBudgetRequests: state.captainBudgetRequests,
+        accusationsMade: state.accusationsMade,
+        hints: state.hints,
+        score: confirmedRuleIds.size * GAME_MECHANICS.CONTRADICTION_SCORE
+          - state.captainBudgetRequests * ECONOMY_CONFIG.CAPTAIN_BUDGET_SCORE_PENALTY
+          - getHintScorePenalty(state.hints),
+      };
     },
   },
   extraReducers: (builder) => {
+    // When a different case is loaded, rebuild the case file from its pack.
+    builder.addCase(loadStory, (state, action) => createInitialState(action.payload.id, action.payload.caseFile));
+    // Restore the saved placements and score, with nothing selected.
+    builder.addCase(restoreGame, (state, action) => ({
+      ...action.payload.state.caseFile,
+      selectedClueId: null,
+      lastIncorrectSlotId: null,
+    }));
     // When the "Solve Case" button is clicked (and enabled), show the modal.
+    builder.addCase(flagContradiction.fulfilled, (state, action) => {
+      const flag = action.payload;
+      if (!flag) return;
+      const isNewFind = !!flag.ruleId && !state.contradictionFlags.some(f => f.ruleId === flag.ruleId);
+      if (isNewFind) state.score += GAME_MECHANICS.CONTRADICTION_SCORE;
+      state.contradictionFlags.push(flag);
+    });
+    builder.addCase(requestCaptainBudget.fulfilled, (state, action) => {
+      if (action.payload === null) return;
+      state.captainBudgetRequests += 1;
+      state.score -= ECONOMY_CONFIG.CAPTAIN_BUDGET_SCORE_PENALTY;
+    });
+    builder.addCase(recordAccusation.fulfilled, (state, action) => {
+      if (action.payload) state.accusationsMade += 1;
+    });
+    builder.addCase(buyHint.fulfilled, (state, action) => {
+      if (action.payload === null) return;
+      state.hints.push(action.payload);
+      state.score -= HINT_CONFIG.SCORE_PENALTIES[action.payload.tier];
+    });
     builder.addCase(showModal, (state, action) => {
       if (action.payload.type === 'caseSolved') {
         // This is where you could pass final score to the modal if needed
@@ -131,6 +286,16 @@ export const {
 
 // --- Base Selectors ---
 export const selectCaseFileState = (state: RootState) => state.caseFile;
+export const selectContradictionFlags = (state: RootState) => state.caseFile.contradictionFlags;
+export const selectAccusationsMade = (state: RootState) => state.caseFile.accusationsMade;
+export const selectPurchasedHints = (state: RootState) => state.caseFile.hints;
+export const selectHintScorePenalty = createSelector([selectPurchasedHints], getHintScorePenalty);
+/** Selects the hints authored for the current case. */
+export const selectStoryHints = (state: RootState): StoryHint[] =>
+  getStoryPack(state.caseFile.storyId)?.story.hints ?? EMPTY_STORY_HINTS;
+/** Selects the contradiction rules authored for the current case. */
+export const selectContradictionRules = (state: RootState): ContradictionRule[] =>
+  getStoryPack(state.caseFile.storyId)?.story.contradictions ?? EMPTY_CONTRADICTION_RULES;
 
 // --- Entity Selectors ---
 export const {
@@ -146,6 +311,35 @@ export const {
 } = slotsAdapter.getSelectors((state: RootState) => state.caseFile.slots);
 
 // --- Memoized, Derived Selectors ---
+/**
+ * Selects the hint the player can buy next, or null if the difficulty allows no more or nothing is missing
+ * (see `hintEngine`).
+ */
+export const selectHintOffer = createSelector(
+  [selectCanonicalTimeline, selectEvidence, selectReachableIds, selectObjectEntities, selectLocationEntities,
+    (state: RootState) => state.caseFile.anchors, selectSlotEntities, selectAllClues, selectPurchasedHints, selectDifficultyRules],
+  (canonicalTimeline, evidence, reachableIds, objects, locations, anchors, slots, clues, purchased, rules) => getNextHintOffer(
+    findHintTargets({
+      keyEvents: canonicalTimeline?.keyEvents || [],
+      collectedIds: evidence.map(ev => ev.cardId),
+      reachableIds,
+      objects,
+      locations,
+      anchors,
+      slots,
+      clues,
+    }),
+    purchased,
+    rules.maxHintTier,
+  )
+);
+
+/** Selects how many more times the case can be submitted to the DA, or null if the difficulty sets no limit. */
+export const selectAccusationsLeft = createSelector(
+  [selectDifficultyRules, selectAccusationsMade],
+  (rules, accusationsMade) => rules.maxAccusations === null ? null : Math.max(0, rules.maxAccusations - accusationsMade)
+);
+
 export const selectActiveAnchor = createSelector(
   [(state: RootState) => state.caseFile.anchors, (state: RootState) => state.caseFile.activeTab],
   (anchors, activeTab) => anchors.find(a => a.id === activeTab)
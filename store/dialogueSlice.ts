@@ -0,0 +1,210 @@
+/**
+ * @file store/dialogueSlice.ts
+ * @description This Redux slice stores the player's conversations with each character: the transcript,
+ * the lines of inquiry completed, the progress of the active one and the chat history behind it.
+ *
+ * @architectural_decision
+ * Interrogations cost tokens, so a conversation must survive the player leaving the card, reloading the
+ * page or loading a save. `DialogueCard` therefore keeps only transient UI state (the feedback toast, a
+ * pending phase completion) locally, and everything else lives here, one `DialogueSession` per character.
+ * Each session also keeps the exchanges sent to and received from the AI, so `useInterrogationAI` can
+ * rebuild the chat with its full history and the witness remembers what they already said.
+ */
+
+import { createSlice, createEntityAdapter, PayloadAction } from '@reduxjs/toolkit';
+import { DialogueSession, DialogueExchange, WitnessResponse } from '../types';
+import { GAME_MECHANICS } from '../config';
+import { applyHostilityChange } from '../services/composureService';
+import { RootState } from './index';
+import { loadStory } from './storyActions';
+import { restoreGame } from './saveActions';
+
+const sessionsAdapter = createEntityAdapter<DialogueSession, string>({
+  selectId: (session) => session.characterId,
+});
+
+interface DialogueState {
+  sessions: ReturnType<typeof sessionsAdapter.getInitialState>;
+}
+
+const initialState: DialogueState = {
+  sessions: sessionsAdapter.getInitialState(),
+};
+
+/** Adds progress to the active line of inquiry, capped at the completion goal. */
+const addProgress = (session: DialogueSession, progress: number) => {
+  session.phaseProgress = Math.min(GAME_MECHANICS.PHASE_COMPLETION_GOAL, session.phaseProgress + progress);
+};
+
+/**
+ * The ID of a chunk of a character's reply. Replies are numbered by `repliesReceived`, which is not reset
+ * by a new line of inquiry, so a chunk keeps its ID while the reply streams in and after it is recorded,
+ * and no two chunks of a conversation (or the testimony evidence logged from them) share an ID.
+ * @param {string} characterId - The character replying.
+ * @param {number} replyNumber - The session's `repliesReceived` before the reply is recorded.
+ * @param {number} chunkIndex - The chunk's position in the reply.
+ */
+export const getDialogueChunkId = (characterId: string, replyNumber: number, chunkIndex: number): string =>
+  `dialogue-chunk-${characterId}-reply${replyNumber}-${chunkIndex}`;
+
+const dialogueSlice = createSlice({
+  name: 'dialogue',
+  initialState,
+  reducers: {
+    /**
+     * Creates a session the first time the player talks to a character. Does nothing if one exists.
+     * @param {object} action.payload The character, their opening suggestions and, for interviews, their opening statement.
+     */
+    openDialogueSession(state, action: PayloadAction<{ characterId: string; suggestedQuestions: string[]; openingMessage?: WitnessResponse }>) {
+      const { characterId, suggestedQuestions, openingMessage } = action.payload;
+      if (state.sessions.entities[characterId]) return;
+      sessionsAdapter.addOne(state.sessions, {
+        characterId,
+        messages: openingMessage ? [openingMessage] : [],
+        exchanges: [],
+        lastQuestionAsked: null,
+        suggestedQuestions,
+        initialQuestions: null,
+        activeLoiId: null,
+        loiStatus: {},
+        phaseProgress: 0,
+        evidenceCreatedChunkIds: [],
+        revealedCriticalIds: [],
+        presentedEvidenceIds: [],
+        hostility: 0,
+        insightLeads: [],
+        repliesReceived: 0,
+      });
+    },
+    /**
+     * Starts a line of inquiry, clearing the transcript of the previous one. The chat history is kept,
+     * so the suspect still remembers earlier lines of inquiry.
+     */
+    startLineOfInquiry(state, action: PayloadAction<{ characterId: string; loiId: string; initialQuestions: string[] }>) {
+      const session = state.sessions.entities[action.payload.characterId];
+      if (!session) return;
+      session.activeLoiId = action.payload.loiId;
+      session.initialQuestions = action.payload.initialQuestions;
+      session.phaseProgress = 0;
+      session.messages = [];
+      session.lastQuestionAsked = null;
+      session.evidenceCreatedChunkIds = [];
+      session.revealedCriticalIds = [];
+      session.presentedEvidenceIds = [];
+    },
+    /** Records the question the player just asked. */
+    recordQuestion(state, action: PayloadAction<{ characterId: string; question: string }>) {
+      const session = state.sessions.entities[action.payload.characterId];
+      if (!session) return;
+      session.lastQuestionAsked = action.payload.question;
+      session.initialQuestions = null;
+    },
+    /**
+     * Adds the witness's reply to the transcript. Replies that came from the AI also carry the exchange
+     * for the chat history, the progress they earned, the change in the suspect's hostility and any new
+     * suggested questions.
+     */
+    recordWitnessResponse(
+      state,
+      action: PayloadAction<{
+        characterId: string;
+        message: WitnessResponse;
+        exchange?: DialogueExchange;
+        progressValue?: number;
+        hostilityChange?: number;
+        suggestedQuestions?: string[];
+      }>
+    ) {
+      const { characterId, message, exchange, progressValue, hostilityChange, suggestedQuestions } = action.payload;
+      const session = state.sessions.entities[characterId];
+      if (!session) return;
+      session.messages.push(message);
+      session.repliesReceived += 1;
+      if (exchange) session.exchanges.push(exchange);
+      if (progressValue) addProgress(session, progressValue);
+      if (hostilityChange) session.hostility = applyHostilityChange(session.hostility, hostilityChange);
+      // Keep the previous suggestions if the AI did not offer new ones.
+      if (suggestedQuestions && suggestedQuestions.length > 0) {
+        session.suggestedQuestions = suggestedQuestions;
+      }
+    },
+    /**
+     * Marks a chunk of testimony as logged evidence and adds the progress it earned. A chunk that revealed
+     * an insight also records the insight's new lead.
+     */
+    recordTestimonyEvidence(state, action: PayloadAction<{ characterId: string; chunkId: string; progressValue: number; isRevealed: boolean; insightLead?: string }>) {
+      const { characterId, chunkId, progressValue, isRevealed, insightLead } = action.payload;
+      const session = state.sessions.entities[characterId];
+      if (!session || session.evidenceCreatedChunkIds.includes(chunkId)) return;
+      session.evidenceCreatedChunkIds.push(chunkId);
+      if (isRevealed) session.revealedCriticalIds.push(chunkId);
+      if (insightLead) session.insightLeads.push(insightLead);
+      addProgress(session, progressValue);
+    },
+    /**
+     * Records that an object was presented during the active line of inquiry, with the bonus progress it
+     * earned. The bonus is only awarded the first time.
+     */
+    recordEvidencePresented(state, action: PayloadAction<{ characterId: string; objectId: string; progressValue: number }>) {
+      const { characterId, objectId, progressValue } = action.payload;
+      const session = state.sessions.entities[characterId];
+      if (!session || session.presentedEvidenceIds.includes(objectId)) return;
+      session.presentedEvidenceIds.push(objectId);
+      addProgress(session, progressValue);
+    },
+    /** Marks a line of inquiry as completed. It stays active until the player leaves it. */
+    completeLineOfInquiry(state, action: PayloadAction<{ characterId: string; loiId: string }>) {
+      const session = state.sessions.entities[action.payload.characterId];
+      if (!session) return;
+      session.loiStatus[action.payload.loiId] = 'completed';
+    },
+    /** Records that the suspect cracked under pressure, which leaves them less hostile. */
+    suspectCracked(state, action: PayloadAction<string>) {
+      const session = state.sessions.entities[action.payload];
+      if (!session) return;
+      session.hostility = Math.min(session.hostility, GAME_MECHANICS.HOSTILITY_AFTER_CRACK);
+    },
+    /**
+     * Ends the active line of inquiry because the suspect asked for a lawyer. It is left incomplete, and
+     * the suspect is still hostile when the player returns.
+     */
+    requestLawyer(state, action: PayloadAction<string>) {
+      const session = state.sessions.entities[action.payload];
+      if (!session) return;
+      session.activeLoiId = null;
+      session.hostility = GAME_MECHANICS.HOSTILITY_AFTER_LAWYER;
+    },
+    /** Leaves the active line of inquiry and returns to the list. */
+    endLineOfInquiry(state, action: PayloadAction<string>) {
+      const session = state.sessions.entities[action.payload];
+      if (!session) return;
+      session.activeLoiId = null;
+    },
+  },
+  extraReducers: (builder) => {
+    // Conversations belong to a single case.
+    builder.addCase(loadStory, () => initialState);
+    builder.addCase(restoreGame, (state, action) => action.payload.state.dialogue);
+  },
+});
+
+export const {
+  openDialogueSession,
+  startLineOfInquiry,
+  recordQuestion,
+  recordWitnessResponse,
+  recordTestimonyEvidence,
+  recordEvidencePresented,
+  completeLineOfInquiry,
+  suspectCracked,
+  requestLawyer,
+  endLineOfInquiry,
+} = dialogueSlice.actions;
+
+export default dialogueSlice.reducer;
+
+// --- Selectors ---
+
+export const {
+  selectById: selectDialogueSession,
+} = sessionsAdapter.getSelectors((state: RootState) => state.dialogue.sessions);
@@ -0,0 +1,37 @@
+/**
+ * @file store/economyMiddleware.ts
+ * @description The Redux middleware that has ADA warn the player when their budget can no longer cover
+ * the case.
+ *
+ * @architectural_decision
+ * The analysis itself is the memoized `selectEconomyAnalysis`; this middleware only watches the actions
+ * that move tokens or evidence and compares the analysis before and after them. ADA speaks up when the
+ * outlook gets worse, once per step, so the warning comes early and is not repeated on every purchase.
+ * Loading or restoring a game replaces the state wholesale and is not a change the player made, so it is
+ * not announced; the Processing Ledger still shows the outlook.
+ */
+
+import { Middleware, isAnyOf } from '@reduxjs/toolkit';
+import { addToTimeline, deductTokens, addTokens, completeBounty, selectEconomyAnalysis } from './storySlice';
+import { addADAMessage } from './adaSlice';
+import { ECONOMY_STATUS_RANK } from '../services/economyAnalyzer';
+import type { RootState } from './index';
+
+/** The actions that can change the balance or the evidence still to collect. */
+const isEconomyChange = isAnyOf(addToTimeline, deductTokens, addTokens, completeBounty);
+
+export const economyMiddleware: Middleware = (api) => (next) => (action) => {
+  if (!isEconomyChange(action)) return next(action);
+
+  const before = selectEconomyAnalysis(api.getState() as RootState);
+  const result = next(action);
+  const after = selectEconomyAnalysis(api.getState() as RootState);
+
+  if (ECONOMY_STATUS_RANK[after.status] > ECONOMY_STATUS_RANK[before.status]) {
+    const balance = (api.getState() as RootState).story.playerTokens;
+    api.dispatch(addADAMessage(after.status === 'softlocked'
+      ? `Detective, we can't afford the evidence this case needs. We're ${after.shortfall} tokens short. Check the Processing Ledger: there's an emergency bounty, or I can request budget from the captain.`
+      : `Detective, a word about the budget. The evidence this case still needs will cost about ${after.requiredTokens} tokens, and we have ${balance}. Let's not spend on anything that doesn't move the case forward.`));
+  }
+  return result;
+};
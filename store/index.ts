@@ -10,6 +10,10 @@ import storyReducer from './storySlice';
 import uiReducer from './uiSlice';
 import adaReducer from './adaSlice';
 import caseFileReducer from './caseFileSlice';
+import saveReducer from './saveSlice';
+import dialogueReducer from './dialogueSlice';
+import { triggerMiddleware } from './triggerMiddleware';
+import { economyMiddleware } from './economyMiddleware';
 
 /**
  * The main Redux store for the application.
@@ -23,7 +27,11 @@ export const store = configureStore({
     ui: uiReducer,       // Manages the UI state (active view, modals, etc.)
     ada: adaReducer,     // Manages the state of the AI assistant (messages, loading state)
     caseFile: caseFileReducer, // Manages the state for the new interactive case file
+    save: saveReducer,   // Manages save slots and the play-time clock
+    dialogue: dialogueReducer, // Manages the transcripts and progress of conversations with each character
   },
+  // Fires the active story's scripted triggers after each action, and warns when the budget runs short.
+  middleware: (getDefaultMiddleware) => getDefaultMiddleware().concat(triggerMiddleware, economyMiddleware),
 });
 
 /**
@@ -0,0 +1,137 @@
+/**
+ * @file store/saveActions.ts
+ * @description Serialization of the game state for the save/load system, and the cross-slice action that
+ * restores a saved game.
+ *
+ * @architectural_decision
+ * Only the parts of each slice that represent player progress are saved. Transient UI state (open modals,
+ * toasts, loading flags) and the image cache are deliberately left out: the image cache is already
+ * persisted by `dbService`, and blob URLs are only valid for the page that created them. The story's
+ * authored content (characters, locations, objects, bounties and the rest of the pack) is not saved
+ * either: the story slice rebuilds it from the registered pack on restore and lays the saved progress over
+ * it, so a save picks up fixes and new content in the pack, such as a location's unlock conditions.
+ * Like `loadStory`, `restoreGame` lives outside the slices so that every slice can respond to it
+ * without circular imports.
+ */
+
+import { createAction } from '@reduxjs/toolkit';
+import { RootState } from './index';
+import { getStoryPack } from '../data/storyRegistry';
+import { Character, StoryObject } from '../types';
+
+/** The story slice fields that record the player's progress. Everything else is rebuilt from the pack. */
+type PersistedStoryKeys =
+  | 'storyId'
+  | 'evidence'
+  | 'firedTriggerIds'
+  | 'unlockedLocationIds'
+  | 'revealedCharacterIds'
+  | 'playerTokens'
+  | 'tokenLedger'
+  | 'bountyCompletions'
+  | 'difficultyId'
+  | 'rules'
+  | 'dynamicHotspotCoords';
+
+/** The fields of a story object that change during play. */
+export type ObjectProgress = Pick<StoryObject, 'isEvidence' | 'hasBeenUnlocked' | 'assignedToSuspectIds'>;
+
+/** The saved story: its progress fields, and the progress of the pack's objects and characters. */
+export interface PersistedStoryState extends Pick<RootState['story'], PersistedStoryKeys> {
+  objectProgress: { [objectId: string]: ObjectProgress };
+  characterProgress: { [characterId: string]: Pick<Character, 'isSuspect'> };
+  /** Objects created during play, such as evidence logged from testimony. They are not in the pack. */
+  addedObjects: StoryObject[];
+}
+
+/** The UI slice fields that describe where the player was, and which locations they have visited. */
+type PersistedUiKeys =
+  | 'activeView'
+  | 'activeCardId'
+  | 'activeCardType'
+  | 'activeCollectionType'
+  | 'activeCollectionTitle'
+  | 'history'
+  | 'locationsView'
+  | 'visitedLocationIds';
+
+/**
+ * The serializable snapshot of the game stored in a save slot.
+ */
+export interface PersistedGameState {
+  story: PersistedStoryState;
+  ui: Pick<RootState['ui'], PersistedUiKeys>;
+  ada: Pick<RootState['ada'], 'messages'>;
+  caseFile: Omit<RootState['caseFile'], 'selectedClueId' | 'lastIncorrectSlotId'>;
+  dialogue: RootState['dialogue'];
+}
+
+/**
+ * Extracts the savable parts of the store.
+ * @param {RootState} state - The current store state.
+ * @returns {PersistedGameState} A snapshot that can be written to IndexedDB.
+ */
+export const serializeGameState = (state: RootState): PersistedGameState => {
+  const packObjectIds = new Set(getStoryPack(state.story.storyId)?.story.objects.map(o => o.id));
+  const objects = Object.values(state.story.objects.entities) as StoryObject[];
+  const objectProgress: PersistedStoryState['objectProgress'] = {};
+  objects.filter(o => packObjectIds.has(o.id)).forEach(({ id, isEvidence, hasBeenUnlocked, assignedToSuspectIds }) => {
+    objectProgress[id] = { isEvidence, hasBeenUnlocked, assignedToSuspectIds };
+  });
+  const characterProgress: PersistedStoryState['characterProgress'] = {};
+  (Object.values(state.story.characters.entities) as Character[]).forEach(({ id, isSuspect }) => {
+    characterProgress[id] = { isSuspect };
+  });
+  const {
+    storyId, evidence, firedTriggerIds, unlockedLocationIds, revealedCharacterIds, playerTokens, tokenLedger,
+    bountyCompletions, difficultyId, rules, dynamicHotspotCoords,
+  } = state.story;
+  const story: PersistedStoryState = {
+    storyId, evidence, firedTriggerIds, unlockedLocationIds, revealedCharacterIds, playerTokens, tokenLedger,
+    bountyCompletions, difficultyId, rules, dynamicHotspotCoords,
+    objectProgress,
+    characterProgress,
+    addedObjects: objects.filter(o => !packObjectIds.has(o.id)),
+  };
+  const { selectedClueId, lastIncorrectSlotId, ...caseFile } = state.caseFile;
+  const { activeView, activeCardId, activeCardType, activeCollectionType, activeCollectionTitle, history, locationsView, visitedLocationIds } = state.ui;
+
+  return {
+    story,
+    ui: { activeView, activeCardId, activeCardType, activeCollectionType, activeCollectionTitle, history, locationsView, visitedLocationIds },
+    ada: { messages: state.ada.messages },
+    caseFile,
+    dialogue: state.dialogue,
+  };
+};
+
+/**
+ * Returns the pieces of state that count as player progress. The autosave compares these by reference
+ * to decide whether anything worth saving has changed; image loading and navigation alone do not count.
+ * @param {RootState} state - The current store state.
+ * @returns {unknown[]} A list of state references.
+ */
+export const getProgressSignature = (state: RootState): unknown[] => [
+  state.story.storyId,
+  state.story.characters,
+  state.story.objects,
+  state.story.evidence,
+  state.story.playerTokens,
+  state.story.firedTriggerIds,
+  state.story.unlockedLocationIds,
+  state.story.revealedCharacterIds,
+  state.caseFile.slots,
+  state.caseFile.score,
+  state.caseFile.contradictionFlags,
+  state.ui.visitedLocationIds,
+  state.dialogue.sessions,
+];
+
+/**
+ * Replaces the current game with a saved snapshot. Each slice merges its part of the snapshot
+ * in its `extraReducers`. The `meta.restoredAt` timestamp restarts the play-time clock.
+ */
+export const restoreGame = createAction('save/restoreGame', (state: PersistedGameState, playTimeMs: number) => ({
+  payload: { state, playTimeMs },
+  meta: { restoredAt: Date.now() },
+}));
@@ -0,0 +1,240 @@
+/**
+ * @file store/saveMigrations.ts
+ * @description The schema version of saved games and the pipeline that upgrades old snapshots.
+ *
+ * @architectural_decision
+ * Every save is stamped with the `SAVE_SCHEMA_VERSION` it was written with. When a change to a persisted
+ * type (e.g. `StoryObject`, `Evidence`, `EvidenceSlot` or the UI state) would break older saves:
+ * 1.  Bump `SAVE_SCHEMA_VERSION`.
+ * 2.  Add a migration to `SAVE_MIGRATIONS`, keyed by the version it upgrades *from*.
+ * Migrations run one step at a time (v1 → v2 → v3 ...), so each one only needs to know about the
+ * shape immediately before it. A save that cannot be migrated is quarantined by the caller rather
+ * than loaded in a half-upgraded state.
+ */
+
+import { PersistedGameState } from './saveActions';
+
+/** The schema version written into every new save. */
+export const SAVE_SCHEMA_VERSION = 14;
+
+/**
+ * A single migration step. It receives the snapshot at version N and returns it at version N + 1.
+ * Snapshots are untyped here because, by definition, they predate the current types.
+ */
+export type SaveMigration = (state: any) => any;
+
+/**
+ * The registry of migration steps, keyed by the schema version each one upgrades from.
+ */
+export const SAVE_MIGRATIONS: { [fromVersion: number]: SaveMigration } = {
+  /**
+   * v0 → v1: Saves written before versioning existed. Their shape matches v1, but fields that later
+   * became optional-in-practice are filled in so the slices never see `undefined`.
+   */
+  0: (state) => ({
+    ...state,
+    ui: { history: [], visitedLocationIds: [], ...state.ui },
+    ada: { messages: [], ...state.ada },
+  }),
+  /**
+   * v1 → v2: Conversations are now saved. Older saves start with no conversations.
+   */
+  1: (state) => ({
+    ...state,
+    dialogue: { sessions: { ids: [], entities: {} } },
+  }),
+  /**
+   * v2 → v3: Sessions track the evidence presented during the active line of inquiry.
+   */
+  2: (state) => {
+    const entities: { [id: string]: any } = {};
+    Object.entries(state.dialogue.sessions.entities).forEach(([id, session]: [string, any]) => {
+      entities[id] = { presentedEvidenceIds: [], ...session };
+    });
+    return { ...state, dialogue: { ...state.dialogue, sessions: { ...state.dialogue.sessions, entities } } };
+  },
+  /**
+   * v3 → v4: The case file records flagged contradictions. Older saves have flagged none.
+   */
+  3: (state) => ({
+    ...state,
+    caseFile: { contradictionFlags: [], ...state.caseFile },
+  }),
+  /**
+   * v4 → v5: Sessions track the suspect's hostility. Older conversations start calm.
+   */
+  4: (state) => {
+    const entities: { [id: string]: any } = {};
+    Object.entries(state.dialogue.sessions.entities).forEach(([id, session]: [string, any]) => {
+      entities[id] = { hostility: 0, ...session };
+    });
+    return { ...state, dialogue: { ...state.dialogue, sessions: { ...state.dialogue.sessions, entities } } };
+  },
+  /**
+   * v5 → v6: The `hasDiscoveredPaint` flag became the story trigger that replaced it, and the story
+   * tracks the locations and characters its triggers have made available.
+   */
+  5: (state) => {
+    const { hasDiscoveredPaint, ...story } = state.story;
+    return {
+      ...state,
+      story: {
+        firedTriggerIds: hasDiscoveredPaint ? ['trigger_paint_discovered'] : [],
+        unlockedLocationIds: [],
+        revealedCharacterIds: [],
+        ...story,
+      },
+    };
+  },
+  /**
+   * v6 → v7: Sessions keep the leads of the insights they revealed. Leads revealed before the upgrade
+   * are not recoverable, so older conversations start with none.
+   */
+  6: (state) => {
+    const entities: { [id: string]: any } = {};
+    Object.entries(state.dialogue.sessions.entities).forEach(([id, session]: [string, any]) => {
+      entities[id] = { insightLeads: [], ...session };
+    });
+    return { ...state, dialogue: { ...state.dialogue, sessions: { ...state.dialogue.sessions, entities } } };
+  },
+  /**
+   * v7 → v8: Token changes are recorded in a ledger. Older saves only kept the balance, so their ledger
+   * starts empty.
+   */
+  7: (state) => ({ ...state, story: { tokenLedger: [], ...state.story } }),
+  /**
+   * v8 → v9: Bounties became playable. No bounty could be solved before, so none are completed. The saved
+   * bounties themselves are dropped: restoring a game takes them, with their puzzles, from the story pack.
+   */
+  8: (state) => {
+    const { bounties, ...story } = state.story;
+    return { ...state, story: { bountyCompletions: {}, ...story } };
+  },
+  /**
+   * v9 → v10: The case file counts the player's requests for budget from the captain. There were none before.
+   */
+  9: (state) => ({ ...state, caseFile: { captainBudgetRequests: 0, ...state.caseFile } }),
+  /**
+   * v10 → v11: Cases are played on a difficulty preset, whose rules live in the story state. Older saves were
+   * played with the fixed numbers of the time, which are the Detective preset; they are written out here so
+   * that rebalancing the presets later does not change these saves. No accusations were counted before.
+   */
+  10: (state) => {
+    const { milestoneThreshold = 3, accusationThreshold = 5, ...story } = state.story;
+    return {
+      ...state,
+      story: {
+        difficultyId: 'detective',
+        rules: {
+          startingTokens: 200,
+          questionCost: 2,
+          typedQuestionCost: 5,
+          presentEvidenceCost: 5,
+          testimonyEvidenceCost: 15,
+          unlockCostMultiplier: 1,
+          contradictionReward: 20,
+          falseContradictionPenalty: 10,
+          accusationThreshold,
+          maxAccusations: null,
+          milestoneThreshold,
+          maxHintTier: 2,
+          rarityVisibleBeforeUnlock: false,
+        },
+        ...story,
+      },
+      caseFile: { accusationsMade: 0, ...state.caseFile },
+    };
+  },
+  /**
+   * v11 → v12: The case file records the hints bought from ADA. There were none before.
+   */
+  11: (state) => ({ ...state, caseFile: { hints: [], ...state.caseFile } }),
+  /**
+   * v12 → v13: The story's authored content is no longer saved; restoring a game rebuilds it from the pack.
+   * Only the progress of each object and character is kept. The only objects created during play were
+   * evidence logged from testimony (`obj-testimony-*`), which are kept whole.
+   */
+  12: (state) => {
+    const {
+      title, storyInfo, characters, objects, locations, evidenceGroups, bounties, testimonies, canonicalTimeline,
+      evidenceStacks, introSlides, totalDiscoverableEvidence, ...story
+    } = state.story;
+    const objectProgress: { [id: string]: any } = {};
+    const addedObjects: any[] = [];
+    Object.values(objects?.entities || {}).forEach((object: any) => {
+      if (object.id.startsWith('obj-testimony-')) {
+        addedObjects.push(object);
+        return;
+      }
+      const { isEvidence = false, hasBeenUnlocked = false, assignedToSuspectIds = [] } = object;
+      objectProgress[object.id] = { isEvidence, hasBeenUnlocked, assignedToSuspectIds };
+    });
+    const characterProgress: { [id: string]: any } = {};
+    Object.values(characters?.entities || {}).forEach((character: any) => {
+      characterProgress[character.id] = { isSuspect: !!character.isSuspect };
+    });
+    return { ...state, story: { ...story, objectProgress, characterProgress, addedObjects } };
+  },
+  /**
+   * v13 → v14: Sessions count the replies they received, which number the chunk IDs. Older chunk IDs have
+   * a different form, so counting from zero cannot reuse the ID of testimony logged before the upgrade.
+   */
+  13: (state) => {
+    const entities: { [id: string]: any } = {};
+    Object.entries(state.dialogue.sessions.entities).forEach(([id, session]: [string, any]) => {
+      entities[id] = { repliesReceived: 0, ...session };
+    });
+    return { ...state, dialogue: { ...state.dialogue, sessions: { ...state.dialogue.sessions, entities } } };
+  },
+};
+
+/**
+ * Raised when a saved snapshot cannot be upgraded to the current schema.
+ */
+export class SaveMigrationError extends Error {
+  constructor(message: string, public readonly fromVersion: number) {
+    super(message);
+    this.name = 'SaveMigrationError';
+  }
+}
+
+/**
+ * Checks that a snapshot has the top-level structure every slice expects.
+ */
+const assertSnapshotShape = (state: any, version: number): void => {
+  const requiredSections: (keyof PersistedGameState)[] = ['story', 'ui', 'ada', 'caseFile', 'dialogue'];
+  const missing = requiredSections.filter(key => !state || typeof state[key] !== 'object' || state[key] === null);
+  if (missing.length > 0) {
+    throw new SaveMigrationError(`The save is missing required sections: ${missing.join(', ')}.`, version);
+  }
+};
+
+/**
+ * Upgrades a saved snapshot to the current schema, one version at a time.
+ * @param {unknown} state - The snapshot as read from IndexedDB.
+ * @param {number} fromVersion - The schema version the snapshot was written with.
+ * @returns {PersistedGameState} The snapshot at `SAVE_SCHEMA_VERSION`.
+ * @throws {SaveMigrationError} If the save is from a newer build, a migration step is missing or fails,
+ * or the result is not a valid snapshot.
+ */
+export const migrateSaveState = (state: unknown, fromVersion: number): PersistedGameState => {
+  if (fromVersion > SAVE_SCHEMA_VERSION) {
+    throw new SaveMigrationError(`The save was created by a newer version of the game (schema v${fromVersion}).`, fromVersion);
+  }
+
+  let migrated: any = state;
+  for (let version = fromVersion; version < SAVE_SCHEMA_VERSION; version++) {
+    const migration = SAVE_MIGRATIONS[version];
+    if (!migration) {
+      throw new SaveMigrationError(`No migration is registered from schema v${version}.`, fromVersion);
+    }
+    try {
+      migrated = migration(migrated);
+    } catch (error: any) {
+      throw new SaveMigrationError(`Migration from schema v${version} failed: ${error?.message || error}`, fromVersion);
+    }
+  }
+
+  assertSnapshotShape(migrated, fromVersion);
+  return migrated as PersistedGameState;
+};
@@ -0,0 +1,375 @@
+/**
+ * @file store/saveSlice.ts
+ * @description This Redux slice manages the save/load system: the list of save slots, the play-time clock,
+ * and the thunks that write, read and delete slots in IndexedDB via `saveService`.
+ * Loading a slot runs it through the migration pipeline in `saveMigrations.ts` first, and only a save of a
+ * case registered in `STORY_PACKS` is restored: the slices rebuild the case from its pack, so restoring any
+ * other save would mix it with the default case. Export and import wrap the same save records in a portable
+ * file (see `saveFileService.ts`).
+ */
+
+import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
+import { SaveSlotMetadata, SaveSlotKind, QuarantinedSaveRecord, SaveGameRecord } from '../types';
+import { AppDispatch, RootState } from './index';
+import { saveService } from '../services/saveService';
+import { dbService } from '../services/dbService';
+import { createSaveFile, readSaveFile, downloadFile, SaveFileError } from '../services/saveFileService';
+import { serializeGameState, restoreGame, getProgressSignature, PersistedGameState } from './saveActions';
+import { SAVE_SCHEMA_VERSION, migrateSaveState, SaveMigrationError } from './saveMigrations';
+import { loadStory } from './storyActions';
+import { showModal } from './uiSlice';
+import { hydrateImageCache } from './storySlice';
+import { getStoryPack } from '../data/storyRegistry';
+import { SAVE_CONFIG } from '../config';
+
+/** A quarantined save as listed in the UI, without its (potentially large) original record. */
+type QuarantinedSaveSummary = Omit<QuarantinedSaveRecord, 'record'>;
+
+interface SaveState {
+  /** The metadata of every save slot, most recent first. */
+  slots: SaveSlotMetadata[];
+  /** Saves that failed to migrate and were set aside. */
+  quarantinedSaves: QuarantinedSaveSummary[];
+  /** The play time accumulated before the current session started, in milliseconds. */
+  playTimeMs: number;
+  /** When the current play session started (epoch milliseconds). */
+  sessionStartedAt: number;
+  isSaving: boolean;
+  error: string | null;
+}
+
+const initialState: SaveState = {
+  slots: [],
+  quarantinedSaves: [],
+  playTimeMs: 0,
+  sessionStartedAt: Date.now(),
+  isSaving: false,
+  error: null,
+};
+
+/**
+ * Calculates the total play time of the current investigation.
+ * @param {RootState} state - The current store state.
+ * @returns {number} The play time in milliseconds.
+ */
+export const selectPlayTimeMs = (state: RootState): number =>
+  state.save.playTimeMs + (Date.now() - state.save.sessionStartedAt);
+
+/**
+ * Reads the metadata of every save slot from IndexedDB.
+ */
+export const fetchSaveSlots = createAsyncThunk<SaveSlotMetadata[]>(
+  'save/fetchSlots',
+  async () => saveService.listSaves()
+);
+
+/**
+ * Builds a complete, current-schema save record from the store.
+ */
+const buildSaveRecord = (state: RootState, slotId: string, name: string, kind: SaveSlotKind): SaveGameRecord<PersistedGameState> => ({
+  schemaVersion: SAVE_SCHEMA_VERSION,
+  metadata: {
+    slotId,
+    name,
+    kind,
+    storyId: state.story.storyId,
+    caseTitle: state.story.title,
+    savedAt: new Date().toISOString(),
+    playTimeMs: selectPlayTimeMs(state),
+    tokens: state.story.playerTokens,
+    evidenceCount: state.story.evidence.filter(e => e.id !== 'ev-initial-crime').length,
+  },
+  state: serializeGameState(state),
+});
+
+/**
+ * Writes the current game to a save slot.
+ * Passing the ID of an existing slot overwrites it; omitting it creates a new manual slot.
+ */
+export const saveGame = createAsyncThunk<
+  SaveSlotMetadata,
+  { slotId?: string; name: string; kind?: SaveSlotKind },
+  { dispatch: AppDispatch, state: RootState, rejectValue: string }
+>(
+  'save/saveGame',
+  async ({ slotId, name, kind = 'manual' }, { getState, rejectWithValue }) => {
+    const record = buildSaveRecord(getState(), slotId ?? `manual-${Date.now()}`, name, kind);
+
+    try {
+      await saveService.putSave(record);
+      return record.metadata;
+    } catch (error: any) {
+      console.error("Failed to save game to IndexedDB:", error);
+      return rejectWithValue(error.message || 'The game could not be saved.');
+    }
+  }
+);
+
+// The progress signature at the time of the last autosave. Kept outside the store because it holds
+// references into the state tree, which must not be nested inside the state itself.
+let lastAutosaveSignature: unknown[] | null = null;
+
+/**
+ * Marks the current state as already saved, so the autosave only fires once the player makes progress.
+ * Called when the autosave is first armed, so that a fresh session never overwrites an existing autosave.
+ */
+export const markAutosaveBaseline = (state: RootState): void => {
+  lastAutosaveSignature = getProgressSignature(state);
+};
+
+/**
+ * Writes the autosave slot if the player has made progress since the last autosave.
+ */
+export const autosaveGame = createAsyncThunk<void, void, { dispatch: AppDispatch, state: RootState }>(
+  'save/autosave',
+  async (_, { getState, dispatch }) => {
+    const state = getState();
+    const signature = getProgressSignature(state);
+    const hasProgress = !lastAutosaveSignature || signature.some((value, index) => value !== lastAutosaveSignature![index]);
+    if (!hasProgress || state.save.isSaving) return;
+
+    lastAutosaveSignature = signature;
+    await dispatch(saveGame({ slotId: SAVE_CONFIG.AUTOSAVE_SLOT_ID, name: 'Autosave', kind: 'auto' }));
+  }
+);
+
+/**
+ * Reads the quarantined saves from IndexedDB.
+ */
+export const fetchQuarantinedSaves = createAsyncThunk<QuarantinedSaveSummary[]>(
+  'save/fetchQuarantined',
+  async () => {
+    const records = await saveService.listQuarantinedSaves();
+    return records.map(({ record, ...summary }) => summary);
+  }
+);
+
+/**
+ * Explains why a migrated save cannot be restored because its case is not in this build.
+ * @returns {string | null} The reason, or null if the case is registered.
+ */
+const findUnknownStoryProblem = (state: PersistedGameState): string | null =>
+  getStoryPack(state.story.storyId) ? null : `It is from a case this version of the game does not have ("${state.story.storyId}").`;
+
+/**
+ * Reads a save slot, migrates it to the current schema and restores it into the store.
+ * A save from a newer build is left untouched. A save that fails to migrate, or whose case is not
+ * registered, is quarantined and reported, and the current game is left as it was.
+ */
+export const loadGame = createAsyncThunk<void, string, { dispatch: AppDispatch, state: RootState, rejectValue: string }>(
+  'save/loadGame',
+  async (slotId, { dispatch, rejectWithValue }) => {
+    try {
+      const record = await saveService.getSave(slotId);
+      if (!record) return rejectWithValue('That save slot is empty.');
+
+      const fromVersion = record.schemaVersion ?? 0;
+      if (fromVersion > SAVE_SCHEMA_VERSION) {
+        return rejectWithValue(`"${record.metadata.name}" was made with a newer version of the game and cannot be loaded.`);
+      }
+
+      const quarantine = async (reason: string) => {
+        await saveService.quarantineSave({ metadata: record.metadata, record, reason, quarantinedAt: new Date().toISOString() });
+        dispatch(fetchSaveSlots());
+        dispatch(fetchQuarantinedSaves());
+      };
+
+      let migratedState;
+      try {
+        migratedState = migrateSaveState(record.state, fromVersion);
+      } catch (error) {
+        if (!(error instanceof SaveMigrationError)) throw error;
+        console.error(`Save "${slotId}" failed to migrate and has been quarantined:`, error);
+        await quarantine(error.message);
+        return rejectWithValue(`"${record.metadata.name}" is damaged and has been set aside. ${error.message}`);
+      }
+
+      const unknownStory = findUnknownStoryProblem(migratedState);
+      if (unknownStory) {
+        console.error(`Save "${slotId}" is from an unregistered case and has been quarantined.`);
+        await quarantine(unknownStory);
+        return rejectWithValue(`"${record.metadata.name}" cannot be loaded and has been set aside. ${unknownStory}`);
+      }
+
+      // Write the upgraded snapshot back so the migration only ever runs once per save.
+      if (fromVersion < SAVE_SCHEMA_VERSION) {
+        await saveService.putSave({ ...record, schemaVersion: SAVE_SCHEMA_VERSION, state: migratedState });
+      }
+
+      dispatch(restoreGame(migratedState, record.metadata.playTimeMs));
+    } catch (error: any) {
+      console.error("Failed to load game from IndexedDB:", error);
+      return rejectWithValue(error.message || 'The save could not be loaded.');
+    }
+  }
+);
+
+/**
+ * Downloads the current game as a portable file, optionally including the case's cached images.
+ */
+export const exportGame = createAsyncThunk<void, { includeImages: boolean }, { dispatch: AppDispatch, state: RootState, rejectValue: string }>(
+  'save/exportGame',
+  async ({ includeImages }, { getState, rejectWithValue }) => {
+    try {
+      const state = getState();
+      const record = buildSaveRecord(state, `export-${Date.now()}`, state.story.title, 'manual');
+      const images = includeImages ? await dbService.getStoryImages(state.story.storyId) : undefined;
+      const file = await createSaveFile(record, images);
+      downloadFile(file, `${state.story.storyId}-${record.metadata.savedAt.slice(0, 10)}.json`);
+    } catch (error: any) {
+      console.error("Failed to export game:", error);
+      return rejectWithValue(error.message || 'The investigation could not be exported.');
+    }
+  }
+);
+
+/**
+ * Imports a file produced by `exportGame`. The save is migrated to the current schema, stored as a new
+ * manual slot and restored; any embedded images are added to the image cache. A file from a case that is
+ * not registered is rejected before anything is stored.
+ */
+export const importGame = createAsyncThunk<void, Blob, { dispatch: AppDispatch, state: RootState, rejectValue: string }>(
+  'save/importGame',
+  async (file, { dispatch, rejectWithValue }) => {
+    try {
+      const { save, images } = await readSaveFile(file);
+      const migratedState = migrateSaveState(save.state, save.schemaVersion ?? 0);
+      const unknownStory = findUnknownStoryProblem(migratedState);
+      if (unknownStory) return rejectWithValue(`"${save.metadata.name}" cannot be imported. ${unknownStory}`);
+
+      await Promise.all(images.map(({ id, blob }) => dbService.saveImage(id, blob, save.metadata.storyId)));
+
+      const metadata: SaveSlotMetadata = {
+        ...save.metadata,
+        slotId: `import-${Date.now()}`,
+        name: `${save.metadata.name} (Imported)`,
+        kind: 'manual',
+      };
+      await saveService.putSave({ schemaVersion: SAVE_SCHEMA_VERSION, metadata, state: migratedState });
+
+      dispatch(restoreGame(migratedState, metadata.playTimeMs));
+      dispatch(hydrateImageCache());
+      dispatch(fetchSaveSlots());
+    } catch (error: any) {
+      if (error instanceof SaveFileError || error instanceof SaveMigrationError) {
+        return rejectWithValue(error.message);
+      }
+      console.error("Failed to import game:", error);
+      return rejectWithValue(error.message || 'The file could not be imported.');
+    }
+  }
+);
+
+/**
+ * Deletes a save slot.
+ */
+export const deleteSave = createAsyncThunk<string, string, { rejectValue: string }>(
+  'save/deleteSave',
+  async (slotId, { rejectWithValue }) => {
+    try {
+      await saveService.deleteSave(slotId);
+      return slotId;
+    } catch (error: any) {
+      console.error("Failed to delete save from IndexedDB:", error);
+      return rejectWithValue(error.message || 'The save could not be deleted.');
+    }
+  }
+);
+
+/**
+ * Permanently deletes a quarantined save.
+ */
+export const deleteQuarantinedSave = createAsyncThunk<string, string, { rejectValue: string }>(
+  'save/deleteQuarantined',
+  async (slotId, { rejectWithValue }) => {
+    try {
+      await saveService.deleteQuarantinedSave(slotId);
+      return slotId;
+    } catch (error: any) {
+      console.error("Failed to delete quarantined save from IndexedDB:", error);
+      return rejectWithValue(error.message || 'The save could not be deleted.');
+    }
+  }
+);
+
+/**
+ * On startup, offers to continue from a save if one exists and nothing else (such as the intro) is showing.
+ */
+export const offerContinue = createAsyncThunk<void, void, { dispatch: AppDispatch, state: RootState }>(
+  'save/offerContinue',
+  async (_, { dispatch, getState }) => {
+    const slots = await dispatch(fetchSaveSlots()).unwrap();
+    if (slots.length > 0 && !getState().ui.activeModal) {
+      dispatch(showModal({ type: 'saveLoad', props: { mode: 'continue' } }));
+    }
+  }
+);
+
+const saveSlice = createSlice({
+  name: 'save',
+  initialState,
+  reducers: {},
+  extraReducers: (builder) => {
+    builder
+      // A new case starts a new play-time clock.
+      .addCase(loadStory, (state, action) => {
+        state.playTimeMs = 0;
+        state.sessionStartedAt = action.meta.loadedAt;
+      })
+      // A restored game resumes the clock from the saved play time.
+      .addCase(restoreGame, (state, action) => {
+        state.playTimeMs = action.payload.playTimeMs;
+        state.sessionStartedAt = action.meta.restoredAt;
+      })
+      .addCase(fetchSaveSlots.fulfilled, (state, action) => {
+        state.slots = action.payload;
+      })
+      .addCase(saveGame.pending, (state) => {
+        state.isSaving = true;
+        state.error = null;
+      })
+      .addCase(saveGame.fulfilled, (state, action) => {
+        state.isSaving = false;
+        state.slots = [action.payload, ...state.slots.filter(s => s.slotId !== action.payload.slotId)];
+      })
+      .addCase(saveGame.rejected, (state, action) => {
+        state.isSaving = false;
+        state.error = action.payload || 'The game could not be saved.';
+      })
+      .addCase(fetchQuarantinedSaves.fulfilled, (state, action) => {
+        state.quarantinedSaves = action.payload;
+      })
+      .addCase(deleteQuarantinedSave.fulfilled, (state, action) => {
+        state.quarantinedSaves = state.quarantinedSaves.filter(s => s.metadata.slotId !== action.payload);
+      })
+      .addCase(loadGame.pending, (state) => {
+        state.error = null;
+      })
+      .addCase(loadGame.rejected, (state, action) => {
+        state.error = action.payload || 'The save could not be loaded.';
+      })
+      .addCase(exportGame.pending, (state) => {
+        state.error = null;
+      })
+      .addCase(exportGame.rejected, (state, action) => {
+        state.error = action.payload || 'The investigation could not be exported.';
+      })
+      .addCase(importGame.pending, (state) => {
+        state.error = null;
+      })
+      .addCase(importGame.rejected, (state, action) => {
+        state.error = action.payload || 'The file could not be imported.';
+      })
+      .addCase(deleteSave.fulfilled, (state, action) => {
+        state.slots = state.slots.filter(s => s.slotId !== action.payload);
+      });
+  },
+});
+
+// --- Selectors ---
+export const selectSaveSlots = (state: RootState) => state.save.slots;
+export const selectIsSaving = (state: RootState) => state.save.isSaving;
+export const selectSaveError = (state: RootState) => state.save.error;
+export const selectQuarantinedSaves = (state: RootState) => state.save.quarantinedSaves;
+
+export default saveSlice.reducer;
@@ -0,0 +1,47 @@
+/**
+ * @file store/storyActions.ts
+ * @description Cross-slice actions and thunks for switching between cases.
+ *
+ * @architectural_decision
+ * `loadStory` lives in its own module rather than inside a slice because every slice responds to it:
+ * `story` and `caseFile` rebuild themselves from the new pack, while `ui` and `ada` reset to a fresh
+ * session. Keeping it here avoids circular imports between the slices that handle it.
+ */
+
+import { createAction, createAsyncThunk } from '@reduxjs/toolkit';
+import { StoryPack, DifficultyId } from '../types';
+import { getStoryPack } from '../data/storyRegistry';
+import { validateStoryPack, logStoryValidationReport } from '../services/storyValidator';
+import { DEFAULT_DIFFICULTY } from '../config';
+import { AppDispatch, RootState } from './index';
+
+/**
+ * Replaces the active case with the given story pack. Each slice handles this action in its
+ * `extraReducers` and rebuilds its state for the new case. The `meta.loadedAt` timestamp starts
+ * the play-time clock for the new investigation, and `meta.difficultyId` is the preset it is played on.
+ */
+export const loadStory = createAction('story/loadStory', (pack: StoryPack, difficultyId: DifficultyId = DEFAULT_DIFFICULTY) => ({
+  payload: pack,
+  meta: { loadedAt: Date.now(), difficultyId },
+}));
+
+/**
+ * Looks up a case in the registry and loads it on the given difficulty. Re-selecting the case that is
+ * already active on the same difficulty is a no-op, so the player's progress is not wiped by accident.
+ * The pack is validated before loading; problems are logged for the author but do not block the load.
+ */
+export const selectStory = createAsyncThunk<void, { storyId: string; difficultyId: DifficultyId }, { dispatch: AppDispatch, state: RootState }>(
+  'story/selectStory',
+  async ({ storyId, difficultyId }, { dispatch, getState }) => {
+    const { story } = getState();
+    if (story.storyId === storyId && story.difficultyId === difficultyId) return;
+
+    const pack = getStoryPack(storyId);
+    if (!pack) {
+      console.warn(`No story registered with ID: ${storyId}`);
+      return;
+    }
+    logStoryValidationReport(validateStoryPack(pack));
+    dispatch(loadStory(pack, difficultyId));
+  }
+);
@@ -3,18 +3,28 @@
  * @description This Redux slice manages the core data of the story.
  * It uses Redux Toolkit's `createEntityAdapter` to maintain a normalized state
  * for all primary data types (characters, objects, etc.), which is efficient for data lookups and updates.
- * It also includes a robust, high-performance, concurrent batching system for image generation
- * to prevent API rate limiting while maximizing speed.
+ * It also includes a priority-aware, cancellable image generation queue that runs a sliding window of
+ * concurrent requests, to prevent API rate limiting while keeping the images the player is looking at fast.
+ * Images are loaded lazily: a request is served from the IndexedDB cache when possible, and object URLs only
+ * exist for images that are on screen (or were until recently).
  */
 
 import { createSlice, PayloadAction, createSelector, createAsyncThunk, createEntityAdapter } from '@reduxjs/toolkit';
-import { storyData } from '../data/hayesValleyStory';
-import { Character, StoryObject, Evidence, CardType, Location, Testimony, StoryInfo, StoryData, EvidenceGroup, CanonicalTimeline, EvidenceStack, Bounty, DialogueChunkData } from '../types';
+import { defaultStoryPack, getStoryPack } from '../data/storyRegistry';
+import { Character, StoryObject, Evidence, CardType, Location, Testimony, StoryInfo, EvidenceGroup, CanonicalTimeline, EvidenceStack, Bounty, DialogueChunkData, StoryPack, IntroSlide, ImagePriority, ImageFailure, TokenChange, TokenLedgerEntry, TokenReason, DifficultyId, DifficultyRules } from '../types';
 import { RootState, AppDispatch } from './index';
 import { generateImage as generateImageAPI } from '../services/geminiService';
 import { dbService, b64toBlob } from '../services/dbService';
-import { GAME_MECHANICS, API_CONFIG } from '../config';
+import { getImageCacheKey } from '../services/imageCacheKeys';
+import { classifyImageFailure, recordImageFailure } from '../services/imageFailures';
+import { getBountyAvailability } from '../services/bountyEngine';
+import { analyzeEconomy } from '../services/economyAnalyzer';
+import { findReachableIds } from '../services/storyValidator';
+import { resolveDifficultyRules, getUnlockCost } from '../services/difficultyService';
+import { API_CONFIG, IMAGE_CACHE_CONFIG, ECONOMY_CONFIG, DEFAULT_DIFFICULTY } from '../config';
 import { showModal, checkMilestoneProgress, addNewlyAddedEvidenceId } from './uiSlice';
+import { loadStory } from './storyActions';
+import { restoreGame } from './saveActions';
 
 
 // --- Image Generation Queue System ---
@@ -24,36 +34,129 @@ interface ImageGenerationRequest {
   cardId: string;
   prompt: string;
   colorTreatment: 'monochrome' | 'selectiveColor' | 'map';
+  /** How urgently the requester needs the image. Defaults to `thumbnail`. */
+  priority?: ImagePriority;
 }
 
+/** A queued request, with the story it belongs to and the cache key its result will be stored under. */
+interface QueuedImageRequest extends Omit<ImageGenerationRequest, 'priority'> {
+  storyId: string;
+  cacheKey: string;
+  /**
+   * How many mounted components are waiting for this image, per priority. The request's effective priority
+   * is the highest one with a waiting component, and it is cancelled once nobody is waiting.
+   */
+  requesters: Partial<Record<ImagePriority, number>>;
+}
+
+/** The rank of each priority; a higher rank is generated first. */
+const IMAGE_PRIORITY_RANK: Record<ImagePriority, number> = {
+  visible: 3,
+  modal: 2,
+  thumbnail: 1,
+  prefetch: 0,
+};
+
+/**
+ * Returns the effective priority rank of a queued request: the highest rank that still has a requester.
+ */
+const getRequestRank = (request: QueuedImageRequest): number =>
+  Math.max(-1, ...(Object.keys(request.requesters) as ImagePriority[])
+    .filter(priority => (request.requesters[priority] ?? 0) > 0)
+    .map(priority => IMAGE_PRIORITY_RANK[priority]));
+
+/**
+ * Picks the next request to generate: the highest effective priority, oldest first within a priority.
+ * @param {QueuedImageRequest[]} queue - The current queue.
+ * @returns {QueuedImageRequest | undefined} The request to start next, if any.
+ */
+const selectNextImageRequest = (queue: QueuedImageRequest[]): QueuedImageRequest | undefined =>
+  queue.reduce<QueuedImageRequest | undefined>(
+    (best, request) => (!best || getRequestRank(request) > getRequestRank(best) ? request : best),
+    undefined
+  );
+
+// --- Object URL Lifecycle ---
+
+// How many mounted components are showing each image, and the pending release timers of images nobody is
+// showing. These live outside the store because they track side effects (object URLs), not game state.
+const imageUrlRetainCounts = new Map<string, number>();
+const pendingUrlReleases = new Map<string, ReturnType<typeof setTimeout>>();
+
+/** The cache keys of the images currently on screen. These are never evicted from IndexedDB. */
+const getRetainedImageKeys = (): string[] => [...imageUrlRetainCounts.keys()];
+
+/**
+ * Revokes an image's object URL after `URL_RELEASE_DELAY`, unless a component starts showing it again first.
+ */
+const scheduleImageUrlRelease = (cacheKey: string, dispatch: AppDispatch, getState: () => RootState): void => {
+  if (imageUrlRetainCounts.has(cacheKey) || pendingUrlReleases.has(cacheKey)) return;
+  pendingUrlReleases.set(cacheKey, setTimeout(() => {
+    pendingUrlReleases.delete(cacheKey);
+    const url = getState().story.imageUrls[cacheKey];
+    if (url && !imageUrlRetainCounts.has(cacheKey)) {
+      URL.revokeObjectURL(url);
+      dispatch(storySlice.actions.removeImageUrl(cacheKey));
+    }
+  }, IMAGE_CACHE_CONFIG.URL_RELEASE_DELAY));
+};
+
+/**
+ * Registers a component that shows an image, keeping its object URL alive. Each call must be paired
+ * with `releaseImageUrl`.
+ */
+export const retainImageUrl = createAsyncThunk<void, string, { dispatch: AppDispatch, state: RootState }>(
+  'story/retainImageUrl',
+  async (cacheKey) => {
+    imageUrlRetainCounts.set(cacheKey, (imageUrlRetainCounts.get(cacheKey) ?? 0) + 1);
+    const pending = pendingUrlReleases.get(cacheKey);
+    if (pending) {
+      clearTimeout(pending);
+      pendingUrlReleases.delete(cacheKey);
+    }
+  }
+);
+
 /**
- * An async thunk to hydrate the image URL cache from IndexedDB on app startup.
- * This loads previously generated images without needing to call the API again.
+ * Unregisters a component that showed an image. Once no component shows it, its object URL is revoked
+ * after a short delay; the image stays in IndexedDB and is read back if it is needed again.
+ */
+export const releaseImageUrl = createAsyncThunk<void, string, { dispatch: AppDispatch, state: RootState }>(
+  'story/releaseImageUrl',
+  async (cacheKey, { dispatch, getState }) => {
+    const count = (imageUrlRetainCounts.get(cacheKey) ?? 0) - 1;
+    if (count > 0) {
+      imageUrlRetainCounts.set(cacheKey, count);
+      return;
+    }
+    imageUrlRetainCounts.delete(cacheKey);
+    scheduleImageUrlRelease(cacheKey, dispatch, getState);
+  }
+);
+
+/**
+ * An async thunk to hydrate the image cache index from IndexedDB on app startup.
+ * Images themselves are loaded lazily, when a card asks for them. On startup, only the recorded
+ * failures are loaded, so their retry schedule carries over from the last session, and the cache is
+ * trimmed to its storage budget in case the budget or the browser's quota has shrunk.
  */
 export const hydrateImageCache = createAsyncThunk(
   'story/hydrateImageCache',
   async (_, { dispatch, getState }) => {
     try {
-      const cachedImages = await dbService.getAllImages();
-      const urls: { [id: string]: string } = {};
-      const existingUrls = (getState() as RootState).story.imageUrls;
-
-      for (const item of cachedImages) {
-        // --- CRITICAL FIX: Idempotent Hydration ---
-        // This check prevents a race condition where a pre-existing image URL
-        // from the initial state could be overwritten by a new one from IndexedDB,
-        // causing a visual "blink". If a URL for this ID already exists in the
-        // state, we do not create a new Object URL for it.
-        if (existingUrls[item.id]) {
-          continue;
+      const failures: { [id: string]: ImageFailure } = {};
+      const { imageUrls, imageErrors } = (getState() as RootState).story;
+      for (const { id, failure } of await dbService.getAllImageFailures()) {
+        // An image generated (or a failure recorded) during this session is more current than the database.
+        if (!imageUrls[id] && !imageErrors[id]) {
+          failures[id] = failure;
         }
-        // Create a temporary, memory-efficient URL for the stored Blob.
-        urls[item.id] = URL.createObjectURL(item.blob);
       }
-      
-      if (Object.keys(urls).length > 0) {
-        dispatch(storySlice.actions.setImageUrls(urls));
+      if (Object.keys(failures).length > 0) {
+        dispatch(storySlice.actions.setImageErrors(failures));
       }
+
+      await dbService.evictToBudget(getRetainedImageKeys());
     } catch (error) {
       console.error("Failed to hydrate image cache from IndexedDB:", error);
     }
@@ -73,14 +176,18 @@ export const createEvidenceFromTestimony = createAsyncThunk<
     { dispatch: AppDispatch, state: RootState } // ThunkAPI types
 >(
     'story/createEvidenceFromTestimony',
-    (args, { dispatch }) => {
+    (args, { dispatch, getState }) => {
         const { chunk, character } = args;
+        const newEvidenceId = `obj-testimony-${chunk.id}`;
+
+        // A chunk is only logged once; logging it again must not charge for evidence that already exists.
+        const existing = getState().story.objects.entities[newEvidenceId];
+        if (existing) return existing;
 
         // 1. Deduct the token cost for creating the evidence.
-        dispatch(deductTokens(GAME_MECHANICS.CREATE_TESTIMONY_EVIDENCE_COST));
+        dispatch(deductTokens({ amount: getState().story.rules.testimonyEvidenceCost, reason: 'testimony', entityId: newEvidenceId }));
 
         // 2. Create the new evidence object from the testimony chunk.
-        const newEvidenceId = `obj-testimony-${chunk.id}`;
         const newEvidenceObject: StoryObject = {
             id: newEvidenceId,
             name: `Testimony: "${chunk.text.substring(0, 40)}..."`,
@@ -116,6 +223,8 @@ const evidenceGroupsAdapter = createEntityAdapter<EvidenceGroup>();
 const bountiesAdapter = createEntityAdapter<Bounty>();
 
 interface StoryState {
+  /** The registry ID of the active case. */
+  storyId: string;
   title: string;
   storyInfo: StoryInfo;
   characters: ReturnType<typeof charactersAdapter.getInitialState>;
@@ -127,88 +236,138 @@ interface StoryState {
   testimonies: Testimony[];
   canonicalTimeline: CanonicalTimeline | null;
   evidenceStacks: EvidenceStack[] | null;
-  imageUrls: { [id: string]: string };
-  imageLoading: { [id: string]: boolean };
-  imageErrors: { [id: string]: boolean };
-  imageGenerationQueue: ImageGenerationRequest[];
+  introSlides: IntroSlide[];
+  // The image maps are keyed by image cache key (see `getImageCacheKey`), not by card ID.
+  imageUrls: { [cacheKey: string]: string };
+  imageLoading: { [cacheKey: string]: boolean };
+  imageErrors: { [cacheKey: string]: ImageFailure };
+  imageGenerationQueue: QueuedImageRequest[];
   isProcessingQueue: boolean;
-  hasDiscoveredPaint: boolean; // Tracks if the player has found the key evidence
+  /** The IDs of the story triggers that have fired. */
+  firedTriggerIds: string[];
+  /** Locations and characters made available by story triggers. */
+  unlockedLocationIds: string[];
+  revealedCharacterIds: string[];
   playerTokens: number; // The player's currency for unlocking evidence.
-  // Configuration for game mechanics. Centralized here for easy balancing.
-  milestoneThreshold: number; 
-  accusationThreshold: number;
+  /** Every change to `playerTokens`, oldest first. */
+  tokenLedger: TokenLedgerEntry[];
+  /** When each bounty was last solved, keyed by bounty ID. */
+  bountyCompletions: { [bountyId: string]: number };
+  /** The difficulty preset the case is played on, and the rules resolved from it when the case was loaded. */
+  difficultyId: DifficultyId;
+  rules: DifficultyRules;
   totalDiscoverableEvidence: number;
   /** A cache for AI-generated hotspot coordinates to prevent re-analysis. */
   dynamicHotspotCoords: { [locationId: string]: { [hotspotId: string]: { x: number; y: number } } };
 }
 
 /**
- * An async thunk that processes the image generation queue in concurrent batches.
- * This is a high-performance, balanced approach to image loading. It processes up to
- * a set limit of images in parallel, waits for the batch to complete, then moves to the next.
- * This is significantly faster than a one-by-one queue but still respectful of API rate limits.
+ * Records a failed generation in memory and in IndexedDB, scheduling the next automatic retry.
+ */
+const markImageFailed = (request: QueuedImageRequest, error: unknown, dispatch: AppDispatch, getState: () => RootState): void => {
+    const previous = getState().story.imageErrors[request.cacheKey];
+    const failure = recordImageFailure(classifyImageFailure(error), previous, Date.now());
+    dispatch(storySlice.actions.setImageError({ cacheKey: request.cacheKey, error: failure }));
+    dbService.saveImageFailure(request.cacheKey, failure);
+};
+
+/**
+ * Makes an image Blob available to the UI as an object URL. If no component is showing the image any
+ * more (e.g. the card was closed while it generated), the URL is scheduled for release straight away.
  */
-export const processImageGenerationQueue = createAsyncThunk(
+const publishImageUrl = (cacheKey: string, blob: Blob, dispatch: AppDispatch, getState: () => RootState): void => {
+    dispatch(storySlice.actions.setImageUrl({ cacheKey, imageUrl: URL.createObjectURL(blob) }));
+    scheduleImageUrlRelease(cacheKey, dispatch, getState);
+};
+
+/**
+ * Loads a single queued image, from the IndexedDB cache if it is there and from the API otherwise, and
+ * stores the result (or the failure) in the cache.
+ */
+const generateQueuedImage = async (request: QueuedImageRequest, dispatch: AppDispatch, getState: () => RootState): Promise<void> => {
+    dispatch(storySlice.actions.setImageLoading({ cacheKey: request.cacheKey, isLoading: true }));
+    try {
+        const cachedBlob = await dbService.getImage(request.cacheKey);
+        if (cachedBlob) {
+            publishImageUrl(request.cacheKey, cachedBlob, dispatch, getState);
+            return;
+        }
+
+        const imageResult = await generateImageAPI(request.prompt, request.colorTreatment);
+        if (imageResult) {
+            const blob = b64toBlob(imageResult.bytes, imageResult.mimeType);
+            await dbService.saveImage(request.cacheKey, blob, request.storyId, getRetainedImageKeys());
+            publishImageUrl(request.cacheKey, blob, dispatch, getState);
+            if (getState().story.imageErrors[request.cacheKey]) {
+                dispatch(storySlice.actions.setImageError({ cacheKey: request.cacheKey, error: null }));
+                dbService.deleteImageFailure(request.cacheKey);
+            }
+        } else {
+            // **Critical Robustness Improvement**
+            // If image generation fails after retries, we mark it as having an error.
+            // This is essential for preventing preloading screens (like the intro slideshow) from getting stuck indefinitely.
+            markImageFailed(request, undefined, dispatch, getState);
+        }
+    } catch (error) {
+        console.error(`Image generation for ${request.cardId} failed in queue:`, error);
+        // On catastrophic error, also mark it as an error to ensure UI can proceed.
+        markImageFailed(request, error, dispatch, getState);
+    } finally {
+        dispatch(storySlice.actions.setImageLoading({ cacheKey: request.cacheKey, isLoading: false }));
+    }
+};
+
+// Refills the running processor's concurrency window. Set while `processImageGenerationQueue` is running,
+// so that a request queued mid-run can start immediately if a slot is free.
+let fillQueueWindow: (() => void) | null = null;
+
+/**
+ * An async thunk that processes the image generation queue with a sliding concurrency window.
+ * Up to `CONCURRENT_REQUEST_LIMIT` requests run at once, and as soon as any of them finishes the
+ * highest-priority waiting request takes its slot. Because the next request is picked at the moment a
+ * slot frees up, a card the player has just opened overtakes thumbnails that were queued before it.
+ */
+export const processImageGenerationQueue = createAsyncThunk<void, void, { dispatch: AppDispatch, state: RootState }>(
   'story/processQueue',
   async (_, { getState, dispatch }) => {
-    const state = getState() as RootState;
-
-    // Guard: if another orchestrator is already running, or the queue is empty, exit.
-    if (state.story.isProcessingQueue || state.story.imageGenerationQueue.length === 0) {
+    // Guard: if the processor is already running, give it a chance to start any newly queued request.
+    if (getState().story.isProcessingQueue) {
+      fillQueueWindow?.();
       return;
     }
+    if (getState().story.imageGenerationQueue.length === 0) return;
 
     dispatch(storySlice.actions.setIsProcessingQueue(true));
 
-    // This determines how many images can be generated in parallel.
-    // This value is now imported from the central config file for easier maintenance.
-    const CONCURRENT_REQUEST_LIMIT = API_CONFIG.CONCURRENT_REQUEST_LIMIT; 
-    
-    // Process batches until the queue is empty.
-    while ((getState() as RootState).story.imageGenerationQueue.length > 0) {
-        const currentQueue = (getState() as RootState).story.imageGenerationQueue;
-        const batch = currentQueue.slice(0, CONCURRENT_REQUEST_LIMIT);
-
-        // Remove the batch from the main queue immediately to prevent reprocessing in case of re-entry.
-        dispatch(storySlice.actions.dequeueImageRequests(batch.length));
-
-        const promises = batch.map(async (request) => {
-            dispatch(storySlice.actions.setImageLoading({ cardId: request.cardId, isLoading: true }));
-            try {
-                const imageResult = await generateImageAPI(request.prompt, request.colorTreatment);
-                if (imageResult) {
-                    const blob = b64toBlob(imageResult.bytes, imageResult.mimeType);
-                    await dbService.saveImage(request.cardId, blob);
-                    const objectURL = URL.createObjectURL(blob);
-                    dispatch(storySlice.actions.setImageUrl({ cardId: request.cardId, imageUrl: objectURL }));
-                } else {
-                    // **Critical Robustness Improvement**
-                    // If image generation fails after retries, we mark it as having an error.
-                    // This is essential for preventing preloading screens (like the intro slideshow) from getting stuck indefinitely.
-                    dispatch(storySlice.actions.setImageError({ cardId: request.cardId, hasError: true }));
-                }
-            } catch (error) {
-                console.error(`Image generation for ${request.cardId} failed in queue:`, error);
-                // On catastrophic error, also mark it as an error to ensure UI can proceed.
-                dispatch(storySlice.actions.setImageError({ cardId: request.cardId, hasError: true }));
-            } finally {
-                dispatch(storySlice.actions.setImageLoading({ cardId: request.cardId, isLoading: false }));
-            }
-        });
-
-        // Wait for the current batch of parallel requests to finish before starting the next one.
-        await Promise.allSettled(promises);
-        
-        // A small delay between batches is a good practice to avoid overwhelming the API.
-        await new Promise(resolve => setTimeout(resolve, API_CONFIG.IMAGE_QUEUE_BATCH_DELAY)); 
-    }
+    await new Promise<void>(resolve => {
+      let inFlight = 0;
+      const fillWindow = () => {
+        while (inFlight < API_CONFIG.CONCURRENT_REQUEST_LIMIT) {
+          const next = selectNextImageRequest(getState().story.imageGenerationQueue);
+          if (!next) break;
+          // Remove the request from the queue before starting it, so it can't be picked twice.
+          dispatch(storySlice.actions.dequeueImageRequest(next.cacheKey));
+          inFlight++;
+          generateQueuedImage(next, dispatch, getState).finally(() => {
+            inFlight--;
+            fillWindow();
+          });
+        }
+        if (inFlight === 0) resolve();
+      };
+      fillQueueWindow = fillWindow;
+      fillWindow();
+    });
 
+    fillQueueWindow = null;
     dispatch(storySlice.actions.setIsProcessingQueue(false));
   }
 );
 
 
-const createInitialState = (data: StoryData): StoryState => {
+const createInitialState = (pack: StoryPack, difficultyId: DifficultyId): StoryState => {
+  const rules = resolveDifficultyRules(pack, difficultyId);
+  const data = pack.story;
   const victim = data.characters.find(c => c.role === 'victim');
   const crimeScene = data.storyInfo.crimeSceneId ? data.locations.find(l => l.id === data.storyInfo.crimeSceneId) : undefined;
   const initialEvidence: Evidence[] = [];
@@ -227,6 +386,7 @@ const createInitialState = (data: StoryData): StoryState => {
   }
 
   const baseInitialState: StoryState = {
+    storyId: pack.id,
     title: data.title,
     storyInfo: data.storyInfo,
     characters: charactersAdapter.setAll(charactersAdapter.getInitialState(), data.characters),
@@ -238,16 +398,20 @@ const createInitialState = (data: StoryData): StoryState => {
     testimonies: data.testimonies,
     canonicalTimeline: data.canonicalTimeline || null,
     evidenceStacks: data.evidenceStacks || null,
+    introSlides: pack.introSlides,
     imageUrls: {}, // Start with empty URLs, will be hydrated from IndexedDB by a thunk
     imageLoading: {},
     imageErrors: {},
     imageGenerationQueue: [],
     isProcessingQueue: false,
-    hasDiscoveredPaint: false,
-    playerTokens: GAME_MECHANICS.INITIAL_PLAYER_TOKENS,
-    // Centralized game configuration for easier balancing.
-    milestoneThreshold: GAME_MECHANICS.MILESTONE_THRESHOLD, 
-    accusationThreshold: GAME_MECHANICS.ACCUSATION_THRESHOLD,
+    firedTriggerIds: [],
+    unlockedLocationIds: [],
+    revealedCharacterIds: [],
+    playerTokens: rules.startingTokens,
+    tokenLedger: [],
+    bountyCompletions: {},
+    difficultyId,
+    rules,
     // --- Developer Note on `totalDiscoverableEvidence` ---
     // This calculates the "denominator" for the case progress bar. It's the total number of
     // objects that are considered discoverable evidence by the player.
@@ -261,7 +425,29 @@ const createInitialState = (data: StoryData): StoryState => {
   return baseInitialState;
 };
 
-const initialState: StoryState = createInitialState(storyData);
+const initialState: StoryState = createInitialState(defaultStoryPack, DEFAULT_DIFFICULTY);
+
+/**
+ * Changes the player's balance and records the change in the ledger. The balance never goes below
+ * zero, so the entry holds the amount actually applied. Changes that apply nothing are not recorded.
+ */
+const applyTokenChange = (state: StoryState, change: TokenChange, timestamp: number) => {
+  const previous = state.playerTokens;
+  state.playerTokens = Math.max(0, previous + change.amount);
+  const applied = state.playerTokens - previous;
+  if (applied === 0) return;
+  state.tokenLedger.push({
+    id: `tx-${state.tokenLedger.length + 1}`,
+    amount: applied,
+    reason: change.reason,
+    entityId: change.entityId ?? null,
+    timestamp,
+    balance: state.playerTokens,
+  });
+};
+
+/** Stamps token actions with the time of the change, so the reducers stay pure. */
+const prepareTokenChange = (change: TokenChange) => ({ payload: change, meta: { timestamp: Date.now() } });
 
 const storySlice = createSlice({
   name: 'story',
@@ -274,55 +460,58 @@ const storySlice = createSlice({
           charactersAdapter.updateOne(state.characters, { id, changes: { isSuspect } });
       }
     },
-    addToTimeline(state, action: PayloadAction<string>) {
-      const id = action.payload;
-      const item = state.objects.entities[id];
-      if (!item || item.isEvidence) return; // Exit if no item or already evidence
-
-      // --- ECONOMY LOGIC REFACTOR ---
-      // This logic now correctly handles one-time costs for unlocking evidence.
+    addToTimeline: {
+      reducer(state, action: PayloadAction<string, string, { timestamp: number }>) {
+        const id = action.payload;
+        const item = state.objects.entities[id];
+        if (!item || item.isEvidence) return; // Exit if no item or already evidence
+
+        // --- ECONOMY LOGIC REFACTOR ---
+        // This logic now correctly handles one-time costs for unlocking evidence.
       
-      // Case 1: The item has NEVER been unlocked before. This is its first time on the timeline.
-      if (!item.hasBeenUnlocked) {
-        const cost = item.costToUnlock ?? 0;
+        // Case 1: The item has NEVER been unlocked before. This is its first time on the timeline.
+        if (!item.hasBeenUnlocked) {
+          const cost = getUnlockCost(item, state.rules);
         
-        // Safeguard: Check if the player can afford to unlock the item.
-        if (state.playerTokens < cost) {
-            console.warn(`Player cannot afford to unlock ${item.name}. Needs ${cost}, has ${state.playerTokens}.`);
-            return; // Abort if player cannot afford.
-        }
-
-        // Deduct cost and mark as unlocked permanently.
-        state.playerTokens -= cost;
-        objectsAdapter.updateOne(state.objects, { 
-          id, 
-          changes: { 
-            isEvidence: true, 
-            hasBeenUnlocked: true // This is the key change to prevent repeat charges.
-          } 
-        });
+          // Safeguard: Check if the player can afford to unlock the item.
+          if (state.playerTokens < cost) {
+              console.warn(`Player cannot afford to unlock ${item.name}. Needs ${cost}, has ${state.playerTokens}.`);
+              return; // Abort if player cannot afford.
+          }
 
-      // Case 2: The item HAS been unlocked before but was removed. Re-adding it is free.
-      } else {
-          objectsAdapter.updateOne(state.objects, { id, changes: { isEvidence: true } });
-      }
+          // Deduct cost and mark as unlocked permanently.
+          applyTokenChange(state, { amount: -cost, reason: 'unlock', entityId: id }, action.meta.timestamp);
+          objectsAdapter.updateOne(state.objects, { 
+            id, 
+            changes: { 
+              isEvidence: true, 
+              hasBeenUnlocked: true // This is the key change to prevent repeat charges.
+            } 
+          });
+
+        // Case 2: The item HAS been unlocked before but was removed. Re-adding it is free.
+        } else {
+            objectsAdapter.updateOne(state.objects, { id, changes: { isEvidence: true } });
+        }
 
-      // Add to the evidence array (this runs for both new unlocks and re-adds).
-      // It's safe because the initial guard checks `item.isEvidence`.
-      if (!state.evidence.some(e => e.cardId === id)) {
-          const location = state.locations.entities[item.locationFoundId] || Object.values(state.locations.entities)[0];
-          if (location) {
-              state.evidence.push({
-                  id: `ev-${id}`,
-                  cardId: item.id,
-                  cardType: 'object',
-                  name: item.name,
-                  imagePrompt: item.imagePrompt,
-                  timestampCollected: item.timestamp,
-                  locationId: location.id,
-              });
-          }
-      }
+        // Add to the evidence array (this runs for both new unlocks and re-adds).
+        // It's safe because the initial guard checks `item.isEvidence`.
+        if (!state.evidence.some(e => e.cardId === id)) {
+            const location = state.locations.entities[item.locationFoundId] || Object.values(state.locations.entities)[0];
+            if (location) {
+                state.evidence.push({
+                    id: `ev-${id}`,
+                    cardId: item.id,
+                    cardType: 'object',
+                    name: item.name,
+                    imagePrompt: item.imagePrompt,
+                    timestampCollected: item.timestamp,
+                    locationId: location.id,
+                });
+            }
+        }
+      },
+      prepare: (id: string) => ({ payload: id, meta: { timestamp: Date.now() } }),
     },
     removeFromTimeline(state, action: PayloadAction<string>) {
       const id = action.payload;
@@ -350,54 +539,132 @@ const storySlice = createSlice({
           objectsAdapter.updateOne(state.objects, { id: objectId, changes: { assignedToSuspectIds: assignedIds } });
       }
     },
+    /**
+     * Registers a component's need for an image. Each call must be paired with `releaseImageRequest`
+     * when the component no longer needs it (e.g. on unmount).
+     */
     queueImageGeneration(state, action: PayloadAction<ImageGenerationRequest>) {
-        const { cardId } = action.payload;
-        const isInQueue = state.imageGenerationQueue.some(req => req.cardId === cardId);
-        const isAlreadyLoaded = !!state.imageUrls[cardId];
-        const isLoading = !!state.imageLoading[cardId];
-
-        // Add to queue only if it's not already loaded, loading, or in the queue.
-        if (!isInQueue && !isAlreadyLoaded && !isLoading) {
-            state.imageGenerationQueue.push(action.payload);
+        const { priority = 'thumbnail', ...request } = action.payload;
+        const cacheKey = getImageCacheKey(state.storyId, request.cardId, request.colorTreatment, request.prompt);
+        const queued = state.imageGenerationQueue.find(req => req.cacheKey === cacheKey);
+
+        // If the variant is already queued, record the new requester. This can raise its priority.
+        if (queued) {
+            queued.requesters[priority] = (queued.requesters[priority] ?? 0) + 1;
+            return;
+        }
+
+        // Otherwise add it to the queue, unless it is already loaded or being generated.
+        if (!state.imageUrls[cacheKey] && !state.imageLoading[cacheKey]) {
+            state.imageGenerationQueue.push({ ...request, storyId: state.storyId, cacheKey, requesters: { [priority]: 1 } });
+        }
+    },
+    /**
+     * Withdraws a component's need for an image. A queued request that nobody is waiting for any more
+     * is cancelled; a request that is already being generated runs to completion and is cached.
+     */
+    releaseImageRequest(state, action: PayloadAction<{ cacheKey: string; priority?: ImagePriority }>) {
+        const { cacheKey, priority = 'thumbnail' } = action.payload;
+        const index = state.imageGenerationQueue.findIndex(req => req.cacheKey === cacheKey);
+        if (index === -1) return;
+
+        const queued = state.imageGenerationQueue[index];
+        queued.requesters[priority] = Math.max(0, (queued.requesters[priority] ?? 0) - 1);
+        if (getRequestRank(queued) === -1) {
+            state.imageGenerationQueue.splice(index, 1);
         }
     },
-    dequeueImageRequests(state, action: PayloadAction<number>) {
-        state.imageGenerationQueue.splice(0, action.payload);
+    dequeueImageRequest(state, action: PayloadAction<string>) {
+        state.imageGenerationQueue = state.imageGenerationQueue.filter(req => req.cacheKey !== action.payload);
     },
     setIsProcessingQueue(state, action: PayloadAction<boolean>) {
         state.isProcessingQueue = action.payload;
     },
-    setImageLoading(state, action: PayloadAction<{ cardId: string; isLoading: boolean }>) {
-        state.imageLoading[action.payload.cardId] = action.payload.isLoading;
+    setImageLoading(state, action: PayloadAction<{ cacheKey: string; isLoading: boolean }>) {
+        state.imageLoading[action.payload.cacheKey] = action.payload.isLoading;
     },
-    setImageUrl(state, action: PayloadAction<{ cardId: string; imageUrl: string }>) {
-        state.imageUrls[action.payload.cardId] = action.payload.imageUrl;
+    setImageUrl(state, action: PayloadAction<{ cacheKey: string; imageUrl: string }>) {
+        state.imageUrls[action.payload.cacheKey] = action.payload.imageUrl;
     },
-    setImageUrls(state, action: PayloadAction<{ [id: string]: string }>) {
-        state.imageUrls = { ...state.imageUrls, ...action.payload };
+    /** Forgets an image's object URL. The caller is responsible for revoking it. */
+    removeImageUrl(state, action: PayloadAction<string>) {
+        delete state.imageUrls[action.payload];
     },
-    setImageError(state, action: PayloadAction<{ cardId: string; hasError: boolean }>) {
-        state.imageErrors[action.payload.cardId] = action.payload.hasError;
+    /** Records a failed generation, or clears it when `error` is null. */
+    setImageError(state, action: PayloadAction<{ cacheKey: string; error: ImageFailure | null }>) {
+        const { cacheKey, error } = action.payload;
+        if (error) {
+            state.imageErrors[cacheKey] = error;
+        } else {
+            delete state.imageErrors[cacheKey];
+        }
     },
-    setHasDiscoveredPaint(state, action: PayloadAction<boolean>) {
-        state.hasDiscoveredPaint = action.payload;
+    setImageErrors(state, action: PayloadAction<{ [cacheKey: string]: ImageFailure }>) {
+        state.imageErrors = { ...state.imageErrors, ...action.payload };
+    },
+    /**
+     * Makes a failed image due for a retry right away, e.g. when the player asks for one. The failure
+     * itself is kept, so the attempt count (and the backoff) continues if the retry also fails.
+     */
+    retryImageGeneration(state, action: PayloadAction<string>) {
+        const failure = state.imageErrors[action.payload];
+        if (failure) {
+            failure.nextRetryAt = 0;
+        }
+    },
+    /** Records that a story trigger has fired. See `store/triggerMiddleware.ts`. */
+    recordTriggerFired(state, action: PayloadAction<string>) {
+        if (!state.firedTriggerIds.includes(action.payload)) {
+            state.firedTriggerIds.push(action.payload);
+        }
+    },
+    unlockLocation(state, action: PayloadAction<string>) {
+        if (!state.unlockedLocationIds.includes(action.payload)) {
+            state.unlockedLocationIds.push(action.payload);
+        }
+    },
+    revealCharacter(state, action: PayloadAction<string>) {
+        if (!state.revealedCharacterIds.includes(action.payload)) {
+            state.revealedCharacterIds.push(action.payload);
+        }
     },
     addDynamicObject(state, action: PayloadAction<StoryObject>) {
         objectsAdapter.addOne(state.objects, action.payload);
     },
     /**
-     * A reusable reducer to deduct tokens from the player's balance.
-     * @param {number} action.payload The amount of tokens to deduct.
+     * A reusable reducer to deduct tokens from the player's balance. The deduction is recorded in the ledger.
+     * @param {TokenChange} action.payload The amount of tokens to deduct, why, and what for.
+     */
+    deductTokens: {
+        reducer(state, action: PayloadAction<TokenChange, string, { timestamp: number }>) {
+            applyTokenChange(state, { ...action.payload, amount: -action.payload.amount }, action.meta.timestamp);
+        },
+        prepare: prepareTokenChange,
+    },
+    /**
+     * A reusable reducer to add tokens to the player's balance. The income is recorded in the ledger.
+     * @param {TokenChange} action.payload The amount of tokens to add, why, and what for.
      */
-    deductTokens(state, action: PayloadAction<number>) {
-        state.playerTokens = Math.max(0, state.playerTokens - action.payload);
+    addTokens: {
+        reducer(state, action: PayloadAction<TokenChange, string, { timestamp: number }>) {
+            applyTokenChange(state, action.payload, action.meta.timestamp);
+        },
+        prepare: prepareTokenChange,
     },
     /**
-     * A reusable reducer to add tokens to the player's balance.
-     * @param {number} action.payload The amount of tokens to add.
+     * Pays a solved bounty's reward, unless it has been paid already or the bounty is still on cooldown.
+     * @param {string} action.payload The ID of the solved bounty.
      */
-    addTokens(state, action: PayloadAction<number>) {
-        state.playerTokens += action.payload;
+    completeBounty: {
+        reducer(state, action: PayloadAction<string, string, { timestamp: number }>) {
+            const bounty = state.bounties.entities[action.payload];
+            if (!bounty) return;
+            const { status } = getBountyAvailability(bounty, state.bountyCompletions[bounty.id], action.meta.timestamp);
+            if (status !== 'available') return;
+            state.bountyCompletions[bounty.id] = action.meta.timestamp;
+            applyTokenChange(state, { amount: bounty.reward, reason: 'bounty', entityId: bounty.id }, action.meta.timestamp);
+        },
+        prepare: (bountyId: string) => ({ payload: bountyId, meta: { timestamp: Date.now() } }),
     },
     /**
      * Caches the AI-generated coordinates for a location's hotspots.
@@ -408,6 +675,47 @@ const storySlice = createSlice({
         state.dynamicHotspotCoords[locationId] = coords;
     },
   },
+  extraReducers: (builder) => {
+    // Rebuild the story from the new pack. The image cache and the generation queue are shared
+    // across cases, so they are carried over rather than discarded.
+    builder.addCase(loadStory, (state, action) => ({
+      ...createInitialState(action.payload, action.meta.difficultyId),
+      imageUrls: state.imageUrls,
+      imageLoading: state.imageLoading,
+      imageErrors: state.imageErrors,
+      imageGenerationQueue: state.imageGenerationQueue,
+      isProcessingQueue: state.isProcessingQueue,
+    }));
+    // Restore a saved investigation. The story's authored content is rebuilt from its pack, so a save keeps
+    // up with the pack (e.g. new unlock conditions or bounty puzzles), and the saved progress is laid over
+    // it. `loadGame` and `importGame` only restore saves of registered packs. The image cache is not part
+    // of a save, so it is kept as-is.
+    builder.addCase(restoreGame, (state, action) => {
+      const { objectProgress, characterProgress, addedObjects, ...progress } = action.payload.state.story;
+      const pack = getStoryPack(progress.storyId);
+      if (!pack) return state;
+      const fresh = createInitialState(pack, progress.difficultyId);
+      const objects = objectsAdapter.addMany(
+        objectsAdapter.updateMany(fresh.objects, Object.entries(objectProgress).map(([id, changes]) => ({ id, changes }))),
+        addedObjects
+      );
+      const characters = charactersAdapter.updateMany(
+        fresh.characters,
+        Object.entries(characterProgress).map(([id, changes]) => ({ id, changes }))
+      );
+      return {
+        ...fresh,
+        ...progress,
+        objects,
+        characters,
+        imageUrls: state.imageUrls,
+        imageLoading: state.imageLoading,
+        imageErrors: state.imageErrors,
+        imageGenerationQueue: state.imageGenerationQueue,
+        isProcessingQueue: state.isProcessingQueue,
+      };
+    });
+  },
 });
 
 export const { 
@@ -416,20 +724,27 @@ export const {
     removeFromTimeline, 
     assignEvidenceToSuspect,
     queueImageGeneration,
-    dequeueImageRequests,
+    releaseImageRequest,
+    dequeueImageRequest,
     setIsProcessingQueue,
     setImageLoading,
     setImageUrl,
-    setImageUrls,
+    removeImageUrl,
     setImageError,
-    setHasDiscoveredPaint,
+    setImageErrors,
+    retryImageGeneration,
+    recordTriggerFired,
+    unlockLocation,
+    revealCharacter,
     addDynamicObject,
     deductTokens,
     addTokens,
+    completeBounty,
     setDynamicHotspotCoords,
 } = storySlice.actions;
 
 // --- Base Selectors ---
+export const selectStoryId = (state: RootState) => state.story.storyId;
 export const selectStoryTitle = (state: RootState) => state.story.title;
 export const selectStoryInfo = (state: RootState) => state.story.storyInfo;
 export const selectEvidence = (state: RootState) => state.story.evidence;
@@ -441,6 +756,14 @@ export const selectImageGenerationQueue = (state: RootState) => state.story.imag
 export const selectCanonicalTimeline = (state: RootState) => state.story.canonicalTimeline;
 export const selectEvidenceStacks = (state: RootState) => state.story.evidenceStacks;
 export const selectPlayerTokens = (state: RootState) => state.story.playerTokens;
+export const selectTokenLedger = (state: RootState) => state.story.tokenLedger;
+export const selectBountyCompletions = (state: RootState) => state.story.bountyCompletions;
+export const selectDifficultyId = (state: RootState) => state.story.difficultyId;
+/** The balancing rules of the active case. Read these rather than `config.ts` for anything the difficulty sets. */
+export const selectDifficultyRules = (state: RootState) => state.story.rules;
+export const selectIntroSlides = (state: RootState) => state.story.introSlides;
+export const selectUnlockedLocationIds = (state: RootState) => state.story.unlockedLocationIds;
+export const selectRevealedCharacterIds = (state: RootState) => state.story.revealedCharacterIds;
 export const selectDynamicHotspotsForLocation = (state: RootState, locationId: string) => state.story.dynamicHotspotCoords[locationId];
 
 
@@ -460,6 +783,7 @@ export const {
 export const {
   selectAll: selectAllLocations,
   selectById: selectLocationById,
+  selectEntities: selectLocationEntities,
 } = locationsAdapter.getSelectors((state: RootState) => state.story.locations);
 
 export const {
@@ -483,6 +807,51 @@ export const selectVisitedLocations = createSelector(
   (allLocations, visitedIds) => allLocations.filter(loc => visitedIds.includes(loc.id))
 );
 
+/**
+ * Totals the tokens spent per reason. Income is left out, so refunds and rewards do not hide what things cost.
+ */
+export const selectTokenSpendByReason = createSelector(
+  [selectTokenLedger],
+  (ledger) => ledger.reduce<Partial<Record<TokenReason, number>>>((totals, entry) => {
+    if (entry.amount < 0) totals[entry.reason] = (totals[entry.reason] ?? 0) - entry.amount;
+    return totals;
+  }, {})
+);
+
+/** The IDs of everything the player can navigate to in the active case. */
+export const selectReachableIds = createSelector(
+  [selectStoryId],
+  (storyId) => findReachableIds((getStoryPack(storyId) ?? defaultStoryPack).story)
+);
+
+/**
+ * Compares the balance with the cheapest path to an acceptable case (see `economyAnalyzer`).
+ */
+export const selectEconomyAnalysis = createSelector(
+  [selectReachableIds, selectObjectEntities, selectEvidence, selectPlayerTokens, selectCanonicalTimeline, selectBounties, selectBountyCompletions,
+    selectDifficultyRules],
+  (reachableIds, objects, evidence, playerTokens, canonicalTimeline, bounties, bountyCompletions, rules) => {
+    const keyEventIds = new Set((canonicalTimeline?.keyEvents || []).map(event => event.objectId));
+    // Social media posts are found through their author's card, not added as evidence on their own.
+    const candidates = Object.values(objects)
+      .filter(obj => obj && !obj.isEvidence && !obj.authorCharacterId && (reachableIds.has(obj.id) || obj.hasBeenUnlocked))
+      .map(obj => ({ id: obj!.id, cost: obj!.hasBeenUnlocked ? 0 : getUnlockCost(obj!, rules), isKeyEvent: keyEventIds.has(obj!.id) }));
+
+    return analyzeEconomy({
+      balance: playerTokens,
+      evidenceCount: evidence.length,
+      accusationThreshold: rules.accusationThreshold,
+      keyEventsCollected: evidence.filter(ev => keyEventIds.has(ev.cardId)).length,
+      minKeyEvents: ECONOMY_CONFIG.MIN_KEY_EVENTS,
+      candidates,
+      bountyIncome: bounties
+        .filter(bounty => bounty.puzzle && !bounty.isEmergency && !bounty.cooldownMinutes && bountyCompletions[bounty.id] === undefined)
+        .reduce((sum, bounty) => sum + bounty.reward, 0),
+      warningMargin: ECONOMY_CONFIG.WARNING_MARGIN,
+    });
+  }
+);
+
 export const selectAllEvidenceWithDetails = createSelector(
   [selectEvidence, selectObjectEntities, selectCharacterEntities],
   (evidence, objectEntities, characterEntities) => {
@@ -495,6 +864,17 @@ export const selectAllEvidenceWithDetails = createSelector(
   }
 );
 
+/**
+ * The objects the player has collected as evidence, in the order they were collected.
+ */
+export const selectCollectedObjects = createSelector(
+  [selectEvidence, selectObjectEntities],
+  (evidence, objectEntities) => evidence
+    .filter(ev => ev.cardType === 'object')
+    .map(ev => objectEntities[ev.cardId])
+    .filter(Boolean) as StoryObject[]
+);
+
 export const selectObjectsInGroup = createSelector(
     [selectObjectEntities, (state: RootState, groupId: string) => selectEvidenceGroupById(state, groupId)],
     (objects, group) => {
@@ -0,0 +1,130 @@
+/**
+ * @file store/triggerMiddleware.ts
+ * @description The Redux middleware that fires the active story's scripted triggers.
+ *
+ * @architectural_decision
+ * Trigger conditions span several slices (the viewed card, collected evidence, conversations, tokens), so
+ * they are evaluated in a middleware that sees the whole state before and after every action, rather than
+ * in the components that happen to cause the change. Deciding what fires is left to the pure
+ * `triggerEngine`; this file only builds its `TriggerFacts` and turns each effect into an ordinary action.
+ * Fired triggers are recorded in the story slice, so they are saved with the game and never fire twice.
+ * Effects can themselves satisfy other triggers (e.g. granted tokens or another trigger firing), so the
+ * evaluation repeats until nothing new fires, up to `MAX_TRIGGER_PASSES`.
+ * Locked locations and characters are checked in the same passes, since their `unlockWhen` conditions are
+ * trigger conditions. Whatever becomes available, by either route, is announced with an unlock notice.
+ */
+
+import { Dispatch, Middleware, isAnyOf } from '@reduxjs/toolkit';
+import { StoryTrigger, TriggerEffect } from '../types';
+import { getStoryPack } from '../data/storyRegistry';
+import { findTriggersToFire, findNewlyUnlockedIds, isUnlocked, TriggerFacts } from '../services/triggerEngine';
+import { recordTriggerFired, unlockLocation, revealCharacter, addTokens } from './storySlice';
+import { addADAMessage, queueADADirective } from './adaSlice';
+import { showModal, addUnlockNotice } from './uiSlice';
+import { loadStory } from './storyActions';
+import { restoreGame } from './saveActions';
+import type { RootState } from './index';
+
+/** Guards against triggers that keep satisfying each other. */
+const MAX_TRIGGER_PASSES = 5;
+
+const EMPTY_TRIGGERS: StoryTrigger[] = [];
+
+/** Actions that replace the whole game, so the state before them says nothing about the new one. */
+const isGameReplaced = isAnyOf(loadStory, restoreGame);
+
+/**
+ * Summarizes the state for the trigger engine.
+ */
+export const getTriggerFacts = (state: RootState): TriggerFacts => {
+  const collectedObjectIds = state.story.evidence.filter(ev => ev.cardType === 'object').map(ev => ev.cardId);
+  const completedLinesOfInquiry: TriggerFacts['completedLinesOfInquiry'] = {};
+  const insightLeads: TriggerFacts['insightLeads'] = {};
+  Object.values(state.dialogue.sessions.entities).forEach(session => {
+    if (!session) return;
+    completedLinesOfInquiry[session.characterId] = Object.keys(session.loiStatus).filter(loiId => session.loiStatus[loiId] === 'completed');
+    insightLeads[session.characterId] = session.insightLeads;
+  });
+
+  return {
+    activeCardId: state.ui.activeView === 'card' ? state.ui.activeCardId : null,
+    collectedObjectIds,
+    criticalEvidenceCount: collectedObjectIds.filter(id => state.story.objects.entities[id]?.rarity === 'critical').length,
+    completedLinesOfInquiry,
+    insightLeads,
+    playerTokens: state.story.playerTokens,
+    firedTriggerIds: state.story.firedTriggerIds,
+  };
+};
+
+/** Maps a trigger effect to the action that applies it. */
+const toEffectAction = (effect: TriggerEffect, trigger: StoryTrigger) => {
+  switch (effect.type) {
+    case 'adaMessage': return addADAMessage(effect.text);
+    case 'adaDirective': return queueADADirective(effect.text);
+    case 'unlockLocation': return unlockLocation(effect.locationId);
+    case 'revealCharacter': return revealCharacter(effect.characterId);
+    case 'grantTokens': return addTokens({ amount: effect.amount, reason: 'story', entityId: trigger.id });
+    case 'showModal': return showModal({ type: 'storyEvent', props: { title: effect.title, text: effect.text } });
+  }
+};
+
+/**
+ * Announces the locked locations and characters that became available between two story states.
+ */
+const announceUnlocks = (dispatch: Dispatch, before: RootState['story'], after: RootState['story']) => {
+  after.unlockedLocationIds.forEach(id => {
+    const location = after.locations.entities[id];
+    if (location && !isUnlocked(location, before.unlockedLocationIds)) {
+      dispatch(addUnlockNotice(`Location unlocked: ${location.name}`));
+    }
+  });
+  after.revealedCharacterIds.forEach(id => {
+    const character = after.characters.entities[id];
+    if (character && !isUnlocked(character, before.revealedCharacterIds)) {
+      dispatch(addUnlockNotice(`New person of interest: ${character.name}`));
+    }
+  });
+};
+
+export const triggerMiddleware: Middleware = (api) => {
+  let isEvaluating = false;
+
+  return (next) => (action) => {
+    const stateBefore = api.getState() as RootState;
+    const result = next(action);
+    // Actions dispatched by the effects below are picked up by the next pass instead.
+    if (isEvaluating) return result;
+
+    isEvaluating = true;
+    try {
+      const isReplaced = isGameReplaced(action);
+      let state = api.getState() as RootState;
+      let previous = getTriggerFacts(isReplaced ? state : stateBefore);
+      const unlockedBefore = isReplaced ? state.story : stateBefore.story;
+
+      for (let pass = 0; pass < MAX_TRIGGER_PASSES; pass++) {
+        const triggers = getStoryPack(state.story.storyId)?.story.triggers ?? EMPTY_TRIGGERS;
+        const current = getTriggerFacts(state);
+        const toFire = findTriggersToFire(triggers, previous, current);
+        const locationIds = findNewlyUnlockedIds(Object.values(state.story.locations.entities), state.story.unlockedLocationIds, current);
+        const characterIds = findNewlyUnlockedIds(Object.values(state.story.characters.entities), state.story.revealedCharacterIds, current);
+        if (toFire.length === 0 && locationIds.length === 0 && characterIds.length === 0) break;
+
+        toFire.forEach(trigger => {
+          api.dispatch(recordTriggerFired(trigger.id));
+          trigger.effects.forEach(effect => api.dispatch(toEffectAction(effect, trigger)));
+        });
+        locationIds.forEach(id => api.dispatch(unlockLocation(id)));
+        characterIds.forEach(id => api.dispatch(revealCharacter(id)));
+        previous = current;
+        state = api.getState() as RootState;
+      }
+
+      announceUnlocks(api.dispatch, unlockedBefore, state.story);
+    } finally {
+      isEvaluating = false;
+    }
+    return result;
+  };
+};
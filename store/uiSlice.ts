@@ -8,6 +8,9 @@
 import { createSlice, PayloadAction, createAsyncThunk } from '@reduxjs/toolkit';
 import { ViewType, CardType } from '../types';
 import { AppDispatch, RootState } from './index';
+import { loadStory } from './storyActions';
+import { restoreGame } from './saveActions';
+import { DEFAULT_STORY_ID } from '../data/storyRegistry';
 
 /**
  * Defines the possible types of modals that can be displayed.
@@ -22,8 +25,12 @@ export type ModalType =
   | 'accusation'
   | 'rarityReveal'
   | 'phaseComplete'
+  | 'phaseFailed'
   | 'insightUnlocked'
-  | 'caseSolved';
+  | 'caseSolved'
+  | 'saveLoad'
+  | 'storyEvent'
+  | 'bounty';
 
 interface HistoryEntry {
   view: ViewType;
@@ -53,8 +60,22 @@ interface UiState {
   introPlayed: boolean; // Flag to track if the intro has been played
   timelineMessages: string[]; // Holds messages for the timeline notification system
   newlyAddedEvidenceIds: string[]; // Holds IDs of new evidence for the "arrival" animation
+  unlockNotices: string[]; // Queued toasts announcing newly unlocked locations and characters
 }
 
+/**
+ * Reads whether the intro cinematic has already been played for a case.
+ * The flag is stored per case in localStorage; the legacy, un-namespaced key is still honored for the
+ * default case so existing players don't see its intro again.
+ * @param {string} storyId - The registry ID of the case.
+ * @returns {boolean} True if the intro has been played for this case.
+ */
+const readIntroPlayed = (storyId: string): boolean => {
+  if (typeof window === 'undefined') return false;
+  if (localStorage.getItem(`introPlayed:${storyId}`) === 'true') return true;
+  return storyId === DEFAULT_STORY_ID && localStorage.getItem('introPlayed') === 'true';
+};
+
 const initialState: UiState = {
   activeView: 'locations',
   activeCardId: null,
@@ -67,9 +88,10 @@ const initialState: UiState = {
   locationsView: 'map',
   visitedLocationIds: [],
   // Initialize 'introPlayed' from localStorage to ensure it persists across sessions.
-  introPlayed: typeof window !== 'undefined' ? localStorage.getItem('introPlayed') === 'true' : false,
+  introPlayed: readIntroPlayed(DEFAULT_STORY_ID),
   timelineMessages: [],
   newlyAddedEvidenceIds: [],
+  unlockNotices: [],
 };
 
 /**
@@ -93,7 +115,7 @@ export const checkMilestoneProgress = createAsyncThunk<void, void, { dispatch: A
   'ui/checkMilestoneProgress',
   async (_, { getState, dispatch }) => {
     const state = getState();
-    const { evidence, milestoneThreshold } = state.story;
+    const { evidence, rules: { milestoneThreshold } } = state.story;
     
     // The count of actual evidence items added by the player (excluding the initial crime).
     const playerEvidenceCount = evidence.filter(e => e.id !== 'ev-initial-crime').length;
@@ -183,11 +205,12 @@ const uiSlice = createSlice({
     },
     /**
      * Marks the introductory slideshow as played and saves this preference to localStorage.
+     * @param {string} action.payload The registry ID of the case whose intro was played.
      */
-    markIntroAsPlayed(state) {
+    markIntroAsPlayed(state, action: PayloadAction<string>) {
       state.introPlayed = true;
       if (typeof window !== 'undefined') {
-        localStorage.setItem('introPlayed', 'true');
+        localStorage.setItem(`introPlayed:${action.payload}`, 'true');
       }
     },
     addTimelineMessage(state, action: PayloadAction<string>) {
@@ -214,6 +237,30 @@ const uiSlice = createSlice({
     clearNewlyAddedEvidenceIds(state) {
         state.newlyAddedEvidenceIds = [];
     },
+    /**
+     * Queues a toast announcing that a location or character has been unlocked.
+     * Toasts are shown one at a time, in order.
+     */
+    addUnlockNotice(state, action: PayloadAction<string>) {
+        state.unlockNotices.push(action.payload);
+    },
+    /** Dismisses the toast currently shown. */
+    dismissUnlockNotice(state) {
+        state.unlockNotices.shift();
+    },
+  },
+  extraReducers: (builder) => {
+    // A newly loaded case starts on a clean UI, and plays its intro if it hasn't been seen yet.
+    builder.addCase(loadStory, (state, action) => ({
+      ...initialState,
+      introPlayed: readIntroPlayed(action.payload.id),
+    }));
+    // A restored game returns the player to where they saved, with no modal open.
+    builder.addCase(restoreGame, (state, action) => ({
+      ...initialState,
+      ...action.payload.state.ui,
+      introPlayed: readIntroPlayed(action.payload.state.story.storyId),
+    }));
   },
 });
 
@@ -229,6 +276,8 @@ export const {
   clearTimelineMessages,
   addNewlyAddedEvidenceId,
   clearNewlyAddedEvidenceIds,
+  addUnlockNotice,
+  dismissUnlockNotice,
 } = uiSlice.actions;
 
 export default uiSlice.reducer;
\ No newline at end of file
@@ -32,7 +32,7 @@ jest.mock('@reduxjs/toolkit', () => {
 
 // Now that the mock is set up, we can import the slice.
 // `getADAResponse` will be the mockThunk we created inside the factory.
-import adaReducer, { clearADAMessages, getADAResponse } from '../store/adaSlice';
+import adaReducer, { clearADAMessages, getADAResponse, queueADADirective, clearADADirectives } from '../store/adaSlice';
 import { configureStore } from '@reduxjs/toolkit';
 
 describe('adaSlice', () => {
@@ -53,6 +53,7 @@ describe('adaSlice', () => {
     isLoading: false,
     error: null,
     hasNewMessages: false,
+    pendingDirectives: [] as string[],
   };
 
   it('should handle initial state', () => {
@@ -73,6 +74,15 @@ describe('adaSlice', () => {
     // Expect the state to be reset to its initial form
     expect(actual).toEqual(initialState);
   });
+
+  it('should keep queued directives until they are sent', () => {
+    let state = adaReducer(initialState, queueADADirective('Connect the paint to the hammer.'));
+    // Navigating clears the analysis, but the directive is still waiting for the next prompt.
+    state = adaReducer(state, clearADAMessages());
+    expect(state.pendingDirectives).toEqual(['Connect the paint to the hammer.']);
+    state = adaReducer(state, clearADADirectives());
+    expect(state.pendingDirectives).toEqual([]);
+  });
   
   // Test the extraReducers for pending, fulfilled, and rejected states.
   it('should handle getADAResponse.pending', () => {
@@ -0,0 +1,36 @@
+/**
+ * @file tests/dbService.test.ts
+ * @description Unit tests for the image cache's eviction policy.
+ * These tests verify that the least recently used images are evicted first, that eviction stops as soon as
+ * the cache fits its budget, and that images on screen are never evicted.
+ * Note: This is a conceptual test file. It assumes a testing environment like Jest is set up.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { selectEvictionVictims, ImageCacheEntry } from '../services/dbService';
+
+const entry = (id: string, size: number, lastAccessedAt: number): { id: string; entry: ImageCacheEntry } => ({
+  id,
+  entry: { storyId: 'hayes_valley', size, lastAccessedAt },
+});
+
+const entries = [
+  entry('recent', 100, 300),
+  entry('oldest', 100, 100),
+  entry('older', 100, 200),
+];
+
+describe('selectEvictionVictims', () => {
+  it('should evict nothing when the cache is within budget', () => {
+    expect(selectEvictionVictims(entries, 300, [])).toEqual([]);
+  });
+
+  it('should evict the least recently used images until the cache fits', () => {
+    expect(selectEvictionVictims(entries, 200, [])).toEqual(['oldest']);
+    expect(selectEvictionVictims(entries, 100, [])).toEqual(['oldest', 'older']);
+  });
+
+  it('should never evict protected images', () => {
+    expect(selectEvictionVictims(entries, 200, ['oldest'])).toEqual(['older']);
+  });
+});
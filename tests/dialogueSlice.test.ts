@@ -0,0 +1,147 @@
+/**
+ * @file tests/dialogueSlice.test.ts
+ * @description Unit tests for the dialogue Redux slice and for resuming a conversation from it.
+ * These tests verify that sessions keep their transcript and progress per character, that testimony logged
+ * in different lines of inquiry becomes separate evidence, and that a chat rebuilt from the stored exchanges
+ * picks up where the conversation left off.
+ * Note: This is a conceptual test file. It assumes a testing environment like Jest is set up.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { configureStore } from '@reduxjs/toolkit';
+import dialogueReducer, {
+  openDialogueSession,
+  startLineOfInquiry,
+  recordQuestion,
+  recordWitnessResponse,
+  recordTestimonyEvidence,
+  completeLineOfInquiry,
+  endLineOfInquiry,
+  getDialogueChunkId,
+} from '../store/dialogueSlice';
+import storyReducer, { createEvidenceFromTestimony } from '../store/storySlice';
+import { loadStory } from '../store/storyActions';
+import { defaultStoryPack } from '../data/storyRegistry';
+import { createScriptedProvider, ScriptedFixtures } from '../services/providers/scriptedProvider';
+import { getInterrogationResponse } from '../services/geminiService';
+import { GAME_MECHANICS } from '../config';
+import type { AppDispatch, RootState } from '../store';
+
+const characterId = 'char_suspect';
+const open = openDialogueSession({ characterId, suggestedQuestions: ['Where were you?'] });
+const witnessSays = (text: string) => ({ sender: 'witness' as const, chunks: [{ id: text, text }] });
+
+describe('dialogueSlice', () => {
+  it('should create a session once and keep it when reopened', () => {
+    let state = dialogueReducer(undefined, open);
+    state = dialogueReducer(state, recordWitnessResponse({ characterId, message: witnessSays('Hello.') }));
+    state = dialogueReducer(state, open);
+    expect(state.sessions.entities[characterId]!.messages).toHaveLength(1);
+  });
+
+  it('should track a line of inquiry from start to completion', () => {
+    let state = dialogueReducer(undefined, open);
+    state = dialogueReducer(state, startLineOfInquiry({ characterId, loiId: 'alibi', initialQuestions: ['Where were you?'] }));
+    state = dialogueReducer(state, recordQuestion({ characterId, question: 'Where were you?' }));
+    state = dialogueReducer(state, recordWitnessResponse({
+      characterId,
+      message: witnessSays('At home.'),
+      exchange: { prompt: 'Where were you?', reply: '{}' },
+      progressValue: 80,
+    }));
+    state = dialogueReducer(state, recordTestimonyEvidence({ characterId, chunkId: 'At home.', progressValue: 80, isRevealed: false }));
+    state = dialogueReducer(state, completeLineOfInquiry({ characterId, loiId: 'alibi' }));
+    state = dialogueReducer(state, endLineOfInquiry(characterId));
+
+    const session = state.sessions.entities[characterId]!;
+    expect(session.initialQuestions).toBeNull();
+    expect(session.phaseProgress).toBe(GAME_MECHANICS.PHASE_COMPLETION_GOAL);
+    expect(session.evidenceCreatedChunkIds).toEqual(['At home.']);
+    expect(session.loiStatus).toEqual({ alibi: 'completed' });
+    expect(session.activeLoiId).toBeNull();
+    expect(session.exchanges).toHaveLength(1);
+  });
+
+  it('should keep the chat history when a new line of inquiry starts', () => {
+    let state = dialogueReducer(undefined, open);
+    state = dialogueReducer(state, recordWitnessResponse({ characterId, message: witnessSays('At home.'), exchange: { prompt: 'Q', reply: '{}' } }));
+    state = dialogueReducer(state, startLineOfInquiry({ characterId, loiId: 'motive', initialQuestions: [] }));
+    const session = state.sessions.entities[characterId]!;
+    expect(session.messages).toEqual([]);
+    expect(session.exchanges).toHaveLength(1);
+  });
+});
+
+describe('logging testimony', () => {
+  it('should log the first reply of each line of inquiry as separate evidence', async () => {
+    const store = configureStore({ reducer: { story: storyReducer, dialogue: dialogueReducer } });
+    // The thunk only reads the slices this store has.
+    const dispatch = store.dispatch as AppDispatch;
+    const getState = () => store.getState() as RootState;
+    dispatch(loadStory(defaultStoryPack, 'detective'));
+    const character = Object.values(getState().story.characters.entities)[0]!;
+    const startingTokens = getState().story.playerTokens;
+
+    const logFirstReply = async (loiId: string, text: string) => {
+      dispatch(openDialogueSession({ characterId: character.id, suggestedQuestions: [] }));
+      dispatch(startLineOfInquiry({ characterId: character.id, loiId, initialQuestions: [] }));
+      const replyNumber = getState().dialogue.sessions.entities[character.id]!.repliesReceived;
+      const chunk = { id: getDialogueChunkId(character.id, replyNumber, 0), text };
+      dispatch(recordWitnessResponse({ characterId: character.id, message: { sender: 'witness', chunks: [chunk] } }));
+      return dispatch(createEvidenceFromTestimony({ chunk, character })).unwrap();
+    };
+
+    const alibi = await logFirstReply('alibi', 'I was at home.');
+    const motive = await logFirstReply('motive', 'I loved her.');
+
+    const story = getState().story;
+    expect(alibi.id).not.toBe(motive.id);
+    expect(story.objects.entities[alibi.id]).toBeDefined();
+    expect(story.objects.entities[motive.id]).toBeDefined();
+    expect(story.playerTokens).toBe(startingTokens - 2 * story.rules.testimonyEvidenceCost);
+  });
+
+  it('should not charge again for a chunk that was already logged', async () => {
+    const store = configureStore({ reducer: { story: storyReducer, dialogue: dialogueReducer } });
+    const dispatch = store.dispatch as AppDispatch;
+    const getState = () => store.getState() as RootState;
+    dispatch(loadStory(defaultStoryPack, 'detective'));
+    const character = Object.values(getState().story.characters.entities)[0]!;
+    const chunk = { id: getDialogueChunkId(character.id, 0, 0), text: 'I was at home.' };
+
+    await dispatch(createEvidenceFromTestimony({ chunk, character })).unwrap();
+    const tokens = getState().story.playerTokens;
+    await dispatch(createEvidenceFromTestimony({ chunk, character })).unwrap();
+    expect(getState().story.playerTokens).toBe(tokens);
+  });
+});
+
+describe('resuming a conversation', () => {
+  const fixtures: ScriptedFixtures = {
+    adaResponses: [],
+    personas: [{
+      personaMatch: 'You are Test Suspect',
+      linesOfInquiry: {
+        'Ask about the alibi': [
+          { chunks: [{ text: "I was home." }], nextSuggestedQuestions: [], progressValue: 50, adaFeedback: "Good." },
+          { chunks: [{ text: "Fine, I went out." }], nextSuggestedQuestions: [], progressValue: 50, adaFeedback: "Got her." },
+        ],
+      },
+      defaultTurns: [],
+    }],
+    fallbackTurns: [],
+  };
+
+  it('should continue the scripted conversation from the stored history', async () => {
+    const message = '(My current line of inquiry is: "Ask about the alibi")\n\nWhere were you?';
+    const provider = createScriptedProvider(fixtures);
+    const first = await getInterrogationResponse(provider.startInterviewChat('You are Test Suspect.'), message);
+
+    const resumed = provider.startInterviewChat('You are Test Suspect.', [
+      { role: 'user', text: message },
+      { role: 'model', text: JSON.stringify(first) },
+    ]);
+    const second = await getInterrogationResponse(resumed, message);
+    expect(second.chunks[0].text).toBe("Fine, I went out.");
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * @file tests/imageFailures.test.ts
+ * @description Unit tests for image failure classification and the retry schedule.
+ * These tests verify that transient failures back off exponentially, and that safety-filtered or
+ * repeatedly failing images wait for a manual retry.
+ * Note: This is a conceptual test file. It assumes a testing environment like Jest is set up.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { classifyImageFailure, recordImageFailure } from '../services/imageFailures';
+import { ImageGenerationError } from '../services/aiProvider';
+import { API_CONFIG } from '../config';
+
+describe('classifyImageFailure', () => {
+  it('should use the reason reported by the provider', () => {
+    expect(classifyImageFailure(new ImageGenerationError('429', 'rateLimit'))).toEqual('rateLimit');
+  });
+
+  it('should treat a failed fetch as a network error', () => {
+    expect(classifyImageFailure(new TypeError('Failed to fetch'))).toEqual('network');
+  });
+
+  it('should fall back to unknown when the provider returned nothing', () => {
+    expect(classifyImageFailure(undefined)).toEqual('unknown');
+  });
+});
+
+describe('recordImageFailure', () => {
+  it('should double the delay after each consecutive failure', () => {
+    const first = recordImageFailure('network', undefined, 0);
+    const second = recordImageFailure('network', first, 0);
+    expect(first.attempts).toEqual(1);
+    expect(first.nextRetryAt).toEqual(API_CONFIG.IMAGE_RETRY_BASE_DELAY);
+    expect(second.nextRetryAt).toEqual(API_CONFIG.IMAGE_RETRY_BASE_DELAY * 2);
+  });
+
+  it('should wait longer after a rate limit', () => {
+    expect(recordImageFailure('rateLimit', undefined, 0).nextRetryAt).toEqual(API_CONFIG.IMAGE_RETRY_BASE_DELAY * 2);
+  });
+
+  it('should not retry a safety-filtered image automatically', () => {
+    expect(recordImageFailure('safety', undefined, 0).nextRetryAt).toBeNull();
+  });
+
+  it('should stop retrying automatically after the maximum number of attempts', () => {
+    const previous = { reason: 'network' as const, attempts: API_CONFIG.IMAGE_RETRY_MAX_ATTEMPTS - 1, nextRetryAt: 0 };
+    expect(recordImageFailure('network', previous, 0).nextRetryAt).toBeNull();
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * @file tests/interrogationStreamParser.test.ts
+ * @description Unit tests for the incremental parser that emits witness chunks while a reply streams in.
+ * These tests verify that chunks are emitted as soon as they are complete, regardless of how the text
+ * is split, and that the listener passed to `getInterrogationResponse` is reset when a reply is repaired.
+ * Note: This is a conceptual test file. It assumes a testing environment like Jest is set up.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { createChunkStreamParser } from '../services/interrogationStreamParser';
+import { getInterrogationResponse } from '../services/geminiService';
+import { AIChatSession } from '../services/aiProvider';
+
+const reply = 'Here you go:\n{"chunks": [' +
+  '{"text": "I was at {home}, \\"really\\".", "isCriticalClue": false}, ' +
+  '"Ask my [sister].", ' +
+  '{"text": "I saw a van.", "isCriticalClue": true, "insight": {"justification": "A witness.", "newLead": "The van"}}' +
+  '], "phaseUpdate": {"progressValue": 10}, "nextSuggestedQuestions": ["Which van?"], "adaFeedback": "A lead."}';
+
+/** Feeds the text to a fresh parser in pieces of the given size and collects every emitted chunk. */
+const parseInPieces = (text: string, size: number) => {
+  const parser = createChunkStreamParser();
+  const emitted = [];
+  for (let offset = 0; offset < text.length; offset += size) {
+    emitted.push(...parser.push(text.slice(offset, offset + size)));
+  }
+  return emitted;
+};
+
+describe('createChunkStreamParser', () => {
+  it('should emit the same chunks however the stream is split', () => {
+    const whole = parseInPieces(reply, reply.length);
+    expect(whole.map(c => c.text)).toEqual(['I was at {home}, "really".', 'Ask my [sister].', 'I saw a van.']);
+    for (const size of [1, 5, 48]) {
+      expect(parseInPieces(reply, size)).toEqual(whole);
+    }
+  });
+
+  it('should emit a chunk as soon as its closing brace arrives', () => {
+    const parser = createChunkStreamParser();
+    // The first chunk's text has a brace of its own, which must not end the chunk.
+    const firstEnd = reply.indexOf('false}') + 'false}'.length;
+    expect(parser.push(reply.slice(0, firstEnd - 1))).toEqual([]);
+    expect(parser.push(reply.slice(firstEnd - 1, firstEnd))).toHaveLength(1);
+  });
+
+  it('should ignore arrays other than chunks', () => {
+    const parser = createChunkStreamParser();
+    expect(parser.push('{"nextSuggestedQuestions": ["Where?"], "chunks": []}')).toEqual([]);
+  });
+});
+
+describe('getInterrogationResponse streaming', () => {
+  it('should report chunks while streaming and reset them before a repair', async () => {
+    const replies = ['{"chunks": [{"text": "Half an answer."}', reply];
+    const chat: AIChatSession = {
+      sendMessageStream: async () => {
+        const text = replies.shift() ?? '';
+        return (async function* () {
+          for (let offset = 0; offset < text.length; offset += 16) yield { text: text.slice(offset, offset + 16) };
+        })();
+      },
+    };
+    const reported: string[][] = [];
+    const response = await getInterrogationResponse(chat, 'Where were you?', chunks => reported.push(chunks.map(c => c.text)));
+
+    expect(reported[0]).toEqual(['Half an answer.']);
+    expect(reported).toContainEqual([]);
+    expect(reported[reported.length - 1]).toEqual(response.chunks.map(c => c.text));
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * @file tests/questionGuard.test.ts
+ * @description Unit tests for the screening of questions the player types during an interrogation.
+ * These tests verify that empty, overlong and abusive questions are rejected, and that the off-topic check
+ * uses the case vocabulary without blocking questions that only make sense in context.
+ * Note: This is a conceptual test file. It assumes a testing environment like Jest is set up.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { checkTypedQuestion, MAX_TYPED_QUESTION_LENGTH } from '../services/questionGuard';
+
+const vocabulary = ['Expose the motive behind the argument', 'What was the argument about?', 'James Lee', 'Golden Gate Apothecary'];
+const reasonFor = (text: string) => {
+  const result = checkTypedQuestion(text, vocabulary);
+  return 'reason' in result ? result.reason : null;
+};
+
+describe('checkTypedQuestion', () => {
+  it('should let through questions about the case', () => {
+    expect(reasonFor('Why did you argue with her?')).toBeNull();
+    expect(reasonFor('How well do you know James?')).toBeNull();
+    expect(reasonFor('Where were you on the night she died?')).toBeNull();
+  });
+
+  it('should let through questions made only of common words', () => {
+    expect(reasonFor('What did you do then?')).toBeNull();
+  });
+
+  it('should reject questions with nothing to do with the case', () => {
+    expect(reasonFor('Do you like pizza or tacos?')).toBe('offTopic');
+  });
+
+  it('should reject empty, overlong and abusive questions', () => {
+    expect(reasonFor('  Why?  ')).toBe('tooShort');
+    expect(reasonFor(`Why ${'really '.repeat(MAX_TYPED_QUESTION_LENGTH)}?`)).toBe('tooLong');
+    expect(reasonFor('Where the hell is the damn shit, James?')).toBe('profanity');
+  });
+
+  it('should not flag words that merely contain a profanity', () => {
+    expect(reasonFor('Did you see Dickens at the apothecary?')).toBeNull();
+  });
+
+  it('should normalize the whitespace of an accepted question', () => {
+    expect(checkTypedQuestion('  Tell me   about James Lee. ', vocabulary)).toEqual({ ok: true, question: 'Tell me about James Lee.' });
+  });
+});
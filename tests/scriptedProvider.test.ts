@@ -0,0 +1,78 @@
+/**
+ * @file tests/scriptedProvider.test.ts
+ * @description Unit tests for the offline, fixture-driven AI provider.
+ * These tests verify that the provider is deterministic and that its interrogation stream
+ * satisfies the same JSON contract as the live model.
+ * Note: This is a conceptual test file. It assumes a testing environment like Jest is set up.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { createScriptedProvider, ScriptedFixtures } from '../services/providers/scriptedProvider';
+import { getInterrogationResponse } from '../services/geminiService';
+import { CanonicalTimeline } from '../types';
+
+const fixtures: ScriptedFixtures = {
+  adaResponses: ["First insight.", "Second insight.", "Third insight."],
+  personas: [
+    {
+      personaMatch: 'You are Test Suspect',
+      linesOfInquiry: {
+        'Ask about the alibi': [
+          { chunks: [{ text: "I was home." }], nextSuggestedQuestions: ["Who saw you?"], progressValue: 50, adaFeedback: "Good." },
+          { chunks: [{ text: "Fine, I went out.", isCriticalClue: true }], nextSuggestedQuestions: [], progressValue: 50, adaFeedback: "Got her.", phaseCompleted: true },
+        ],
+      },
+      defaultTurns: [],
+    },
+  ],
+  fallbackTurns: [
+    { chunks: [{ text: "No comment." }], nextSuggestedQuestions: [], progressValue: 5, adaFeedback: "Nothing useful." },
+  ],
+};
+
+describe('scriptedProvider', () => {
+  const provider = createScriptedProvider(fixtures);
+
+  it('should return the same ADA response for the same prompt', async () => {
+    const first = await provider.getADAResponse('Player is viewing the hammer.');
+    const second = await provider.getADAResponse('Player is viewing the hammer.');
+    expect(first).toEqual(second);
+    expect(fixtures.adaResponses).toContain(first);
+  });
+
+  it('should replay authored turns in order for a line of inquiry', async () => {
+    const chat = provider.startInterviewChat('You are Test Suspect, a nervous witness.');
+    const message = '(My current line of inquiry is: "Ask about the alibi")\n\nWhere were you?';
+
+    const first = await getInterrogationResponse(chat, message);
+    expect(first.chunks[0].text).toEqual("I was home.");
+    expect(first.phaseUpdate.progressValue).toBe(50);
+
+    const second = await getInterrogationResponse(chat, message);
+    expect(second.phaseCompleted).toBe(true);
+
+    // Once the script is exhausted, the last turn is replayed without further progress.
+    const third = await getInterrogationResponse(chat, message);
+    expect(third.phaseUpdate.progressValue).toBe(0);
+    expect(third.phaseCompleted).toBe(false);
+  });
+
+  it('should fall back to generic turns for unknown personas', async () => {
+    const chat = provider.startInterviewChat('You are Somebody Else.');
+    const response = await getInterrogationResponse(chat, 'Hello?');
+    expect(response.chunks[0].text).toEqual("No comment.");
+  });
+
+  it('should score a complete, correct submission as accepted', async () => {
+    const groundTruth: CanonicalTimeline = {
+      culpritId: 'char_culprit',
+      keyEvents: [{ objectId: 'obj_a', description: 'A' }, { objectId: 'obj_b', description: 'B' }],
+    };
+    const result = await provider.evaluateTimeline({ suspectId: 'char_culprit', evidenceIds: ['obj_a', 'obj_b'] }, groundTruth, 'The Culprit');
+    expect(result?.verdict).toEqual('Case Accepted');
+    expect(result?.score).toBe(100);
+
+    const wrong = await provider.evaluateTimeline({ suspectId: 'char_other', evidenceIds: [] }, groundTruth, 'Someone Else');
+    expect(wrong?.verdict).toEqual('Case Rejected');
+  });
+});
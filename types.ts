@@ -45,7 +45,7 @@ export type EvidenceRarity = 'irrelevant' | 'circumstantial' | 'material' | 'cri
 export interface Hotspot {
   id: string;
   type?: 'investigate' | 'move'; // The type of interaction, influences the icon. 'investigate' is default.
-  coords?: { top: string; left: string; width: string; height: string }; // Optional static coords
+  coords?: { top: string; left: string; width?: string; height?: string }; // Optional static coords (the hotspot's center)
   targetCardId: string; // The ID of the card to navigate to
   targetCardType: CardType | 'evidenceGroup'; // Can now point to an evidence group
   label: string; // The text displayed on the hotspot
@@ -130,6 +130,8 @@ export interface LineOfInquiryData {
     id: string;
     label: string;
     initialQuestions: string[];
+    /** The objects that catch the suspect out when presented during this line of inquiry. */
+    keyEvidenceIds?: string[];
 }
 
 /** Represents the static data needed for a suspect interrogation. */
@@ -215,6 +217,8 @@ export interface WitnessResponse {
 export interface ActiveFeedback {
   text: string;
   progressChange: number;
+  /** The change in the suspect's hostility caused by the turn, if any. */
+  hostilityChange?: number;
   source: 'question' | 'evidence';
 }
 
@@ -222,6 +226,43 @@ export interface ActiveFeedback {
 /** A union type for all possible message types in the chat log. */
 export type ChatMessage = PlayerMessage | WitnessResponse;
 
+/**
+ * One question and answer in a dialogue, kept so the AI chat can be rebuilt when the player returns.
+ */
+export interface DialogueExchange {
+  /** The message sent to the AI, including any line-of-inquiry context. */
+  prompt: string;
+  /** The witness's validated reply, serialized in the JSON format the AI answers in. */
+  reply: string;
+}
+
+/**
+ * The saved state of a conversation with one character: the transcript, the chat history behind it and,
+ * for interrogations, the lines of inquiry completed and the progress of the active one.
+ */
+export interface DialogueSession {
+  characterId: string;
+  messages: WitnessResponse[];
+  exchanges: DialogueExchange[];
+  lastQuestionAsked: string | null;
+  suggestedQuestions: string[];
+  /** The opening questions of the active line of inquiry, until the player asks one of them. */
+  initialQuestions: string[] | null;
+  activeLoiId: string | null;
+  loiStatus: Record<string, 'completed'>;
+  phaseProgress: number;
+  evidenceCreatedChunkIds: string[];
+  revealedCriticalIds: string[];
+  /** The objects presented to the character during the active line of inquiry. */
+  presentedEvidenceIds: string[];
+  /** How antagonized a suspect is, from 0 up to `GAME_MECHANICS.HOSTILITY_LAWYER_THRESHOLD`. Kept across lines of inquiry. */
+  hostility: number;
+  /** The new leads of every insight revealed by the character. Kept across lines of inquiry. */
+  insightLeads: string[];
+  /** How many replies the character has given. Kept across lines of inquiry, so it numbers chunk IDs. */
+  repliesReceived: number;
+}
+
 
 // --- Core Data Interfaces ---
 
@@ -246,6 +287,10 @@ export interface Character {
   };
   testimonyIds: string[];
   components: DataComponent[]; // Holds all forensic/digital data components.
+  /** The character stays hidden until any one of these conditions holds. Omit to list them from the start. */
+  unlockWhen?: TriggerCondition[];
+  /** Shown in place of a character who is still hidden. */
+  lockedTeaser?: string;
 }
 
 /**
@@ -296,6 +341,10 @@ export interface Location {
   lastEventDescription: string;
   sceneSummary?: string;
   isInternal?: boolean; // Flag to indicate if the location is an internal room and shouldn't appear on the main map.
+  /** The location stays locked until any one of these conditions holds. Omit to open it from the start. */
+  unlockWhen?: TriggerCondition[];
+  /** Shown on the map pin of a location that is still locked. */
+  lockedTeaser?: string;
 }
 
 /**
@@ -337,20 +386,68 @@ export interface EvidenceStack {
 /**
  * Represents a single token-earning bounty/mini-game.
  */
+/**
+ * The puzzle a bounty asks the player to solve. Each type carries the seed data its mini-game is built from.
+ */
+export type BountyPuzzle =
+  /**
+   * A message enciphered with `key`, the 26 letters that replace A to Z; the player types the plain text.
+   * The letters in `revealedLetters` are shown deciphered from the start.
+   */
+  | { type: 'cipher'; plaintext: string; key: string; revealedLetters?: string }
+  /** Words whose letters are shuffled with `seed`; the player unscrambles each one. */
+  | { type: 'scramble'; words: string[]; seed: number; hint?: string }
+  /** A grid pairing each row with one column, deduced from the clues. */
+  | { type: 'logicGrid'; rows: string[]; columns: string[]; clues: string[]; solution: { [row: string]: string } }
+  /** A sequence whose next item the player picks from the options. */
+  | { type: 'pattern'; sequence: string[]; options: string[]; answer: string };
+
 export interface Bounty {
   id: string;
   title: string;
   description: string;
   reward: number;
+  puzzle?: BountyPuzzle;
+  /** If set, the bounty can be solved again this many minutes after it was last solved; otherwise only once. */
+  cooldownMinutes?: number;
+  /** Offered only when the player can no longer afford the case, as a way out. */
+  isEmergency?: boolean;
+}
+
+/** What the player's tokens were spent on or earned from. */
+export type TokenReason = 'unlock' | 'question' | 'presentEvidence' | 'testimony' | 'contradiction' | 'story' | 'bounty' | 'captain' | 'hint' | 'dev';
+
+/** A change to the player's token balance, as requested by the code that causes it. */
+export interface TokenChange {
+  amount: number;
+  reason: TokenReason;
+  /** The object, character or bounty the change relates to, if any. */
+  entityId?: string;
+}
+
+/** A recorded change to the player's token balance. */
+export interface TokenLedgerEntry {
+  id: string;
+  /** The change actually applied: positive for income, negative for spending. */
+  amount: number;
+  reason: TokenReason;
+  entityId: string | null;
+  timestamp: number;
+  /** The balance after the change. */
+  balance: number;
 }
 
 /**
  * General information about the story.
  */
 export interface StoryInfo {
+  /** A short teaser for the case, shown on the case-select screen. */
+  premise?: string;
   mapImagePrompt: string;
   mapTitle: string;
   crimeSceneId?: string;
+  /** Lets players type their own questions during interrogations, at the difficulty's `typedQuestionCost` each. */
+  allowTypedQuestions?: boolean;
 }
 
 /**
@@ -364,6 +461,84 @@ export interface CanonicalTimeline {
   }[];
 }
 
+/**
+ * An authored conflict between a character's statement and a piece of evidence. Flagging the pair in
+ * the case file is rewarded; flagging a pair without a rule is penalized.
+ */
+export interface ContradictionRule {
+  id: string;
+  /** The ID of the `Testimony` that is contradicted. */
+  statementId: string;
+  /** The ID of the `StoryObject` that contradicts it. */
+  objectId: string;
+  /** Why the two conflict, shown to the player once the contradiction is confirmed. */
+  explanation: string;
+  /** Phrases that identify the same claim in testimony fragments logged from the same character. */
+  fragmentPhrases?: string[];
+}
+
+/** How specific an ADA hint is: 1 is a vague nudge, 2 a pointed hint and 3 an explicit direction. */
+export type HintTier = 1 | 2 | 3;
+
+/**
+ * The authored hints for one piece of the case the player may be missing. Tiers left out are written by
+ * the AI, paraphrasing what the story already says about the target.
+ */
+export interface StoryHint {
+  /** The object ID of a canonical key event, or the `eventKey` of a case file primary slot. */
+  targetId: string;
+  vague?: string;
+  pointed?: string;
+  explicit?: string;
+}
+
+/** A hint the player has bought from ADA. */
+export interface PurchasedHint {
+  targetId: string;
+  tier: HintTier;
+  text: string;
+  timestamp: number;
+}
+
+/** A condition of a `StoryTrigger`. */
+export type TriggerCondition =
+  /** The player is looking at the card. */
+  | { type: 'cardViewed'; cardId: string }
+  /** The object has been collected as evidence. */
+  | { type: 'evidenceCollected'; objectId: string }
+  | { type: 'lineOfInquiryCompleted'; characterId: string; loiId: string }
+  /** The player has fewer than `amount` tokens. */
+  | { type: 'tokensBelow'; amount: number }
+  /** At least `count` critical objects have been collected. */
+  | { type: 'criticalEvidenceCount'; count: number }
+  /** An insight was revealed, from the character if given, whose new lead mentions one of the phrases if given. */
+  | { type: 'insightRevealed'; characterId?: string; leadPhrases?: string[] }
+  /** Another trigger has already fired. */
+  | { type: 'triggerFired'; triggerId: string };
+
+/** Something that happens when a `StoryTrigger` fires. */
+export type TriggerEffect =
+  /** A message added straight to ADA's log. */
+  | { type: 'adaMessage'; text: string }
+  /** An instruction added to ADA's next analysis prompt. */
+  | { type: 'adaDirective'; text: string }
+  | { type: 'unlockLocation'; locationId: string }
+  | { type: 'revealCharacter'; characterId: string }
+  | { type: 'grantTokens'; amount: number }
+  /** A story event shown in a modal. */
+  | { type: 'showModal'; title: string; text: string };
+
+/**
+ * A scripted story beat. Once all of its conditions hold, its effects are applied. A trigger fires once
+ * per case unless it is `repeatable`, in which case it fires again each time its conditions become true.
+ */
+export interface StoryTrigger {
+  id: string;
+  conditions: TriggerCondition[];
+  effects: TriggerEffect[];
+  repeatable?: boolean;
+}
+
 /**
  * Represents the structured result from the AI timeline evaluation.
  */
@@ -394,6 +569,14 @@ export interface Clue {
   bonusPoints?: number;
 }
 
+/** A statement and object pair the player flagged as contradictory, and the rule it matched, if any. */
+export interface ContradictionFlag {
+  /** The testimony ID, or the object ID of a testimony fragment. */
+  statementId: string;
+  objectId: string;
+  ruleId: string | null;
+}
+
 /** Represents a location on the timeline where a clue can be placed. */
 export interface EvidenceSlot {
   /** A unique identifier for the slot. */
@@ -442,13 +625,79 @@ export interface StoryData {
   testimonies: Testimony[];
   canonicalTimeline?: CanonicalTimeline;
   evidenceStacks?: EvidenceStack[];
+  contradictions?: ContradictionRule[];
+  triggers?: StoryTrigger[];
+  /** Authored ADA hints for the key events and case file slots the player may be missing. */
+  hints?: StoryHint[];
   bounties: Bounty[];
 }
 
+/** A single slide of a story's introductory cinematic. */
+export interface IntroSlide {
+  id: string;
+  imagePrompt: string;
+  narration: string;
+}
+
+/** The difficulty presets a case can be played on. */
+export type DifficultyId = 'rookie' | 'detective' | 'hardBoiled';
+
+/**
+ * The balancing numbers a case is played with. They come from the chosen difficulty preset and the
+ * story's overrides, and are fixed for the whole investigation.
+ */
+export interface DifficultyRules {
+  startingTokens: number;
+  /** The cost of a suggested question during an interrogation. Off-topic typed questions cost this too. */
+  questionCost: number;
+  typedQuestionCost: number;
+  presentEvidenceCost: number;
+  /** The cost of turning a piece of testimony into evidence. */
+  testimonyEvidenceCost: number;
+  /** Scales every object's `costToUnlock`. */
+  unlockCostMultiplier: number;
+  contradictionReward: number;
+  falseContradictionPenalty: number;
+  /** The pieces of evidence needed before a case can be submitted to the DA. */
+  accusationThreshold: number;
+  /** How many times a case can be submitted to the DA, or null for no limit. */
+  maxAccusations: number | null;
+  /** Every this many pieces of evidence, ADA comments on the timeline. */
+  milestoneThreshold: number;
+  /** The most explicit hint ADA will give: 0 for none, up to 3 for hints that name the evidence. */
+  maxHintTier: number;
+  /** Shows an object's rarity before the player has paid to unlock it. */
+  rarityVisibleBeforeUnlock: boolean;
+}
+
+/**
+ * A story's changes to the difficulty presets. `rules` applies on every preset; `presets` tunes single
+ * presets and wins over `rules`.
+ */
+export interface StoryDifficultyOverrides {
+  rules?: Partial<DifficultyRules>;
+  presets?: { [id in DifficultyId]?: Partial<DifficultyRules> };
+}
+
+/**
+ * A self-contained, playable case. Everything the game needs to run a story lives in its pack,
+ * so adding a new case means authoring a new pack and registering it in `data/storyRegistry.ts`.
+ * Bounties travel with the pack as part of its `story` data.
+ */
+export interface StoryPack {
+  /** A unique, stable identifier for the case (used for saves and per-case preferences). */
+  id: string;
+  story: StoryData;
+  caseFile: CaseFileData;
+  introSlides: IntroSlide[];
+  /** How this case changes the difficulty presets, e.g. a shorter case needing less evidence. */
+  difficulty?: StoryDifficultyOverrides;
+}
+
 /**
  * Defines the main views the player can navigate between.
  */
-export type ViewType = 'people' | 'locations' | 'timeline' | 'card' | 'tokens';
+export type ViewType = 'people' | 'locations' | 'timeline' | 'card' | 'tokens' | 'cases';
 
 /**
  * Enumerates player actions for context-aware AI analysis.
@@ -464,4 +713,80 @@ export enum PlayerAction {
     TAP_HOTSPOT = "has tapped a hotspot",
     FILTER_TIMELINE = "is filtering the evidence timeline",
     CREATE_EVIDENCE_FROM_TESTIMONY = "has created a new piece of evidence from a suspect's testimony",
-}
\ No newline at end of file
+}
+
+/**
+ * How urgently an image is needed, from most to least urgent: the card the player is viewing, an open
+ * modal, a thumbnail in a list, and speculative prefetching.
+ */
+export type ImagePriority = 'visible' | 'modal' | 'thumbnail' | 'prefetch';
+
+/**
+ * Hotspot positions for one generated location image, found by AI analysis or placed by a designer.
+ * Stored in IndexedDB under a hash of the image, so they are only reused for the exact image they describe.
+ */
+export interface HotspotCalibration {
+  locationId: string;
+  /** Normalized (0.0-1.0) center coordinates, keyed by hotspot ID. */
+  coords: { [hotspotId: string]: { x: number; y: number } };
+  /** Locked coordinates are final: they are not re-analyzed and cannot be dragged. */
+  locked: boolean;
+  updatedAt: number;
+}
+
+/** Why an image could not be generated. */
+export type ImageFailureReason = 'rateLimit' | 'safety' | 'network' | 'unknown';
+
+/**
+ * A recorded image generation failure. Failures are persisted alongside the image cache so that
+ * retries keep backing off across sessions instead of hammering the API on every page load.
+ */
+export interface ImageFailure {
+  reason: ImageFailureReason;
+  /** How many times in a row generation has failed for this image. */
+  attempts: number;
+  /** When an automatic retry may next be attempted (epoch ms), or null if only a manual retry is allowed. */
+  nextRetryAt: number | null;
+}
+
+// --- Save Game Types ---
+
+/** Distinguishes the rolling autosave from slots the player saved by hand. */
+export type SaveSlotKind = 'auto' | 'manual';
+
+/** The summary of a save slot, shown in the load/continue menu without reading the full snapshot. */
+export interface SaveSlotMetadata {
+  slotId: string;
+  /** The player-facing name of the slot. */
+  name: string;
+  kind: SaveSlotKind;
+  /** The registry ID of the case that was saved. */
+  storyId: string;
+  caseTitle: string;
+  /** When the slot was written, as an ISO 8601 string. */
+  savedAt: string;
+  /** The total time played on this investigation, in milliseconds. */
+  playTimeMs: number;
+  tokens: number;
+  /** The number of evidence items the player has collected, excluding the initial crime. */
+  evidenceCount: number;
+}
+
+/** A complete save slot as stored in IndexedDB. */
+export interface SaveGameRecord<TState = unknown> {
+  /** The save schema version the snapshot was written with. Missing on saves that predate versioning. */
+  schemaVersion?: number;
+  metadata: SaveSlotMetadata;
+  state: TState;
+}
+
+/** A save that could not be migrated. It is set aside, untouched, so it can be inspected or deleted. */
+export interface QuarantinedSaveRecord {
+  metadata: SaveSlotMetadata;
+  /** The original record, exactly as it was read. */
+  record: SaveGameRecord;
+  /** Why the migration failed. */
+  reason: string;
+  /** When the save was quarantined, as an ISO 8601 string. */
+  quarantinedAt: string;
+}